@@ -1,20 +1,55 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
+import type { Session } from '@supabase/supabase-js';
 import LoginPage from './components/LoginPage';
 import DashboardLayout from './components/DashboardLayout';
+import { watchSession, signOut, fetchUserProfile } from './utils/auth';
+import { UserProfile } from './types';
 
 const App = () => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [isRestoringSession, setIsRestoringSession] = useState(true);
 
-  const handleLogin = useCallback(() => setIsAuthenticated(true), []);
-  const handleLogout = useCallback(() => {
-    setIsAuthenticated(false);
+  useEffect(() => watchSession(nextSession => {
+    setSession(nextSession);
+    setIsRestoringSession(false);
+  }), []);
+
+  const userId = session?.user.id;
+  const userEmail = session?.user.email || '';
+  useEffect(() => {
+    setProfile(null);
+    if (!userId) return;
+    let isCurrent = true;
+    fetchUserProfile(userId, userEmail).then(nextProfile => {
+      if (isCurrent) setProfile(nextProfile);
+    });
+    return () => { isCurrent = false; };
+  }, [userId, userEmail]);
+
+  const handleLogout = useCallback(async () => {
+    try {
+      await signOut();
+    } catch (err) {
+      console.error('Failed to revoke the session:', err);
+    } finally {
+      // Drop the local view even if the revoke call failed (e.g. offline)
+      setSession(null);
+    }
   }, []);
 
   const AppContent = () => {
-    if (!isAuthenticated) {
-      return <LoginPage onLogin={handleLogin} />;
+    if (isRestoringSession || (session && !profile)) {
+      return (
+        <div className="flex h-screen w-screen items-center justify-center bg-gray-900">
+          <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      );
+    }
+    if (!session || !profile) {
+      return <LoginPage />;
     }
-    return <DashboardLayout onLogout={handleLogout} />;
+    return <DashboardLayout profile={profile} onLogout={handleLogout} />;
   };
 
   return (
@@ -24,4 +59,4 @@ const App = () => {
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
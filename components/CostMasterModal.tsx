@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { OrderData, ProductCost } from '../types';
+import { ALWAYS_VALID_FROM, ParsedCostSheet, parseCostSheet } from '../utils/costs';
+
+interface CostMasterModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (costs: ProductCost[]) => Promise<void>;
+  onDelete: (cost: ProductCost) => Promise<void>;
+  costs: ProductCost[];
+}
+
+// The master can run to tens of thousands of entries; it is searched rather than scrolled
+const MAX_LISTED = 200;
+const MAX_ERRORS_SHOWN = 10;
+
+const labelClass = 'block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2';
+
+const CostMasterModal: React.FC<CostMasterModalProps> = ({ isOpen, onClose, onImport, onDelete, costs }) => {
+  const [parsed, setParsed] = useState<ParsedCostSheet | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [search, setSearch] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setParsed(null);
+    setFileName('');
+    setSearch('');
+    setError(null);
+    setIsSaving(false);
+  }, [isOpen]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setParsed(null);
+    setFileName(file.name);
+    window.Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results: { data: OrderData[] }) => setParsed(parseCostSheet(results.data)),
+      error: (err: Error) => setError(`CSV Error: ${err.message}`),
+    });
+  };
+
+  const handleImport = async () => {
+    if (!parsed?.costs.length) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onImport(parsed.costs);
+      setParsed(null);
+      setFileName('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save the cost master.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (cost: ProductCost) => {
+    if (!window.confirm(`Remove the cost of ${cost.sku}${cost.validFrom === ALWAYS_VALID_FROM ? '' : ` from ${cost.validFrom}`}?`)) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onDelete(cost);
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove the cost.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const query = search.trim().toUpperCase();
+  const matches = query ? costs.filter(cost => cost.sku.includes(query)) : costs;
+  const skuCount = new Set(costs.map(cost => cost.sku)).size;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60">
+      <div className="relative w-full max-w-2xl p-6 bg-gray-800 border border-gray-700 rounded-lg shadow-xl animate-in zoom-in duration-200 max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white" disabled={isSaving}>
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+        </button>
+        <h2 className="text-2xl font-bold text-white mb-1">Cost Master</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          {costs.length.toLocaleString('en-IN')} entries across {skuCount.toLocaleString('en-IN')} SKUs. Orders are costed at the price in force on their order date.
+        </p>
+        <div className="space-y-4">
+          <div>
+            <label className={labelClass}>Upload Costs (CSV)</label>
+            <label className="flex items-center justify-center w-full px-4 py-6 border-2 border-dashed border-gray-600 rounded-lg cursor-pointer hover:border-blue-500 text-sm text-gray-400">
+              <input type="file" accept=".csv" onChange={handleFile} className="hidden" disabled={isSaving} />
+              {fileName || 'Choose a CSV with SKU, Unit Cost and an optional Valid From column'}
+            </label>
+            <p className="text-xs text-gray-500 mt-1">Rows without a Valid From date apply to every order. Re-uploading a SKU and date replaces its cost.</p>
+          </div>
+
+          {parsed && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-300">
+                <span className="font-bold text-white">{parsed.costs.length.toLocaleString('en-IN')}</span> entries ready to save
+                {parsed.errors.length > 0 && <>, <span className="font-bold text-amber-400">{parsed.errors.length.toLocaleString('en-IN')}</span> rows skipped</>}.
+              </p>
+              {parsed.errors.length > 0 && (
+                <ul className="bg-amber-500/10 border border-amber-500/20 p-3 rounded-lg text-xs text-amber-300 space-y-1">
+                  {parsed.errors.slice(0, MAX_ERRORS_SHOWN).map(message => <li key={message}>{message}</li>)}
+                  {parsed.errors.length > MAX_ERRORS_SHOWN && <li>...and {parsed.errors.length - MAX_ERRORS_SHOWN} more.</li>}
+                </ul>
+              )}
+              <button
+                onClick={handleImport}
+                disabled={isSaving || parsed.costs.length === 0}
+                className="w-full px-4 py-3 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-600 transition-all"
+              >
+                {isSaving ? 'Saving...' : `Save ${parsed.costs.length.toLocaleString('en-IN')} Costs`}
+              </button>
+            </div>
+          )}
+
+          {costs.length > 0 && (
+            <div className="border-t border-gray-700 pt-4">
+              <label className={labelClass}>Current Costs</label>
+              <input
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                placeholder="Search SKU..."
+                className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 mb-3"
+              />
+              <div className="overflow-y-auto max-h-72">
+                <table className="w-full text-sm text-left text-gray-400">
+                  <thead className="text-xs text-gray-300 uppercase bg-slate-800 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2">SKU</th>
+                      <th className="px-3 py-2">Valid From</th>
+                      <th className="px-3 py-2 text-right">Unit Cost</th>
+                      <th className="px-3 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matches.slice(0, MAX_LISTED).map(cost => (
+                      <tr key={`${cost.sku}|${cost.validFrom}`} className="border-b border-gray-700">
+                        <td className="px-3 py-2 font-mono text-gray-200">{cost.sku}</td>
+                        <td className="px-3 py-2">{cost.validFrom === ALWAYS_VALID_FROM ? 'Always' : cost.validFrom}</td>
+                        <td className="px-3 py-2 text-right">{cost.unitCost.toLocaleString('en-IN', { maximumFractionDigits: 2 })}</td>
+                        <td className="px-3 py-2 text-right">
+                          <button onClick={() => handleDelete(cost)} disabled={isSaving} className="text-xs font-semibold text-red-400 hover:text-red-300 disabled:opacity-50">
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {matches.length === 0 && <p className="text-xs text-gray-500 px-3 py-2">No matching SKUs.</p>}
+                {matches.length > MAX_LISTED && (
+                  <p className="text-xs text-gray-500 px-3 py-2">
+                    Showing {MAX_LISTED} of {matches.length.toLocaleString('en-IN')}; refine the search to see more.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {error && <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-lg text-xs text-red-400 leading-relaxed">{error}</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CostMasterModal;
@@ -3,102 +3,219 @@ import Sidebar from './Sidebar';
 import DashboardPage from './DashboardPage';
 import UploadModal from './UploadModal';
 import DeleteDataModal from './DeleteDataModal';
+import MappingEditorModal from './MappingEditorModal';
 import PPTGeneratorPage from './PPTGeneratorPage';
-import { AllData, DomainData, OrderData, ColumnMapping } from '../types';
-import { supabase, fetchAllSalesData, saveDomainData } from '../utils/supabase';
+import UploadHistoryPage from './UploadHistoryPage';
+import DomainRegistryModal from './DomainRegistryModal';
+import CostMasterModal from './CostMasterModal';
+import { AllData, DomainData, DomainConfig, OrderData, ColumnMapping, UserProfile, QualityReport, UploadBatch, DataSource, ProductCost } from '../types';
+import { fetchAllSalesData, insertDomainRows, saveDomainMapping, applyUploadMapping, deleteDomainRows, createUploadBatch, rollbackUploadBatch, storedRowKey, updateDomainRows, fetchDomainRegistry, saveDomainConfig, deleteDomainConfig, fetchDataSources, saveDataSource, deleteDataSource, recordDataSourcePull, fetchProductCosts, saveProductCosts, deleteProductCost } from '../utils/supabase';
+import { hasPermission, canAccessDomain, assertPermission, canRollbackUpload } from '../utils/permissions';
+import { istCalendar, storedColumnDateParser } from '../utils/dates';
+import { DedupKeyFields, applyMergePlan, resolveDedupKeys } from '../utils/dedup';
+import { planMergeInWorker } from '../utils/ingestClient';
+import { DEFAULT_CURRENCY, fallbackDomain, getDomainRegistry, toStorageKey } from '../utils/domains';
+import { pullDataSource } from '../utils/dataSources';
+import { useScheduledRefresh } from '../hooks/useScheduledRefresh';
 
 interface DashboardLayoutProps {
+  profile: UserProfile;
   onLogout: () => void;
 }
 
-type View = 'Dashboard' | 'PPT';
-
-function robustParseDate(dateValue: any): Date | null {
-    if (!dateValue) return null;
-    if (dateValue instanceof Date && !isNaN(dateValue.getTime())) return dateValue;
-    let date = new Date(dateValue);
-    if (!isNaN(date.getTime())) return date;
-    const s = String(dateValue);
-    const parts = s.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{2,4})$/);
-    if (parts) {
-        const day = parseInt(parts[1], 10);
-        const month = parseInt(parts[2], 10);
-        let year = parseInt(parts[3], 10);
-        if (year < 100) year += 2000;
-        date = new Date(year, month - 1, day);
-        if (!isNaN(date.getTime())) return date;
-    }
-    return null;
+type View = 'Dashboard' | 'PPT' | 'History';
+
+interface UploadSummary {
+  domain: string;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  sourceName?: string;  // set for scheduled pulls, which happen without the user starting them
 }
 
-const DashboardLayout: React.FC<DashboardLayoutProps> = ({ onLogout }) => {
-  const UPLOAD_DOMAINS = ["Myntra", "Amazon", "Flipkart", "AJIO", "Shopify"];
-  const SIDEBAR_DOMAINS = ["All Domains", ...UPLOAD_DOMAINS];
+const DashboardLayout: React.FC<DashboardLayoutProps> = ({ profile, onLogout }) => {
+  const [domains, setDomains] = useState<DomainConfig[]>([]);
+  const accessibleDomains = useMemo(() => domains.filter(d => canAccessDomain(profile, d.name)), [domains, profile]);
+  const SIDEBAR_DOMAINS = ["All Domains", ...accessibleDomains.map(d => d.name)];
 
   const [activeDomain, setActiveDomain] = useState(SIDEBAR_DOMAINS[0]);
   const [allData, setAllData] = useState<AllData>({});
   const [isInitialLoading, setIsInitialLoading] = useState(true);
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [isMappingModalOpen, setIsMappingModalOpen] = useState(false);
+  const [isDomainModalOpen, setIsDomainModalOpen] = useState(false);
+  const [isCostModalOpen, setIsCostModalOpen] = useState(false);
   const [currentView, setCurrentView] = useState<View>('Dashboard');
-  const [uploadSummary, setUploadSummary] = useState<{ domain: string; added: number; duplicates: number } | null>(null);
+  const canUpload = hasPermission(profile, 'upload') && accessibleDomains.length > 0;
+  const [uploadSummary, setUploadSummary] = useState<UploadSummary | null>(null);
+  const [dataSources, setDataSources] = useState<DataSource[]>([]);
+  const [productCosts, setProductCosts] = useState<ProductCost[]>([]);
+
+  // Domains with data but no registry entry (or no registry at all) still get a sidebar entry
+  const withFallbackDomains = (registry: DomainConfig[], data: AllData) => [
+    ...registry,
+    ...Object.keys(data).filter(name => !registry.some(d => d.name === name)).map(name => fallbackDomain(toStorageKey(name))),
+  ];
 
   // Load from Supabase on start
   useEffect(() => {
     const loadData = async () => {
+      let registry: DomainConfig[] = [];
+      try {
+        // Loaded first: it decides which storage keys map onto which domain names
+        registry = await fetchDomainRegistry();
+      } catch (err) {
+        console.error("Failed to load the domain registry, using domains found in the data", err);
+      }
       try {
         const data = await fetchAllSalesData();
         setAllData(data);
+        setDomains(withFallbackDomains(registry, data));
       } catch (err) {
         console.error("Failed to fetch data from Supabase, falling back to local storage", err);
         const savedData = localStorage.getItem('salesDashboardData');
-        if (savedData) setAllData(JSON.parse(savedData));
+        if (savedData) {
+          const cached: AllData = JSON.parse(savedData);
+          const accessible = Object.fromEntries(Object.entries(cached).filter(([d]) => canAccessDomain(profile, d)));
+          setAllData(accessible);
+          setDomains(withFallbackDomains(registry, accessible));
+        } else {
+          setDomains(registry);
+        }
       } finally {
         setIsInitialLoading(false);
       }
+      // Margins are an addition to the dashboard, so a missing cost master only hides them
+      fetchProductCosts()
+        .then(setProductCosts)
+        .catch(err => console.error("Failed to load the cost master", err));
+      if (hasPermission(profile, 'upload')) {
+        fetchDataSources()
+          .then(setDataSources)
+          .catch(err => console.error("Failed to load saved data sources", err));
+      }
     };
     loadData();
   }, []);
 
-  const handleFileUpload = async (domain: string, newData: OrderData[], newMapping: ColumnMapping) => {
+  const showUploadSummary = (summary: UploadSummary) => {
+    setUploadSummary(summary);
+    setTimeout(() => setUploadSummary(null), 8000);
+  };
+
+  // Merges an upload into the domain and records it as a batch; throws after undoing a partial write
+  const saveUpload = async (domain: string, newData: OrderData[], newMapping: ColumnMapping, qualityReport: QualityReport, sourceName: string): Promise<UploadSummary> => {
+    assertPermission(profile, 'upload', domain);
     const existingDomainData = allData[domain];
     const existingData = existingDomainData?.data || [];
+    // Keys are chosen per domain; a new layout that no longer maps them falls back to the default
+    const dedupKeys = resolveDedupKeys(newMapping, existingDomainData?.dedupKeys);
+    // Matching is computed off the main thread; applying the plan keeps untouched rows as they are
+    const plan = await planMergeInWorker(existingData, newData, newMapping, dedupKeys);
+    const { data: consolidatedData, inserted, updated, unchanged } = applyMergePlan(existingData, plan);
+    const newDomainState: DomainData = { data: consolidatedData, mapping: newMapping, dedupKeys: existingDomainData?.dedupKeys };
 
-    const rowToString = (row: OrderData): string => {
-      return JSON.stringify(Object.entries(row).sort((a, b) => a[0].localeCompare(b[0])));
-    };
-
-    const allKnownRows = new Set(existingData.map(rowToString));
-    let duplicateCount = 0;
-
-    const uniqueNewData = newData.filter(row => {
-      const rowString = rowToString(row);
-      if (allKnownRows.has(rowString)) {
-        duplicateCount++;
-        return false; 
+    let batchId: string | null = null;
+    try {
+      batchId = await createUploadBatch({
+        domain, fileName: sourceName, uploaderEmail: profile.email,
+        // The batch owns the rows it rewrote as well as the ones it added
+        rowCount: inserted.length + updated.length, mapping: newMapping, qualityReport,
+      });
+      // Only new and changed rows travel over the wire; unchanged history is never rewritten
+      await insertDomainRows(domain, inserted, newMapping, dedupKeys, batchId);
+      await updateDomainRows(domain, updated, newMapping, dedupKeys, batchId);
+      await applyUploadMapping(batchId);
+      setAllData(prev => ({ ...prev, [domain]: newDomainState }));
+      return { domain, inserted: inserted.length, updated: updated.length, unchanged };
+    } catch (err: any) {
+      // Undo whatever part of the batch made it in, so the ledger never points at half an upload
+      if (batchId) {
+        try {
+          await rollbackUploadBatch(batchId);
+        } catch (rollbackErr: any) {
+          throw new Error(`${err?.message || 'The upload failed'}. Undoing it also failed (${rollbackErr?.message || 'unknown error'}), so part of upload ${batchId} may still be stored; you or an admin can roll it back from Upload History.`);
+        }
       }
-      allKnownRows.add(rowString); 
-      return true;
-    });
-
-    const consolidatedData = [...existingData, ...uniqueNewData];
-    const newDomainState = { data: consolidatedData, mapping: newMapping };
+      throw err;
+    }
+  };
 
+  const handleFileUpload = async (domain: string, newData: OrderData[], newMapping: ColumnMapping, qualityReport: QualityReport, sourceName: string) => {
     try {
-      // Logic in saveDomainData handles lowercase table names
-      await saveDomainData(domain, newDomainState);
-      setAllData(prev => ({ ...prev, [domain]: newDomainState }));
-      setUploadSummary({ domain, added: uniqueNewData.length, duplicates: duplicateCount });
-      setTimeout(() => setUploadSummary(null), 8000);
+      showUploadSummary(await saveUpload(domain, newData, newMapping, qualityReport, sourceName));
       setActiveDomain(domain);
       setCurrentView('Dashboard');
-    } catch (err) {
-      alert(`Failed to save data to Supabase table for ${domain}. Please ensure the table exists.`);
+    } catch (err: any) {
+      console.error(`Failed to save the upload for ${domain}`, err);
+      // Rethrown so the upload modal stays open with the reason instead of reporting success
+      throw new Error(`Failed to save data to Supabase for ${domain}: ${err?.message || 'unknown error'}`);
+    }
+  };
+
+  const replaceDataSource = (source: DataSource) =>
+    setDataSources(prev => [...prev.filter(s => s.id !== source.id), source].sort((a, b) => a.name.localeCompare(b.name)));
+
+  const handleDataSourceSave = async (source: DataSource) => {
+    assertPermission(profile, 'upload', source.domain);
+    const saved = await saveDataSource(source);
+    replaceDataSource(saved);
+    return saved;
+  };
+
+  const handleDataSourceDelete = async (source: DataSource) => {
+    assertPermission(profile, 'upload', source.domain);
+    if (source.id) await deleteDataSource(source.id);
+    setDataSources(prev => prev.filter(s => s.id !== source.id));
+  };
+
+  // Unattended pulls report through the pull status on the source instead of alerts
+  const handleScheduledPull = async (source: DataSource) => {
+    let pullError: string | null = null;
+    try {
+      const { rows, mapping, qualityReport } = await pullDataSource(source);
+      showUploadSummary({ ...(await saveUpload(source.domain, rows, mapping, qualityReport, source.name)), sourceName: source.name });
+    } catch (err: any) {
+      console.error(`Scheduled pull of ${source.name} failed`, err);
+      pullError = err?.message || 'Pull failed.';
     }
+    try {
+      replaceDataSource(await recordDataSourcePull(source.id!, pullError));
+    } catch {
+      // Keep the schedule moving even when the status write fails
+      replaceDataSource({ ...source, lastPulledAt: new Date().toISOString(), lastError: pullError });
+    }
+  };
+
+  // Pulled after a manual upload through the review step, which reports whether the save landed
+  const handleDataSourcePulled = async (source: DataSource, pullError: string | null) => {
+    if (source.id) replaceDataSource(await recordDataSourcePull(source.id, pullError));
+  };
+
+  useScheduledRefresh(
+    useMemo(() => hasPermission(profile, 'upload') ? dataSources.filter(s => canAccessDomain(profile, s.domain)) : [], [dataSources, profile]),
+    handleScheduledPull,
+  );
+
+  const handleRollback = async (batch: UploadBatch) => {
+    if (!canRollbackUpload(profile, batch)) throw new Error('Only an admin or the analyst who uploaded it can roll back this upload.');
+    const { removedKeys, restored } = await rollbackUploadBatch(batch.id);
+    const removed = new Set(removedKeys);
+    const restoredByKey = new Map(restored.map(row => [storedRowKey(row), row]));
+    setAllData(prev => {
+      const domainState = prev[batch.domain];
+      if (!domainState) return prev;
+      const data = domainState.data
+        .filter(row => !removed.has(storedRowKey(row)))
+        .map(row => restoredByKey.get(storedRowKey(row)) ?? row);
+      return { ...prev, [batch.domain]: { ...domainState, data } };
+    });
   };
 
   const handleDataDelete = async (domain: string, year: number, month: number) => {
-    const domainsToPurge = domain === 'All Domains' ? Object.keys(allData) : [domain];
+    assertPermission(profile, 'purge', domain === 'All Domains' ? undefined : domain);
+    const domainsToPurge = (domain === 'All Domains' ? Object.keys(allData) : [domain]).filter(d => canAccessDomain(profile, d));
     const nextAllData = { ...allData };
 
     for (const dom of domainsToPurge) {
@@ -110,17 +227,20 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ onLogout }) => {
       
       if (!dateKey) continue;
 
-      const newData = data.filter(row => {
-        const date = robustParseDate(row[dateKey]);
-        if (!date) return true;
-        const matchesYear = date.getFullYear() === year;
-        const matchesMonth = month === -1 ? true : date.getMonth() === month;
-        return !(matchesYear && matchesMonth);
+      const newData: OrderData[] = [];
+      const purgedRows: OrderData[] = [];
+      const parseStored = storedColumnDateParser(data, dateKey);
+      data.forEach(row => {
+        const date = parseStored(row[dateKey]);
+        const calendar = date && istCalendar(date);
+        const matchesYear = !!calendar && calendar.year === year;
+        const matchesMonth = !!calendar && (month === -1 ? true : calendar.month === month);
+        (matchesYear && matchesMonth ? purgedRows : newData).push(row);
       });
 
-      nextAllData[dom] = { ...domainState, data: newData };
       try {
-        await saveDomainData(dom, nextAllData[dom]);
+        await deleteDomainRows(dom, purgedRows);
+        nextAllData[dom] = { ...domainState, data: newData };
       } catch (err) {
         console.error(`Failed to update table for ${dom} after purge`, err);
       }
@@ -129,6 +249,40 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ onLogout }) => {
     setAllData(nextAllData);
   };
 
+  const handleMappingSave = async (domain: string, mapping: ColumnMapping, dedupKeys: DedupKeyFields | null) => {
+    assertPermission(profile, 'editMappings', domain);
+    await saveDomainMapping(domain, mapping, dedupKeys);
+    setAllData(prev => prev[domain] ? { ...prev, [domain]: { ...prev[domain], mapping, dedupKeys } } : prev);
+  };
+
+  const handleDomainSave = async (domain: DomainConfig) => {
+    assertPermission(profile, 'manageDomains');
+    await saveDomainConfig(domain);
+    setDomains(withFallbackDomains(getDomainRegistry(), allData));
+  };
+
+  const handleDomainDelete = async (domain: DomainConfig) => {
+    assertPermission(profile, 'manageDomains');
+    if (allData[domain.name]?.data.length) throw new Error(`Purge ${domain.label} data before removing it.`);
+    await deleteDomainConfig(domain.storageKey);
+    setDomains(getDomainRegistry());
+    if (activeDomain === domain.name) setActiveDomain('All Domains');
+  };
+
+  const handleCostImport = async (costs: ProductCost[]) => {
+    assertPermission(profile, 'manageCosts');
+    await saveProductCosts(costs);
+    setProductCosts(await fetchProductCosts());
+  };
+
+  const handleCostDelete = async (cost: ProductCost) => {
+    assertPermission(profile, 'manageCosts');
+    await deleteProductCost(cost);
+    setProductCosts(prev => prev.filter(c => c.sku !== cost.sku || c.validFrom !== cost.validFrom));
+  };
+
+  const activeDomainConfig = domains.find(d => d.name === activeDomain);
+
   const currentDomainData = useMemo<DomainData | null>((() => {
     if (activeDomain === 'All Domains') {
       const allDomainValues = Object.values(allData).filter((d: any): d is DomainData => !!d?.data?.length);
@@ -137,7 +291,8 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ onLogout }) => {
       const standardKeys: (keyof ColumnMapping)[] = [
         'date', 'customer', 'item', 'quantity', 'price', 'city', 'state', 
         'zipcode', 'revenue', 'brand', 'orderStatus', 'cancellationReason', 
-        'courier', 'sku', 'articleType', 'discount', 'deliveredDate', 'cancelledDate', 'returnDate', 'orderId'
+        'courier', 'sku', 'articleType', 'discount', 'dispatchDate', 'deliveredDate', 'cancelledDate', 'returnDate', 'returnReason', 'orderId', 'orderLineId',
+        'marketplaceFee', 'shippingFee'
       ];
       
       const consolidatedData: OrderData[] = allDomainValues.flatMap(domainState => {
@@ -167,7 +322,8 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ onLogout }) => {
         revenue: 'revenue', brand: 'brand', orderStatus: 'orderStatus', 
         cancellationReason: 'cancellationReason', courier: 'courier', sku: 'sku', 
         articleType: 'articleType', discount: 'discount',
-        deliveredDate: 'deliveredDate', cancelledDate: 'cancelledDate', returnDate: 'returnDate', orderId: 'orderId'
+        dispatchDate: 'dispatchDate', deliveredDate: 'deliveredDate', cancelledDate: 'cancelledDate', returnDate: 'returnDate', returnReason: 'returnReason', orderId: 'orderId',
+        orderLineId: 'orderLineId', marketplaceFee: 'marketplaceFee', shippingFee: 'shippingFee'
       };
 
       return { data: consolidatedData, mapping: consolidatedMapping };
@@ -189,13 +345,17 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ onLogout }) => {
   return (
     <div className="flex h-screen bg-gray-900">
       <Sidebar 
-        domains={SIDEBAR_DOMAINS} 
+        domains={accessibleDomains}
         activeDomain={activeDomain} 
         setActiveDomain={setActiveDomain} 
         onLogout={onLogout}
         setCurrentView={setCurrentView}
         activeView={currentView}
         openDeleteModal={() => setIsDeleteModalOpen(true)}
+        openMappingEditor={() => setIsMappingModalOpen(true)}
+        openDomainManager={() => setIsDomainModalOpen(true)}
+        openCostMaster={() => setIsCostModalOpen(true)}
+        profile={profile}
       />
       <main className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto flex flex-col relative">
         {uploadSummary && (
@@ -206,10 +366,14 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ onLogout }) => {
               </div>
               <div>
                 <h4 className="text-white font-bold text-sm">Cloud Sync Success: {uploadSummary.domain}</h4>
-                <p className="text-slate-400 text-xs mt-1">Saved to <span className="text-blue-400 font-mono">supabase.{uploadSummary.domain.toLowerCase()}</span></p>
-                <p className="text-slate-400 text-xs mt-1">Successfully added <span className="text-blue-400 font-bold">{uploadSummary.added}</span> unique records.</p>
-                {uploadSummary.duplicates > 0 && (
-                  <p className="text-amber-400 text-xs mt-1 font-medium">Filtered <span className="font-bold">{uploadSummary.duplicates}</span> duplicates.</p>
+                {uploadSummary.sourceName && <p className="text-slate-400 text-xs mt-1">Scheduled refresh of <span className="text-white">{uploadSummary.sourceName}</span></p>}
+                <p className="text-slate-400 text-xs mt-1">Saved to <span className="text-blue-400 font-mono">supabase.orders/{toStorageKey(uploadSummary.domain)}</span></p>
+                <p className="text-slate-400 text-xs mt-1">Successfully added <span className="text-blue-400 font-bold">{uploadSummary.inserted}</span> new records.</p>
+                {uploadSummary.updated > 0 && (
+                  <p className="text-slate-400 text-xs mt-1">Updated <span className="text-blue-400 font-bold">{uploadSummary.updated}</span> existing records.</p>
+                )}
+                {uploadSummary.unchanged > 0 && (
+                  <p className="text-amber-400 text-xs mt-1 font-medium">Skipped <span className="font-bold">{uploadSummary.unchanged}</span> unchanged records.</p>
                 )}
               </div>
               <button onClick={() => setUploadSummary(null)} className="text-slate-500 hover:text-white transition-colors">
@@ -221,35 +385,64 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ onLogout }) => {
 
         <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
           <h1 className="text-3xl font-bold text-white">
-            {currentView === 'Dashboard' ? `${activeDomain} Dashboard` : 'PPT Generator'}
+            {currentView === 'Dashboard' ? `${activeDomainConfig?.label || activeDomain} Dashboard` : currentView === 'PPT' ? 'PPT Generator' : 'Upload History'}
           </h1>
-          <button
-            onClick={() => setIsUploadModalOpen(true)}
-            className="px-5 py-2.5 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors duration-300"
-          >
-            Upload New Data
-          </button>
+          {canUpload && (
+            <button
+              onClick={() => setIsUploadModalOpen(true)}
+              className="px-5 py-2.5 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors duration-300"
+            >
+              Upload New Data
+            </button>
+          )}
         </header>
         <div className="flex-1">
-          {currentView === 'Dashboard' ? (
-            <DashboardPage key={activeDomain} domain={activeDomain} domainData={currentDomainData} />
-          ) : (
+          {currentView === 'History' && hasPermission(profile, 'upload') ? (
+            <UploadHistoryPage canRollback={batch => canRollbackUpload(profile, batch)} onRollback={handleRollback} />
+          ) : currentView === 'PPT' && hasPermission(profile, 'generatePpt') ? (
             <PPTGeneratorPage allData={allData} domains={SIDEBAR_DOMAINS} />
+          ) : (
+            <DashboardPage key={activeDomain} domain={activeDomainConfig?.label || activeDomain} domainData={currentDomainData} currency={activeDomainConfig?.currency || DEFAULT_CURRENCY} profitability={activeDomainConfig?.profitability} costs={productCosts} deliverySla={activeDomainConfig?.deliverySla} />
           )}
         </div>
       </main>
       <UploadModal
-        isOpen={isUploadModalOpen}
+        isOpen={isUploadModalOpen && canUpload}
         onClose={() => setIsUploadModalOpen(false)}
         onUploadComplete={handleFileUpload}
-        domains={UPLOAD_DOMAINS}
+        domains={accessibleDomains}
+        dataSources={dataSources}
+        onSaveDataSource={handleDataSourceSave}
+        onDeleteDataSource={handleDataSourceDelete}
+        onDataSourcePulled={handleDataSourcePulled}
       />
       <DeleteDataModal
-        isOpen={isDeleteModalOpen}
+        isOpen={isDeleteModalOpen && hasPermission(profile, 'purge')}
         onClose={() => setIsDeleteModalOpen(false)}
         onDelete={handleDataDelete}
         allData={allData}
-        domains={UPLOAD_DOMAINS}
+        domains={accessibleDomains}
+      />
+      <MappingEditorModal
+        isOpen={isMappingModalOpen && hasPermission(profile, 'editMappings')}
+        onClose={() => setIsMappingModalOpen(false)}
+        onSave={handleMappingSave}
+        allData={allData}
+      />
+      <DomainRegistryModal
+        isOpen={isDomainModalOpen && hasPermission(profile, 'manageDomains')}
+        onClose={() => setIsDomainModalOpen(false)}
+        onSave={handleDomainSave}
+        onDelete={handleDomainDelete}
+        domains={domains}
+        allData={allData}
+      />
+      <CostMasterModal
+        isOpen={isCostModalOpen && hasPermission(profile, 'manageCosts')}
+        onClose={() => setIsCostModalOpen(false)}
+        onImport={handleCostImport}
+        onDelete={handleCostDelete}
+        costs={productCosts}
       />
     </div>
   );
@@ -1,12 +1,18 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useDashboardData } from '../hooks/useDashboardData';
-import { DomainData, DateRange } from '../types';
+import { ComparisonMode, DeliverySla, DomainData, DateRange, ProductCost, ProfitabilitySettings } from '../types';
+import { DimensionField, DimensionFilter, drillFilters } from '../utils/columnar';
+import { MAPPING_FIELDS } from '../utils/mapping';
+import { comparisonRange } from '../utils/dates';
+import { RETURN_FIELDS, ReturnField } from '../utils/returns';
+import { GRANULARITIES, Granularity, TREND_METRICS, TrendMetric, buildTrend, trendMetricAvailable } from '../utils/trend';
 import KPI from './KPI';
 import DateFilter from './DateFilter';
+import FilterBar from './FilterBar';
 import DataTable from './DataTable';
 import InsightTable from './InsightTable';
-import { GenericBarChart, GenericPieChart, DailyTrendChart, DiscountRevenueChart } from './charts/GenericCharts';
-import { RevenueIcon, DeliveredIcon, CancelledIcon, OrdersIcon, UniqueCustomerIcon, ReturnIcon, AvgOrderIcon } from './Icons';
+import { GenericBarChart, GenericPieChart, DailyTrendChart, DiscountRevenueChart, WaterfallChart } from './charts/GenericCharts';
+import { RevenueIcon, DeliveredIcon, CancelledIcon, OrdersIcon, UniqueCustomerIcon, ReturnIcon, AvgOrderIcon, SalesIcon } from './Icons';
 
 const NoDataPlaceholder = ({ domain }: { domain: string }) => (
     <div className="flex flex-col items-center justify-center h-[500px] text-center bg-slate-900/40 backdrop-blur-sm border border-slate-800 rounded-3xl p-12">
@@ -23,33 +29,130 @@ const NoDataPlaceholder = ({ domain }: { domain: string }) => (
     </div>
 );
 
+const fieldLabels = Object.fromEntries(MAPPING_FIELDS.map(f => [f.key, f.label])) as Record<string, string>;
+
+// One click-to-drill step: the value drilled into and the filters to restore when stepping back out
+interface DrillStep {
+  label: string;
+  previous: DimensionFilter[];
+}
+
+const DrillBreadcrumbs = ({ steps, onStepBack }: { steps: DrillStep[]; onStepBack: (index: number) => void }) => (
+  <nav className="flex flex-wrap items-center gap-2 text-xs font-semibold">
+    <button onClick={() => onStepBack(0)} className="text-blue-400 hover:text-blue-300">All Data</button>
+    {steps.map((step, index) => (
+      <React.Fragment key={index}>
+        <span className="text-slate-600">/</span>
+        {index === steps.length - 1
+          ? <span className="text-white">{step.label}</span>
+          : <button onClick={() => onStepBack(index + 1)} className="text-blue-400 hover:text-blue-300">{step.label}</button>}
+      </React.Fragment>
+    ))}
+  </nav>
+);
+
+const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+    none: 'No Comparison',
+    previous: 'Previous Period',
+    lastYear: 'Same Period Last Year',
+    custom: 'Custom Range',
+};
+
+// Moving-average window in buckets; 0 turns smoothing off
+const SMOOTHING_OPTIONS = [0, 3, 7, 30];
+
 const kpiIcons: { [key: string]: React.ReactNode } = {
-    "Total Revenue": <RevenueIcon />,
+    "GMV": <RevenueIcon />,
+    "Net Sales": <RevenueIcon />,
+    "Net Realisation %": <RevenueIcon />,
+    "Contribution Margin": <RevenueIcon />,
+    "Gross Margin": <RevenueIcon />,
+    "Gross Margin %": <RevenueIcon />,
+    "Cost Coverage": <SalesIcon />,
+    "Units Sold": <SalesIcon />,
     "Total Delivered Orders": <DeliveredIcon />,
     "Total Cancelled Orders": <CancelledIcon />,
     "Total Orders": <OrdersIcon />,
     "Total Customers": <UniqueCustomerIcon />,
     "Avg Order": <RevenueIcon />,
-    "Total Returns Created": <ReturnIcon />,
+    "Returned Orders": <ReturnIcon />,
+    "Return Rate": <ReturnIcon />,
+    "Customer Returns": <ReturnIcon />,
+    "RTO Orders": <ReturnIcon />,
+    "RTO Rate": <ReturnIcon />,
     "Total Return Value": <RevenueIcon />,
+    "Median Delivery TAT": <DeliveredIcon />,
+    "P90 Delivery TAT": <DeliveredIcon />,
+    "On-Time Delivery": <DeliveredIcon />,
 };
 
 interface DashboardPageProps {
   domain: string;
   domainData: DomainData | null;
+  currency: string;
+  profitability?: ProfitabilitySettings;
+  costs?: ProductCost[];
+  deliverySla?: DeliverySla;
 }
 
-const DashboardPage: React.FC<DashboardPageProps> = ({ domain, domainData }) => {
+const DashboardPage: React.FC<DashboardPageProps> = ({ domain, domainData, currency, profitability, costs, deliverySla }) => {
   const [dateRange, setDateRange] = useState<DateRange>({ start: null, end: null });
-  const [selectedBrand, setSelectedBrand] = useState('All Brands');
+  const [filters, setFilters] = useState<DimensionFilter[]>([]);
+  const [drillSteps, setDrillSteps] = useState<DrillStep[]>([]);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('none');
+  const [customComparison, setCustomComparison] = useState<DateRange>({ start: null, end: null });
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const [trendMetric, setTrendMetric] = useState<TrendMetric>('orders');
+  const [smoothing, setSmoothing] = useState(0);
+  const [returnField, setReturnField] = useState<ReturnField>('brand');
+
+  const comparison = useMemo(
+    () => comparisonRange(dateRange, comparisonMode, customComparison),
+    [dateRange, comparisonMode, customComparison]
+  );
   
   const { 
-    kpis, filteredData, availableBrands, 
+    kpis, waterfall, filteredData, dimensionValues, 
     topBrandsByRevenue, topCancellationReasons, orderStatusDistribution,
-    courierUsageShare, dailyOrderVolume, topCitiesByOrderCount,
+    courierUsageShare, dailyTotals, topCitiesByOrderCount,
     topSkusByOrders, topArticleTypesByOrders, discountVsRevenue,
-    orderCountByState, topCitiesByRevenue
-  } = useDashboardData(domainData, dateRange, selectedBrand);
+    orderCountByState, topCitiesByRevenue, marginByBrand, marginByArticleType, belowCostSkus,
+    returnSplit, returnRateBy, returnReasons, returnLagDistribution,
+    tatDistribution, courierScorecard, tatByState, cancellationTiming
+  } = useDashboardData(domainData, dateRange, filters, comparison, profitability, costs, deliverySla);
+
+  const trendMetrics = TREND_METRICS.filter(metric => trendMetricAvailable(metric, domainData?.mapping));
+  const activeMetric = trendMetrics.find(metric => metric.key === trendMetric) || trendMetrics[0];
+  const trend = useMemo(
+    () => buildTrend(dailyTotals, granularity, activeMetric.key, smoothing),
+    [dailyTotals, granularity, activeMetric.key, smoothing]
+  );
+  // Follows the main trend's bucketing so the two charts line up
+  const returnTrend = useMemo(
+    () => (returnSplit.length ? buildTrend(dailyTotals, granularity, 'returnRate', smoothing) : []),
+    [returnSplit, dailyTotals, granularity, smoothing]
+  );
+  const returnFields = RETURN_FIELDS.filter(field => returnRateBy[field]?.length);
+  const activeReturnField = returnFields.includes(returnField) ? returnField : returnFields[0];
+
+  // Editing filters by hand starts a new drill path from wherever they end up
+  const changeFilters = (next: DimensionFilter[]) => {
+    setFilters(next);
+    setDrillSteps([]);
+  };
+
+  const drillInto = (field: DimensionField) => (value: string) => {
+    setDrillSteps(steps => [...steps, { label: `${fieldLabels[field]}: ${value}`, previous: filters }]);
+    setFilters(drillFilters(filters, field, value));
+  };
+
+  // Step `index` is the state before that drill; 0 is before any drilling
+  const stepBack = (index: number) => {
+    const step = drillSteps[index];
+    if (!step) return;
+    setFilters(step.previous);
+    setDrillSteps(drillSteps.slice(0, index));
+  };
 
   if (!domainData || !domainData.data.length) {
     return <NoDataPlaceholder domain={domain} />;
@@ -71,87 +174,266 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ domain, domainData }) =>
           <h2 className="text-sm font-bold text-blue-500 uppercase tracking-[0.3em]">Operational Overview</h2>
           <p className="text-white/60 text-xs mt-1">Real-time analysis across integrated platforms.</p>
         </div>
-        <div className="flex items-center gap-3">
-          {availableBrands.length > 0 && (
+        <div className="flex flex-col items-end gap-2">
+          <div className="flex items-center gap-3">
+            <DateFilter setDateRange={setDateRange} />
             <select
-              value={selectedBrand}
-              onChange={(e) => setSelectedBrand(e.target.value)}
-              className="bg-slate-900 border border-slate-700 rounded-xl px-4 py-2.5 text-sm font-semibold text-slate-300 focus:ring-2 focus:ring-blue-500 focus:outline-none transition-all w-full md:w-auto"
+              value={comparisonMode}
+              onChange={(e) => setComparisonMode(e.target.value as ComparisonMode)}
+              className="bg-slate-900 border border-slate-700 rounded-xl px-4 py-2 text-sm font-semibold text-slate-300 focus:ring-2 focus:ring-blue-500 focus:outline-none transition-all"
             >
-              <option value="All Brands">Filter by Brand</option>
-              {availableBrands.map((brand) => (
-                <option key={brand} value={brand}>{brand}</option>
+              {(Object.keys(COMPARISON_LABELS) as ComparisonMode[]).map(mode => (
+                <option key={mode} value={mode}>{COMPARISON_LABELS[mode]}</option>
               ))}
             </select>
+          </div>
+          {comparisonMode === 'custom' && (
+            <div className="flex items-center gap-3">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Compare with</span>
+              <DateFilter setDateRange={setCustomComparison} />
+            </div>
+          )}
+          {comparisonMode !== 'none' && comparisonMode !== 'custom' && !comparison && (
+            <p className="text-xs text-slate-500">Pick a date range to compare against the {COMPARISON_LABELS[comparisonMode].toLowerCase()}.</p>
           )}
-          <DateFilter setDateRange={setDateRange} />
         </div>
       </div>
 
+      <div className="space-y-3">
+        <FilterBar options={dimensionValues} filters={filters} onChange={changeFilters} />
+        {drillSteps.length > 0 && <DrillBreadcrumbs steps={drillSteps} onStepBack={stepBack} />}
+      </div>
+
       <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4">
         {kpis.filter(kpi => hasValue(kpi.value)).map((kpi) => (
-          <KPI key={kpi.title} title={kpi.title} value={kpi.value} icon={kpiIcons[kpi.title]} />
+          <KPI key={kpi.title} title={kpi.title} value={kpi.value} icon={kpiIcons[kpi.title]} comparison={kpi.comparison} />
         ))}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
-        {dailyOrderVolume.length > 0 && (
+        {trend.length > 0 && (
           <div className="lg:col-span-12 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
-            <DailyTrendChart data={dailyOrderVolume} title="Transaction Momentum" dataKey="count" color="#3b82f6" />
+            <DailyTrendChart
+              data={trend} title="Transaction Momentum" dataKey="value" color="#3b82f6"
+              seriesLabel={activeMetric.label}
+              comparisonKey={comparison && dateRange.start ? 'comparison' : undefined}
+              comparisonLabel={COMPARISON_LABELS[comparisonMode]}
+              averageKey={smoothing > 1 ? 'average' : undefined}
+              averageLabel={`${smoothing}-${granularity} average`}
+              formatAsCurrency={!!activeMetric.currency}
+              formatAsPercent={!!activeMetric.percent}
+              currency={currency}
+              controls={
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={activeMetric.key}
+                    onChange={(e) => setTrendMetric(e.target.value as TrendMetric)}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-xs font-semibold text-slate-300 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  >
+                    {trendMetrics.map(metric => <option key={metric.key} value={metric.key}>{metric.label}</option>)}
+                  </select>
+                  <div className="flex bg-slate-900 border border-slate-700 rounded-lg p-0.5">
+                    {GRANULARITIES.map(option => (
+                      <button
+                        key={option.key}
+                        onClick={() => setGranularity(option.key)}
+                        className={`px-3 py-1 rounded-md text-xs font-bold transition-colors ${granularity === option.key ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <select
+                    value={smoothing}
+                    onChange={(e) => setSmoothing(Number(e.target.value))}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-xs font-semibold text-slate-300 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  >
+                    {SMOOTHING_OPTIONS.map(window => (
+                      <option key={window} value={window}>{window ? `${window}-${granularity} moving avg` : 'No smoothing'}</option>
+                    ))}
+                  </select>
+                </div>
+              }
+            />
           </div>
         )}
         
+        {waterfall.length > 0 && (
+          <div className="lg:col-span-12 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
+            <WaterfallChart data={waterfall} title="Net Realisation Bridge" currency={currency} />
+          </div>
+        )}
+
         {topBrandsByRevenue.length > 0 && (
           <div className="lg:col-span-6 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
-            <GenericBarChart data={topBrandsByRevenue} title="Top Brand Performance" dataKey="value" color="#10b981" formatAsCurrency={true}/>
+            <GenericBarChart data={topBrandsByRevenue} title="Top Brand Performance" dataKey="value" color="#10b981" formatAsCurrency={true} currency={currency} onSelect={drillInto('brand')}/>
           </div>
         )}
         
         {topCancellationReasons.length > 0 && (
           <div className="lg:col-span-6 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
-            <GenericBarChart data={topCancellationReasons} title="Churn Analysis" dataKey="value" color="#f59e0b"/>
+            <GenericBarChart data={topCancellationReasons} title="Churn Analysis" dataKey="value" color="#f59e0b" onSelect={drillInto('cancellationReason')}/>
           </div>
         )}
 
         {orderStatusDistribution.length > 0 && (
           <div className="lg:col-span-4 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
-              <GenericPieChart data={orderStatusDistribution} title="Fullfillment Health" />
+              <GenericPieChart data={orderStatusDistribution} title="Fullfillment Health" onSelect={drillInto('orderStatus')} />
           </div>
         )}
 
         {courierUsageShare.length > 0 && (
           <div className="lg:col-span-4 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
-              <GenericPieChart data={courierUsageShare} title="Courier Distribution" />
+              <GenericPieChart data={courierUsageShare} title="Courier Distribution" onSelect={drillInto('courier')} />
           </div>
         )}
         
         {topCitiesByOrderCount.length > 0 && (
           <div className="lg:col-span-4 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
-              <GenericBarChart data={topCitiesByOrderCount} title="Geographic Density" dataKey="value" color="#ec4899" />
+              <GenericBarChart data={topCitiesByOrderCount} title="Geographic Density" dataKey="value" color="#ec4899" onSelect={drillInto('city')} />
           </div>
         )}
 
         {topSkusByOrders.length > 0 && (
           <div className="lg:col-span-6 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
-            <GenericBarChart data={topSkusByOrders} title="Top Performing SKUs" dataKey="value" color="#6366f1" />
+            <GenericBarChart data={topSkusByOrders} title="Top Performing SKUs" dataKey="value" color="#6366f1" onSelect={drillInto('sku')} />
           </div>
         )}
 
         {topArticleTypesByOrders.length > 0 && (
           <div className="lg:col-span-6 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
-            <GenericBarChart data={topArticleTypesByOrders} title="Article Categories" dataKey="value" color="#06b6d4" />
+            <GenericBarChart data={topArticleTypesByOrders} title="Article Categories" dataKey="value" color="#06b6d4" onSelect={drillInto('articleType')} />
+          </div>
+        )}
+
+        {returnSplit.length > 0 && (
+          <div className="lg:col-span-4 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
+            <GenericPieChart data={returnSplit} title="Customer Returns vs RTO" />
+          </div>
+        )}
+
+        {activeReturnField && (
+          <div className="lg:col-span-8 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
+            <select
+              value={activeReturnField}
+              onChange={(e) => setReturnField(e.target.value as ReturnField)}
+              className="float-right bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-xs font-semibold text-slate-300 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            >
+              {returnFields.map(field => <option key={field} value={field}>By {fieldLabels[field]}</option>)}
+            </select>
+            <GenericBarChart data={returnRateBy[activeReturnField]!} title={`Return Rate % by ${fieldLabels[activeReturnField]}`} dataKey="value" color="#ef4444" onSelect={drillInto(activeReturnField)} />
+          </div>
+        )}
+
+        {returnReasons.length > 0 && (
+          <div className="lg:col-span-6 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
+            <GenericBarChart data={returnReasons} title="Return Reasons" dataKey="value" color="#f43f5e" onSelect={drillInto('returnReason')} />
+          </div>
+        )}
+
+        {returnLagDistribution.length > 0 && (
+          <div className="lg:col-span-6 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
+            <GenericBarChart data={returnLagDistribution} title="Days from Delivery to Return" dataKey="value" color="#a855f7" layout="horizontal" />
+          </div>
+        )}
+
+        {returnTrend.length > 1 && (
+          <div className="lg:col-span-12 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
+            <DailyTrendChart
+              data={returnTrend} title="Return Rate Trend" dataKey="value" color="#ef4444"
+              seriesLabel="Return Rate"
+              comparisonKey={comparison && dateRange.start ? 'comparison' : undefined}
+              comparisonLabel={COMPARISON_LABELS[comparisonMode]}
+              averageKey={smoothing > 1 ? 'average' : undefined}
+              averageLabel={`${smoothing}-${granularity} average`}
+              formatAsPercent={true}
+            />
+          </div>
+        )}
+
+        {tatDistribution.length > 0 && (
+          <div className="lg:col-span-8 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
+            <GenericBarChart data={tatDistribution} title="Order-to-Delivery Days" dataKey="value" color="#10b981" layout="horizontal" />
+          </div>
+        )}
+
+        {cancellationTiming.length > 0 && (
+          <div className="lg:col-span-4 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
+            <GenericPieChart data={cancellationTiming} title="Cancellation Timing" />
+          </div>
+        )}
+
+        {courierScorecard.length > 0 && (
+          <div className="lg:col-span-12 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
+            <InsightTable
+              data={courierScorecard}
+              title="Courier Scorecard"
+              columns={[
+                {header: 'Courier', accessor: 'name'},
+                {header: 'Shipped Lines', accessor: 'shipped'},
+                {header: 'Delivered Lines', accessor: 'delivered'},
+                {header: 'Median TAT (Days)', accessor: 'median'},
+                {header: 'P90 TAT (Days)', accessor: 'p90'},
+                {header: 'On-Time %', accessor: 'onTimeRate'},
+                {header: 'RTO %', accessor: 'rtoRate'},
+              ]}
+            />
+          </div>
+        )}
+
+        {tatByState.length > 0 && (
+          <div className="lg:col-span-12 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
+            <InsightTable
+              data={tatByState}
+              title="Delivery TAT by State"
+              columns={[
+                {header: 'State', accessor: 'name'},
+                {header: 'Delivered Lines', accessor: 'delivered'},
+                {header: 'Median TAT (Days)', accessor: 'median'},
+                {header: 'P90 TAT (Days)', accessor: 'p90'},
+                {header: 'On-Time %', accessor: 'onTimeRate'},
+              ]}
+            />
+          </div>
+        )}
+
+        {marginByBrand.length > 0 && (
+          <div className="lg:col-span-6 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
+            <GenericBarChart data={marginByBrand} title="Gross Margin by Brand" dataKey="value" color="#22c55e" formatAsCurrency={true} currency={currency} onSelect={drillInto('brand')}/>
+          </div>
+        )}
+
+        {marginByArticleType.length > 0 && (
+          <div className="lg:col-span-6 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
+            <GenericBarChart data={marginByArticleType} title="Gross Margin by Article Type" dataKey="value" color="#14b8a6" formatAsCurrency={true} currency={currency} onSelect={drillInto('articleType')}/>
+          </div>
+        )}
+
+        {belowCostSkus.length > 0 && (
+          <div className="lg:col-span-12 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
+            <InsightTable
+              data={belowCostSkus}
+              title="SKUs Selling Below Cost"
+              columns={[
+                {header: 'SKU', accessor: 'name'},
+                {header: 'Units', accessor: 'units'},
+                {header: 'Avg Price After Discount', accessor: 'avgPrice', format: 'currency'},
+                {header: 'Unit Cost', accessor: 'unitCost', format: 'currency'},
+                {header: 'Loss', accessor: 'loss', format: 'currency'},
+              ]}
+            />
           </div>
         )}
 
         {discountVsRevenue.length > 0 && (
           <div className="lg:col-span-12 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
-            <DiscountRevenueChart data={discountVsRevenue} title="Revenue vs. Margin Analysis" />
+            <DiscountRevenueChart data={discountVsRevenue} title="Revenue vs. Margin Analysis" currency={currency} />
           </div>
         )}
         
         {orderCountByState.length > 0 && (
           <div className="lg:col-span-12 bg-slate-900/40 backdrop-blur-sm p-8 rounded-3xl border border-slate-800">
-              <GenericBarChart data={orderCountByState} title="State-wise Distribution" dataKey="value" color="#f97316" layout="horizontal" />
+              <GenericBarChart data={orderCountByState} title="State-wise Distribution" dataKey="value" color="#f97316" layout="horizontal" onSelect={drillInto('state')} />
           </div>
         )}
 
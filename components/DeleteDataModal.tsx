@@ -1,37 +1,20 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { AllData } from '../types';
+import { AllData, DomainConfig } from '../types';
+import { istCalendar, storedColumnDateParser } from '../utils/dates';
 
 interface DeleteDataModalProps {
   isOpen: boolean;
   onClose: () => void;
   onDelete: (domain: string, year: number, month: number) => Promise<void>;
   allData: AllData;
-  domains: string[];
+  domains: DomainConfig[];
 }
 
 const monthAbbreviations = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
 
-function robustParseDate(dateValue: any): Date | null {
-    if (!dateValue) return null;
-    if (dateValue instanceof Date && !isNaN(dateValue.getTime())) return dateValue;
-    let date = new Date(dateValue);
-    if (!isNaN(date.getTime())) return date;
-    const s = String(dateValue);
-    const parts = s.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{2,4})$/);
-    if (parts) {
-        const day = parseInt(parts[1], 10);
-        const month = parseInt(parts[2], 10);
-        let year = parseInt(parts[3], 10);
-        if (year < 100) year += 2000;
-        date = new Date(year, month - 1, day);
-        if (!isNaN(date.getTime())) return date;
-    }
-    return null;
-}
-
 const DeleteDataModal: React.FC<DeleteDataModalProps> = ({ isOpen, onClose, onDelete, allData, domains }) => {
-  const domainOptions = ['All Domains', ...domains];
-  const [selectedDomain, setSelectedDomain] = useState(domainOptions[0]);
+  const domainOptions = [{ name: 'All Domains', label: 'All Domains' }, ...domains];
+  const [selectedDomain, setSelectedDomain] = useState(domainOptions[0].name);
   const [selectedYear, setSelectedYear] = useState('');
   const [selectedMonth, setSelectedMonth] = useState('');
   const [isDeleting, setIsDeleting] = useState(false);
@@ -47,9 +30,10 @@ const DeleteDataModal: React.FC<DeleteDataModalProps> = ({ isOpen, onClose, onDe
       const { data, mapping } = domainState;
       const dateKey = mapping.date || Object.keys(data[0]).find(k => k.toLowerCase().includes('date') || k.toLowerCase().includes('on'));
       if (!dateKey) return;
+      const parseStored = storedColumnDateParser(data, dateKey);
       data.forEach(item => {
-        const date = robustParseDate(item[dateKey]);
-        if (date) yearSet.add(date.getFullYear());
+        const date = parseStored(item[dateKey]);
+        if (date) yearSet.add(istCalendar(date).year);
       });
     });
 
@@ -59,7 +43,8 @@ const DeleteDataModal: React.FC<DeleteDataModalProps> = ({ isOpen, onClose, onDe
   const handleDelete = async () => {
     if (!selectedDomain || !selectedYear || !selectedMonth) return;
     const monthName = selectedMonth === '-1' ? `the entire year of` : monthAbbreviations[parseInt(selectedMonth)];
-    const confirmMsg = `Permanently delete ${selectedDomain} data for ${monthName} ${selectedYear}? This syncs to Supabase.`;
+    const selectedLabel = domainOptions.find(d => d.name === selectedDomain)?.label || selectedDomain;
+    const confirmMsg = `Permanently delete ${selectedLabel} data for ${monthName} ${selectedYear}? This syncs to Supabase.`;
     
     if (window.confirm(confirmMsg)) {
         setIsDeleting(true);
@@ -95,7 +80,7 @@ const DeleteDataModal: React.FC<DeleteDataModalProps> = ({ isOpen, onClose, onDe
             <div>
               <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">Platform</label>
               <select value={selectedDomain} onChange={e => { setSelectedDomain(e.target.value); setSelectedYear(''); }} className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200" disabled={isDeleting}>
-                {domainOptions.map(d => <option key={d} value={d}>{d}</option>)}
+                {domainOptions.map(d => <option key={d.name} value={d.name}>{d.label}</option>)}
               </select>
             </div>
             <div className="grid grid-cols-2 gap-4">
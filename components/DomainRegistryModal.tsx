@@ -0,0 +1,299 @@
+import React, { useState, useEffect } from 'react';
+import { AllData, DeliverySla, DomainConfig, MappingTemplate, ProfitabilitySettings } from '../types';
+import { fetchDomainTemplates } from '../utils/supabase';
+import { DEFAULT_CURRENCY, DEFAULT_DELIVERY_SLA, DEFAULT_DOMAIN_COLOR, DEFAULT_PROFITABILITY, slugifyStorageKey } from '../utils/domains';
+
+interface DomainRegistryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (domain: DomainConfig) => Promise<void>;
+  onDelete: (domain: DomainConfig) => Promise<void>;
+  domains: DomainConfig[];
+  allData: AllData;
+}
+
+const NEW_DOMAIN = '__new__';
+
+const blankDomain = (sortOrder: number): DomainConfig => ({
+  name: '', label: '', storageKey: '', color: DEFAULT_DOMAIN_COLOR, currency: DEFAULT_CURRENCY,
+  defaultTemplate: null, logoUrl: null, sortOrder, profitability: DEFAULT_PROFITABILITY, deliverySla: DEFAULT_DELIVERY_SLA,
+});
+
+// Channel costs applied when an upload has no marketplace or shipping fee column mapped
+const COST_FIELDS: { key: Exclude<keyof ProfitabilitySettings, 'revenueBasis'>; label: string }[] = [
+  { key: 'commissionPercent', label: 'Commission % of Net Sales' },
+  { key: 'fixedFeePerOrder', label: 'Fixed Fee per Order' },
+  { key: 'shippingFeePerOrder', label: 'Shipping Fee per Order' },
+  { key: 'returnShippingFee', label: 'Return Shipping per Return' },
+];
+
+// State overrides are edited as rows so a state can be renamed without losing its days
+interface StateSla {
+  state: string;
+  days: number;
+}
+
+const toStateRows = (sla: DeliverySla): StateSla[] => Object.entries(sla.stateDays).map(([state, days]) => ({ state, days }));
+
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 disabled:opacity-60';
+const labelClass = 'block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2';
+
+const DomainRegistryModal: React.FC<DomainRegistryModalProps> = ({ isOpen, onClose, onSave, onDelete, domains, allData }) => {
+  const [selectedKey, setSelectedKey] = useState(NEW_DOMAIN);
+  const [draft, setDraft] = useState<DomainConfig>(blankDomain(0));
+  const [stateRows, setStateRows] = useState<StateSla[]>([]);
+  const [templates, setTemplates] = useState<MappingTemplate[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isNew = selectedKey === NEW_DOMAIN;
+  const hasData = !isNew && !!allData[draft.name]?.data.length;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedKey(domains[0]?.storageKey || NEW_DOMAIN);
+    setError(null);
+    setIsSaving(false);
+  }, [isOpen]);
+
+  useEffect(() => {
+    const existing = domains.find(d => d.storageKey === selectedKey);
+    const next = existing ? { ...existing } : blankDomain(domains.length + 1);
+    setDraft(next);
+    setStateRows(toStateRows(next.deliverySla));
+    setTemplates([]);
+    if (!existing) return;
+
+    let cancelled = false;
+    fetchDomainTemplates(existing.name)
+      .then(result => { if (!cancelled) setTemplates(result); })
+      .catch(() => undefined);
+    return () => { cancelled = true; };
+  }, [selectedKey, domains]);
+
+  const update = (patch: Partial<DomainConfig>) => setDraft(prev => ({ ...prev, ...patch }));
+  const updateProfitability = (patch: Partial<ProfitabilitySettings>) =>
+    setDraft(prev => ({ ...prev, profitability: { ...prev.profitability, ...patch } }));
+  const updateStateRow = (index: number, patch: Partial<StateSla>) =>
+    setStateRows(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  const handleNameChange = (name: string) => {
+    // New domains derive label and storage key from the name until the user edits them
+    update({
+      name,
+      ...(draft.label === draft.name ? { label: name } : {}),
+      ...(isNew && draft.storageKey === slugifyStorageKey(draft.name) ? { storageKey: slugifyStorageKey(name) } : {}),
+    });
+  };
+
+  const validate = (): string | null => {
+    if (!draft.name.trim() || !draft.label.trim()) return 'Name and label are required.';
+    if (!/^[a-z0-9_]+$/.test(draft.storageKey)) return 'Storage key may only contain lowercase letters, digits and underscores.';
+    if (!/^[A-Z]{3}$/.test(draft.currency)) return 'Currency must be a three-letter ISO code such as INR.';
+    if (draft.name === 'All Domains') return '"All Domains" is reserved.';
+    if (COST_FIELDS.some(({ key }) => !(draft.profitability[key] >= 0))) return 'Channel costs cannot be negative.';
+    if (draft.profitability.commissionPercent > 100) return 'Commission cannot exceed 100% of net sales.';
+    if (!(draft.deliverySla.standardDays >= 0) || stateRows.some(row => !(row.days >= 0))) return 'Delivery SLA days cannot be negative.';
+    if (stateRows.some(row => !row.state.trim())) return 'Every SLA override needs a state.';
+    const states = stateRows.map(row => row.state.trim().toLowerCase());
+    if (new Set(states).size !== states.length) return 'Each state can only have one SLA override.';
+    const clash = domains.find(d => d.storageKey !== selectedKey && (d.name === draft.name.trim() || d.storageKey === draft.storageKey));
+    if (clash) return `${clash.label} already uses that name or storage key.`;
+    return null;
+  };
+
+  const handleSave = async () => {
+    const problem = validate();
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const stateDays = Object.fromEntries(stateRows.map(row => [row.state.trim(), row.days]));
+      await onSave({
+        ...draft, name: draft.name.trim(), label: draft.label.trim(), logoUrl: draft.logoUrl?.trim() || null,
+        deliverySla: { ...draft.deliverySla, stateDays },
+      });
+      setSelectedKey(draft.storageKey);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save domain.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Remove ${draft.label} from the registry?`)) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onDelete(draft);
+      setSelectedKey(NEW_DOMAIN);
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove domain.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60">
+      <div className="relative w-full max-w-2xl p-6 bg-gray-800 border border-gray-700 rounded-lg shadow-xl animate-in zoom-in duration-200 max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white" disabled={isSaving}>
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+        </button>
+        <h2 className="text-2xl font-bold text-white mb-4">Manage Domains</h2>
+        <div className="space-y-4">
+          <div>
+            <label className={labelClass}>Domain</label>
+            <select value={selectedKey} onChange={e => setSelectedKey(e.target.value)} className={inputClass} disabled={isSaving}>
+              {domains.map(d => <option key={d.storageKey} value={d.storageKey}>{d.label}</option>)}
+              <option value={NEW_DOMAIN}>+ Add a new domain</option>
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input value={draft.name} onChange={e => handleNameChange(e.target.value)} className={inputClass} disabled={isSaving || !isNew} placeholder="e.g. Meesho" />
+            </div>
+            <div>
+              <label className={labelClass}>Display Label</label>
+              <input value={draft.label} onChange={e => update({ label: e.target.value })} className={inputClass} disabled={isSaving} />
+            </div>
+            <div>
+              <label className={labelClass}>Storage Key</label>
+              <input value={draft.storageKey} onChange={e => update({ storageKey: e.target.value })} className={`${inputClass} font-mono`} disabled={isSaving || !isNew} />
+            </div>
+            <div>
+              <label className={labelClass}>Currency</label>
+              <input value={draft.currency} onChange={e => update({ currency: e.target.value.toUpperCase() })} maxLength={3} className={`${inputClass} font-mono`} disabled={isSaving} />
+            </div>
+            <div>
+              <label className={labelClass}>Colour</label>
+              <input type="color" value={draft.color} onChange={e => update({ color: e.target.value })} className="h-9 w-full bg-gray-700 border border-gray-600 rounded-md px-1" disabled={isSaving} />
+            </div>
+            <div>
+              <label className={labelClass}>Sidebar Position</label>
+              <input type="number" value={draft.sortOrder} onChange={e => update({ sortOrder: parseInt(e.target.value, 10) || 0 })} className={inputClass} disabled={isSaving} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Logo URL</label>
+            <input value={draft.logoUrl || ''} onChange={e => update({ logoUrl: e.target.value })} className={inputClass} disabled={isSaving} placeholder="Optional; the colour badge is used otherwise" />
+          </div>
+          <div>
+            <label className={labelClass}>Default Mapping Template</label>
+            <select value={draft.defaultTemplate || ''} onChange={e => update({ defaultTemplate: e.target.value || null })} className={inputClass} disabled={isSaving || isNew}>
+              <option value="">None (suggest a mapping automatically)</option>
+              {templates.map(t => <option key={t.signature} value={t.signature}>v{t.version}: {t.headers.length} columns, updated {new Date(t.updatedAt).toLocaleDateString('en-IN')}</option>)}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Used for uploads whose layout has no saved template of its own.{isNew ? ' Available once the domain has a saved layout.' : ''}</p>
+          </div>
+          <div className="border-t border-gray-700 pt-4">
+            <label className={labelClass}>Profitability</label>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="col-span-2">
+                <label className={labelClass}>Revenue Column Is</label>
+                <select
+                  value={draft.profitability.revenueBasis}
+                  onChange={e => updateProfitability({ revenueBasis: e.target.value as ProfitabilitySettings['revenueBasis'] })}
+                  className={inputClass}
+                  disabled={isSaving}
+                >
+                  <option value="gross">Before discount (discount is deducted from it)</option>
+                  <option value="net">After discount (discount is already taken off)</option>
+                </select>
+              </div>
+              {COST_FIELDS.map(({ key, label }) => (
+                <div key={key}>
+                  <label className={labelClass}>{label}</label>
+                  <input
+                    type="number" min={0} step="any"
+                    value={draft.profitability[key]}
+                    onChange={e => updateProfitability({ [key]: parseFloat(e.target.value) || 0 })}
+                    className={inputClass}
+                    disabled={isSaving}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">Costs apply when an upload has no Marketplace Fees or Shipping Fees column mapped; mapped settlement columns are used as-is.</p>
+          </div>
+          <div className="border-t border-gray-700 pt-4">
+            <label className={labelClass}>Delivery SLA</label>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Standard Days to Deliver</label>
+                <input
+                  type="number" min={0} step={1}
+                  value={draft.deliverySla.standardDays}
+                  onChange={e => update({ deliverySla: { ...draft.deliverySla, standardDays: parseInt(e.target.value, 10) || 0 } })}
+                  className={inputClass}
+                  disabled={isSaving}
+                />
+              </div>
+            </div>
+            {stateRows.length > 0 && (
+              <div className="space-y-2 mt-3">
+                {stateRows.map((row, index) => (
+                  <div key={index} className="flex gap-2">
+                    <input value={row.state} onChange={e => updateStateRow(index, { state: e.target.value })} placeholder="State, e.g. Assam" className={inputClass} disabled={isSaving} />
+                    <input
+                      type="number" min={0} step={1}
+                      value={row.days}
+                      onChange={e => updateStateRow(index, { days: parseInt(e.target.value, 10) || 0 })}
+                      className={`${inputClass} w-28`}
+                      disabled={isSaving}
+                    />
+                    <button
+                      onClick={() => setStateRows(prev => prev.filter((_, i) => i !== index))}
+                      disabled={isSaving}
+                      className="px-3 text-xs font-semibold text-red-400 hover:text-red-300 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={() => setStateRows(prev => [...prev, { state: '', days: draft.deliverySla.standardDays }])}
+              disabled={isSaving}
+              className="mt-3 text-xs font-semibold text-blue-400 hover:text-blue-300 disabled:opacity-50"
+            >
+              + Add a state override
+            </button>
+            <p className="text-xs text-gray-500 mt-2">Days from order date to delivered date, in calendar days. Orders to a listed state use its own SLA; states match the mapped State column ignoring case.</p>
+          </div>
+          {!isNew && <p className="text-xs text-gray-500">Name and storage key are fixed once created because stored rows and user access lists refer to them.</p>}
+          {error && <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-lg text-xs text-red-400 leading-relaxed">{error}</div>}
+        </div>
+        <div className="mt-6 flex gap-3">
+          {!isNew && (
+            <button
+              onClick={handleDelete}
+              disabled={isSaving || hasData}
+              title={hasData ? 'Purge this domain\'s data before removing it' : undefined}
+              className="px-4 py-3 font-semibold text-red-400 border border-red-500/30 rounded-lg hover:bg-red-500/10 disabled:opacity-50 transition-all"
+            >
+              Remove
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex-1 px-4 py-3 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-600 transition-all"
+          >
+            {isSaving ? 'Saving...' : isNew ? 'Add Domain' : 'Save Domain'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DomainRegistryModal;
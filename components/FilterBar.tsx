@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { DimensionField, DimensionFilter, FILTER_FIELDS } from '../utils/columnar';
+import { MAPPING_FIELDS } from '../utils/mapping';
+import { FilterIcon } from './Icons';
+
+const fieldLabels = Object.fromEntries(MAPPING_FIELDS.map(f => [f.key, f.label])) as Record<string, string>;
+
+// Long value lists (SKUs, cities) are searched rather than scrolled
+const MAX_LISTED = 200;
+
+interface FilterBarProps {
+  options: Partial<Record<DimensionField, string[]>>;
+  filters: DimensionFilter[];
+  onChange: (filters: DimensionFilter[]) => void;
+}
+
+interface FilterMenuProps {
+  field: DimensionField;
+  values: string[];
+  filter: DimensionFilter | undefined;
+  onChange: (filter: DimensionFilter) => void;
+}
+
+const FilterMenu: React.FC<FilterMenuProps> = ({ field, values, filter, onChange }) => {
+  const [search, setSearch] = useState('');
+  const selected = new Set<string>(filter?.values || []);
+  const mode = filter?.mode || 'include';
+
+  const query = search.trim().toLowerCase();
+  const matches = query ? values.filter(value => value.toLowerCase().includes(query)) : values;
+  const listed = matches.slice(0, MAX_LISTED);
+
+  const update = (next: string[], nextMode = mode) => onChange({ field, values: next, mode: nextMode });
+  const toggle = (value: string) => update(selected.has(value) ? [...selected].filter(v => v !== value) : [...selected, value]);
+
+  return (
+    <div className="absolute top-full left-0 mt-2 z-20 w-72 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-3 space-y-3">
+      <div className="flex bg-slate-800 rounded-lg p-1 text-xs font-bold">
+        {(['include', 'exclude'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => update([...selected], option)}
+            className={`flex-1 py-1.5 rounded-md capitalize transition-colors ${mode === option ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      <input
+        type="text"
+        autoFocus
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder={`Search ${values.length.toLocaleString('en-IN')} values...`}
+        className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+      />
+      <div className="flex justify-between text-xs">
+        <button onClick={() => update([...new Set([...selected, ...matches])])} className="text-blue-400 hover:text-blue-300 font-semibold">
+          Select {query ? 'matches' : 'all'}
+        </button>
+        <button onClick={() => update([])} className="text-slate-400 hover:text-white font-semibold">Clear</button>
+      </div>
+      <div className="max-h-60 overflow-y-auto space-y-0.5">
+        {listed.map(value => (
+          <label key={value} className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-slate-800 cursor-pointer text-sm text-slate-300">
+            <input type="checkbox" checked={selected.has(value)} onChange={() => toggle(value)} className="accent-blue-500" />
+            <span className="truncate" title={value}>{value}</span>
+          </label>
+        ))}
+        {matches.length === 0 && <p className="text-xs text-slate-500 px-2 py-1.5">No matching values.</p>}
+        {matches.length > MAX_LISTED && (
+          <p className="text-xs text-slate-500 px-2 py-1.5">
+            Showing {MAX_LISTED} of {matches.length.toLocaleString('en-IN')}; refine the search to see more.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const FilterBar: React.FC<FilterBarProps> = ({ options, filters, onChange }) => {
+  const [openField, setOpenField] = useState<DimensionField | null>(null);
+  const barRef = useRef<HTMLDivElement>(null);
+
+  const handleClickOutside = (event: MouseEvent) => {
+    if (barRef.current && !barRef.current.contains(event.target as Node)) {
+      setOpenField(null);
+    }
+  };
+
+  useEffect(() => {
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, []);
+
+  const fields = FILTER_FIELDS.filter(field => options[field]?.length);
+  const active = filters.filter(filter => filter.values.length > 0);
+  if (fields.length === 0) return null;
+
+  // An emptied filter stays in the list so its include/exclude choice survives while editing
+  const setFilter = (next: DimensionFilter) => {
+    const exists = filters.some(filter => filter.field === next.field);
+    onChange(exists ? filters.map(filter => (filter.field === next.field ? next : filter)) : [...filters, next]);
+  };
+  const removeFilter = (field: DimensionField) => onChange(filters.filter(filter => filter.field !== field));
+
+  const chipLabel = ({ field, values, mode }: DimensionFilter) => {
+    const shown = values.length > 2 ? `${values.slice(0, 2).join(', ')} +${values.length - 2}` : values.join(', ');
+    return `${fieldLabels[field]} ${mode === 'include' ? 'is' : 'is not'} ${shown}`;
+  };
+
+  return (
+    <div ref={barRef} className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="flex items-center gap-1.5 text-xs font-bold text-slate-500 uppercase tracking-widest mr-1">
+          <FilterIcon /> Filters
+        </span>
+        {fields.map(field => {
+          const filter = filters.find(f => f.field === field);
+          const count = filter?.values.length || 0;
+          return (
+            <div key={field} className="relative">
+              <button
+                onClick={() => setOpenField(openField === field ? null : field)}
+                className={`border rounded-xl px-3 py-1.5 text-sm font-semibold transition-all ${count > 0 ? 'bg-blue-600/20 border-blue-500/50 text-blue-300' : 'bg-slate-900 border-slate-700 text-slate-300 hover:border-slate-500'}`}
+              >
+                {fieldLabels[field]}{count > 0 ? ` (${filter!.mode === 'exclude' ? '-' : ''}${count})` : ''}
+              </button>
+              {openField === field && (
+                <FilterMenu field={field} values={options[field]!} filter={filter} onChange={setFilter} />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {active.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {active.map(filter => (
+            <span
+              key={filter.field}
+              className={`flex items-center gap-2 rounded-full pl-3 pr-1.5 py-1 text-xs font-semibold border ${filter.mode === 'include' ? 'bg-blue-500/10 border-blue-500/30 text-blue-300' : 'bg-red-500/10 border-red-500/30 text-red-300'}`}
+              title={filter.values.join(', ')}
+            >
+              {chipLabel(filter)}
+              <button onClick={() => removeFilter(filter.field)} aria-label={`Remove ${fieldLabels[filter.field]} filter`} className="w-5 h-5 rounded-full hover:bg-white/10 leading-none">
+                &times;
+              </button>
+            </span>
+          ))}
+          <button onClick={() => onChange([])} className="text-xs font-semibold text-slate-400 hover:text-white ml-1">
+            Clear all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilterBar;
@@ -1,12 +1,27 @@
 import React from 'react';
+import { KpiComparison } from '../types';
 
 interface KPIProps {
   title: string;
   value: string | number;
   icon?: React.ReactNode;
+  comparison?: KpiComparison;
 }
 
-const KPI: React.FC<KPIProps> = ({ title, value, icon }) => (
+const ComparisonBadge = ({ comparison }: { comparison: KpiComparison }) => {
+  const { delta, percentChange, improved } = comparison;
+  const tone = improved === null ? 'bg-slate-700/50 text-slate-400' : improved ? 'bg-emerald-500/10 text-emerald-400' : 'bg-red-500/10 text-red-400';
+  const arrow = delta > 0 ? '▲' : delta < 0 ? '▼' : '•';
+  const change = percentChange === null ? (delta === 0 ? '0%' : 'New') : `${Math.abs(percentChange).toFixed(1)}%`;
+  return (
+    <p className="mt-2 flex items-center gap-2 text-[11px] font-bold">
+      <span className={`px-2 py-0.5 rounded-full ${tone}`}>{arrow} {change}</span>
+      <span className="text-slate-500">vs {comparison.value}</span>
+    </p>
+  );
+};
+
+const KPI: React.FC<KPIProps> = ({ title, value, icon, comparison }) => (
   <div className="relative group overflow-hidden bg-slate-900/40 backdrop-blur-md p-6 rounded-3xl border border-white/5 shadow-2xl transition-all duration-300 hover:border-blue-500/30 hover:-translate-y-1 hover:shadow-blue-500/10">
     <div className="absolute -right-4 -top-4 w-24 h-24 bg-blue-600/5 rounded-full blur-3xl group-hover:bg-blue-600/10 transition-colors"></div>
     <div className="relative flex items-center">
@@ -18,6 +33,7 @@ const KPI: React.FC<KPIProps> = ({ title, value, icon }) => (
       <div className="ml-5">
           <h3 className="text-[12px] font-bold text-slate-500 uppercase tracking-widest">{title}</h3>
           <p className="mt-1 text-3xl font-black text-white tracking-tight leading-none drop-shadow-sm">{value}</p>
+          {comparison && <ComparisonBadge comparison={comparison} />}
       </div>
     </div>
   </div>
@@ -1,21 +1,42 @@
 import React, { useState } from 'react';
+import { signInWithPassword, sendMagicLink } from '../utils/auth';
 
-interface LoginPageProps {
-  onLogin: () => void;
-}
-
-const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
+// Successful sign-in is picked up by the session listener in App, so no callback is needed here.
+const LoginPage: React.FC = () => {
+  const [method, setMethod] = useState<'password' | 'magicLink'>('password');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const switchMethod = (next: 'password' | 'magicLink') => {
+    setMethod(next);
+    setError('');
+    setNotice('');
+  };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (email && password) {
-      console.log('Simulating login for:', email);
-      onLogin();
-    } else {
-      setError('Please enter both email and password.');
+    setError('');
+    setNotice('');
+    if (!email || (method === 'password' && !password)) {
+      setError(method === 'password' ? 'Please enter both email and password.' : 'Please enter your email address.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (method === 'password') {
+        await signInWithPassword(email, password);
+      } else {
+        await sendMagicLink(email);
+        setNotice(`We sent a sign-in link to ${email}. Open it on this device to continue.`);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Sign in failed. Please try again.');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -31,6 +52,10 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
           <h1 className="text-3xl font-bold text-white">Ginza Industries Ltd.</h1>
           <p className="mt-2 text-gray-400">Sign in to access your dashboard</p>
         </div>
+        <div className="flex border-b border-gray-600">
+          <button type="button" onClick={() => switchMethod('password')} disabled={isSubmitting} className={`flex-1 py-2 text-sm font-medium ${method === 'password' ? 'text-blue-400 border-b-2 border-blue-400' : 'text-gray-400'}`}>Password</button>
+          <button type="button" onClick={() => switchMethod('magicLink')} disabled={isSubmitting} className={`flex-1 py-2 text-sm font-medium ${method === 'magicLink' ? 'text-blue-400 border-b-2 border-blue-400' : 'text-gray-400'}`}>Email Link</button>
+        </div>
         <form className="space-y-6" onSubmit={handleSubmit}>
           <input
             type="email"
@@ -38,22 +63,30 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
             onChange={(e) => setEmail(e.target.value)}
             className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
             placeholder="Email address"
+            autoComplete="email"
+            disabled={isSubmitting}
             required
           />
-          <input
-            type="password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
-            placeholder="Password"
-            required
-          />
+          {method === 'password' && (
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Password"
+              autoComplete="current-password"
+              disabled={isSubmitting}
+              required
+            />
+          )}
           {error && <p className="text-sm text-red-500">{error}</p>}
+          {notice && <p className="text-sm text-green-400">{notice}</p>}
           <button
             type="submit"
-            className="w-full px-4 py-3 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500 transition-colors duration-300"
+            disabled={isSubmitting}
+            className="w-full px-4 py-3 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500 transition-colors duration-300 disabled:bg-gray-600"
           >
-            Sign In
+            {isSubmitting ? 'Signing In...' : method === 'password' ? 'Sign In' : 'Send Sign-In Link'}
           </button>
         </form>
       </div>
@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react';
+import { ColumnMapping, OrderData } from '../types';
+import { MAPPING_FIELDS, MappingConfidence, assessMapping, sampleValues } from '../utils/mapping';
+
+interface MappingEditorProps {
+  headers: string[];
+  sampleRows: OrderData[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  disabled?: boolean;
+}
+
+const confidenceStyles: Record<MappingConfidence, string> = {
+  high: 'bg-green-500/10 text-green-400 border-green-500/20',
+  medium: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+  low: 'bg-red-500/10 text-red-400 border-red-500/20',
+  none: 'bg-slate-800 text-slate-500 border-slate-700',
+};
+
+const confidenceLabels: Record<MappingConfidence, string> = {
+  high: 'Likely',
+  medium: 'Check',
+  low: 'Unlikely',
+  none: 'Unmapped',
+};
+
+const MappingEditor: React.FC<MappingEditorProps> = ({ headers, sampleRows, mapping, onChange, disabled = false }) => {
+  const samplesByHeader = useMemo(() => {
+    const samples: Record<string, string[]> = {};
+    headers.forEach(h => { samples[h] = sampleValues(sampleRows, h); });
+    return samples;
+  }, [headers, sampleRows]);
+
+  // A column feeding several fields is usually a mistake (e.g. one date column for order and delivery)
+  const usageCount = useMemo(() => {
+    const counts = new Map<string, number>();
+    MAPPING_FIELDS.forEach(({ key }) => {
+      const col = mapping[key];
+      if (col) counts.set(col, (counts.get(col) || 0) + 1);
+    });
+    return counts;
+  }, [mapping]);
+
+  const handleSelect = (key: keyof ColumnMapping, column: string) => {
+    onChange({ ...mapping, [key]: column || null });
+  };
+
+  return (
+    <div className="overflow-y-auto max-h-[50vh] border border-gray-700 rounded-lg">
+      <table className="w-full text-sm text-left text-gray-400">
+        <thead className="text-xs text-gray-300 uppercase bg-gray-700 sticky top-0">
+          <tr>
+            <th scope="col" className="px-4 py-3">Field</th>
+            <th scope="col" className="px-4 py-3">Source Column</th>
+            <th scope="col" className="px-4 py-3">Sample Values</th>
+            <th scope="col" className="px-4 py-3">Hint</th>
+          </tr>
+        </thead>
+        <tbody>
+          {MAPPING_FIELDS.map(field => {
+            const column = mapping[field.key];
+            const samples = column ? samplesByHeader[column] || [] : [];
+            const confidence = assessMapping(field, column, samples);
+            const isShared = !!column && (usageCount.get(column) || 0) > 1;
+            return (
+              <tr key={field.key} className="bg-gray-800 border-b border-gray-700">
+                <td className="px-4 py-2 font-semibold text-gray-200 whitespace-nowrap">{field.label}</td>
+                <td className="px-4 py-2">
+                  <select
+                    value={column || ''}
+                    onChange={e => handleSelect(field.key, e.target.value)}
+                    disabled={disabled}
+                    className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200"
+                  >
+                    <option value="">-- Not mapped --</option>
+                    {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                  </select>
+                </td>
+                <td className="px-4 py-2 text-xs font-mono text-gray-400 max-w-[12rem] truncate" title={samples.join(' | ')}>
+                  {samples.length ? samples.join(' | ') : '—'}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap">
+                  <span className={`px-2 py-0.5 text-[10px] font-bold uppercase tracking-widest rounded border ${confidenceStyles[confidence]}`}>
+                    {confidenceLabels[confidence]}
+                  </span>
+                  {isShared && <span className="ml-2 text-[10px] font-bold uppercase tracking-widest text-amber-400">Shared</span>}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default MappingEditor;
@@ -0,0 +1,118 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { AllData, ColumnMapping } from '../types';
+import { detectHeaders } from '../utils/mapping';
+import { DEDUP_KEY_PRESETS, DedupKeyFields, defaultDedupKeys } from '../utils/dedup';
+import MappingEditor from './MappingEditor';
+
+interface MappingEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (domain: string, mapping: ColumnMapping, dedupKeys: DedupKeyFields | null) => Promise<void>;
+  allData: AllData;
+}
+
+const MappingEditorModal: React.FC<MappingEditorModalProps> = ({ isOpen, onClose, onSave, allData }) => {
+  const editableDomains = useMemo(() => Object.keys(allData).filter(d => allData[d]?.data.length), [allData]);
+  const [selectedDomain, setSelectedDomain] = useState('');
+  const [draft, setDraft] = useState<ColumnMapping | null>(null);
+  // '' keeps the automatic choice, which follows whatever identifiers the mapping has
+  const [dedupPresetId, setDedupPresetId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const domainState = selectedDomain ? allData[selectedDomain] : undefined;
+  const headers = useMemo(() => domainState ? detectHeaders(domainState.data) : [], [domainState]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedDomain(editableDomains[0] || '');
+    setError(null);
+    setIsSaving(false);
+  }, [isOpen]);
+
+  useEffect(() => {
+    setDraft(domainState ? { ...domainState.mapping } : null);
+    const saved = domainState?.dedupKeys;
+    setDedupPresetId(saved ? DEDUP_KEY_PRESETS.find(p => p.fields.join() === saved.join())?.id || '' : '');
+  }, [domainState]);
+
+  const automaticLabel = useMemo(() => {
+    if (!draft) return '';
+    const fields = defaultDedupKeys(draft).join();
+    return DEDUP_KEY_PRESETS.find(p => p.fields.join() === fields)?.label || '';
+  }, [draft]);
+
+  const handleSave = async () => {
+    if (!selectedDomain || !draft) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const preset = DEDUP_KEY_PRESETS.find(p => p.id === dedupPresetId);
+      await onSave(selectedDomain, draft, preset ? preset.fields : null);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save mapping.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60">
+      <div className="relative w-full max-w-4xl p-6 bg-gray-800 border border-gray-700 rounded-lg shadow-xl animate-in zoom-in duration-200">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white" disabled={isSaving}>
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+        </button>
+        <h2 className="text-2xl font-bold text-white mb-4">Edit Column Mapping</h2>
+        {editableDomains.length === 0 ? (
+          <p className="text-gray-400 text-sm">Upload data for a domain before editing its mapping.</p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">Platform</label>
+              <select value={selectedDomain} onChange={e => setSelectedDomain(e.target.value)} className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200" disabled={isSaving}>
+                {editableDomains.map(d => <option key={d} value={d}>{d}</option>)}
+              </select>
+            </div>
+            {draft && domainState && (
+              <MappingEditor
+                headers={headers}
+                sampleRows={domainState.data.slice(0, 50)}
+                mapping={draft}
+                onChange={setDraft}
+                disabled={isSaving}
+              />
+            )}
+            {draft && (
+              <div>
+                <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">Match Re-uploaded Rows By</label>
+                <select value={dedupPresetId} onChange={e => setDedupPresetId(e.target.value)} className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200" disabled={isSaving}>
+                  <option value="">Automatic ({automaticLabel})</option>
+                  {DEDUP_KEY_PRESETS.map(p => (
+                    <option key={p.id} value={p.id} disabled={!p.fields.every(f => !!draft[f])}>{p.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">A later upload of a matching row updates it in place instead of adding a copy.</p>
+              </div>
+            )}
+            <p className="text-xs text-gray-500">Stored rows are kept as uploaded; remapping only changes how dashboards read them.</p>
+            {error && <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-lg text-xs text-red-400 leading-relaxed">{error}</div>}
+          </div>
+        )}
+        <div className="mt-6">
+          <button
+            onClick={handleSave}
+            disabled={!draft || isSaving}
+            className="w-full px-4 py-3 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-600 transition-all"
+          >
+            {isSaving ? 'Saving...' : 'Save Mapping'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MappingEditorModal;
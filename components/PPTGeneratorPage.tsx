@@ -2,6 +2,8 @@ import React, { useState, useMemo } from 'react';
 import { AllData, PptSlide, DomainData } from '../types';
 import { useDashboardData } from '../hooks/useDashboardData';
 import { generatePptInsights } from '../utils/gemini';
+import { istCalendar, istDate, storedColumnDateParser } from '../utils/dates';
+import { findDomain } from '../utils/domains';
 import PresentationView from './PresentationView';
 
 interface PPTGeneratorPageProps {
@@ -28,9 +30,10 @@ const PPTGeneratorPage: React.FC<PPTGeneratorPageProps> = ({ allData, domains })
     // FIX: Explicitly type domainData to correct type inference issue.
     Object.values(allData).forEach((domainData: DomainData) => {
         if (domainData?.data && domainData.mapping.date) {
+            const parseStored = storedColumnDateParser(domainData.data, domainData.mapping.date);
             domainData.data.forEach(item => {
-                const date = new Date(item[domainData.mapping.date!] as string);
-                if (!isNaN(date.getTime())) yearSet.add(date.getFullYear());
+                const date = parseStored(item[domainData.mapping.date!]);
+                if (date) yearSet.add(istCalendar(date).year);
             });
         }
     });
@@ -44,10 +47,10 @@ const PPTGeneratorPage: React.FC<PPTGeneratorPageProps> = ({ allData, domains })
     const isAllMonths = selectedMonth === '-1';
     const monthNum = isAllMonths ? 0 : parseInt(selectedMonth, 10);
     
-    const startDate = new Date(yearNum, monthNum, 1);
+    const startDate = istDate(yearNum, monthNum, 1);
     const endDate = isAllMonths 
-        ? new Date(yearNum, 11, 31, 23, 59, 59, 999) 
-        : new Date(yearNum, monthNum + 1, 0, 23, 59, 59, 999);
+        ? istDate(yearNum, 11, 31, 23, 59, 59, 999) 
+        : istDate(yearNum, monthNum + 1, 0, 23, 59, 59, 999);
 
     // FIX: Ensure dataToProcess is always of type AllData to prevent type widening.
     let dataToProcess: AllData = allData;
@@ -60,16 +63,19 @@ const PPTGeneratorPage: React.FC<PPTGeneratorPageProps> = ({ allData, domains })
     const anyMapping = Object.values(dataToProcess).find(d => d?.mapping)?.mapping;
     if (!anyMapping?.date || consolidatedData.length === 0) return null;
 
+    const parseStored = storedColumnDateParser(consolidatedData, anyMapping.date);
     const filteredData = consolidatedData.filter(row => {
-        const date = new Date(row[anyMapping.date!] as string);
-        return !isNaN(date.getTime()) && date >= startDate && date <= endDate;
+        const date = parseStored(row[anyMapping.date!]);
+        return !!date && date >= startDate && date <= endDate;
     });
 
     return { data: filteredData, mapping: anyMapping };
   }, [selectedDomain, selectedYear, selectedMonth, allData]);
 
   // FIX: Destructure all required values from useDashboardData, including topCities and brandDistribution, to resolve property access errors.
-  const { kpis, topItems, brandDistribution, topCities } = useDashboardData(domainDataForPeriod, { start: null, end: null }, 'All Brands');
+  const { kpis, topItems, brandDistribution, topCities } = useDashboardData(
+    domainDataForPeriod, { start: null, end: null }, [], null, findDomain(selectedDomain)?.profitability,
+  );
 
   const handleGenerate = async () => {
     if (!domainDataForPeriod || !domainDataForPeriod.data.length) {
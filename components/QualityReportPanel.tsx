@@ -0,0 +1,71 @@
+import React from 'react';
+import { QualityReport } from '../types';
+import { MAPPING_FIELDS } from '../utils/mapping';
+import { countQualityIssues } from '../utils/quality';
+
+interface QualityReportPanelProps {
+  report: QualityReport;
+}
+
+const fieldLabels = Object.fromEntries(MAPPING_FIELDS.map(f => [f.key, f.label]));
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(value > 0 && value < 0.01 ? 1 : 0)}%`;
+
+const QualityReportPanel: React.FC<QualityReportPanelProps> = ({ report }) => {
+  const issueCount = countQualityIssues(report);
+  const dropped = report.rowsDropped.blank + report.rowsDropped.duplicate;
+
+  const warnings: string[] = [];
+  if (report.rowsDropped.blank > 0) warnings.push(`${report.rowsDropped.blank} blank rows will be skipped.`);
+  if (report.rowsDropped.duplicate > 0) warnings.push(`${report.rowsDropped.duplicate} rows are exact duplicates within this file.`);
+  if (report.negativeRevenue > 0) warnings.push(`${report.negativeRevenue} rows have negative revenue.`);
+  if (report.outlierRevenue > 0) warnings.push(`${report.outlierRevenue} rows have unusually high revenue.`);
+  if (report.revenueWithoutOrderId > 0) warnings.push(`${report.revenueWithoutOrderId} rows have revenue but no order ID.`);
+  if (report.unknownStates.length > 0) {
+    warnings.push(`Unrecognised states: ${report.unknownStates.map(s => `${s.name} (${s.count})`).join(', ')}.`);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest mr-auto">Data Quality</h3>
+        <span className="px-2 py-1 rounded bg-slate-800 text-slate-300 font-bold">{report.totalRows.toLocaleString('en-IN')} rows</span>
+        <span className="px-2 py-1 rounded bg-slate-800 text-slate-300 font-bold">{dropped.toLocaleString('en-IN')} dropped</span>
+        <span className={`px-2 py-1 rounded font-bold ${issueCount ? 'bg-amber-500/10 text-amber-400' : 'bg-green-500/10 text-green-400'}`}>
+          {issueCount ? `${issueCount} issues` : 'No issues'}
+        </span>
+      </div>
+      {warnings.length > 0 && (
+        <ul className="bg-amber-500/10 border border-amber-500/20 p-3 rounded-lg text-xs text-amber-300 space-y-1 list-disc list-inside">
+          {warnings.map(w => <li key={w}>{w}</li>)}
+        </ul>
+      )}
+      {report.columns.length > 0 && (
+        <div className="overflow-y-auto max-h-48 border border-gray-700 rounded-lg">
+          <table className="w-full text-xs text-left text-gray-400">
+            <thead className="text-gray-300 uppercase bg-gray-700 sticky top-0">
+              <tr>
+                <th scope="col" className="px-3 py-2">Field</th>
+                <th scope="col" className="px-3 py-2">Column</th>
+                <th scope="col" className="px-3 py-2 text-right">Empty</th>
+                <th scope="col" className="px-3 py-2 text-right">Unparseable</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.columns.map(col => (
+                <tr key={col.field} className="bg-gray-800 border-b border-gray-700">
+                  <td className="px-3 py-1.5 font-semibold text-gray-200">{fieldLabels[col.field]}</td>
+                  <td className="px-3 py-1.5 font-mono">{col.column}</td>
+                  <td className={`px-3 py-1.5 text-right ${col.nullRate > 0.5 ? 'text-amber-400' : ''}`}>{formatPercent(col.nullRate)}</td>
+                  <td className={`px-3 py-1.5 text-right ${col.unparseable > 0 ? 'text-red-400 font-bold' : ''}`}>{col.unparseable.toLocaleString('en-IN')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QualityReportPanel;
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { RemoteFormat, RemotePagination, RemoteSourceConfig } from '../types';
+import { formatHeaderLines, parseHeaderLines } from '../utils/remoteSource';
+
+interface RemoteSourceFormProps {
+  config: RemoteSourceConfig;
+  onChange: (config: RemoteSourceConfig) => void;
+  disabled?: boolean;
+}
+
+const FORMATS: { value: RemoteFormat; label: string }[] = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'json', label: 'JSON' },
+  { value: 'ndjson', label: 'NDJSON (one object per line)' },
+  { value: 'csv', label: 'CSV' },
+];
+
+const DEFAULT_MAX_PAGES = 100;
+
+const defaultPagination = (kind: RemotePagination['kind']): RemotePagination => {
+  switch (kind) {
+    case 'page': return { kind, pageParam: 'page', startPage: 1, pageSizeParam: null, pageSize: null, maxPages: DEFAULT_MAX_PAGES };
+    case 'cursor': return { kind, cursorParam: 'cursor', cursorPath: 'next_cursor', maxPages: DEFAULT_MAX_PAGES };
+    default: return { kind: 'none' };
+  }
+};
+
+const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white';
+const labelClass = 'block text-xs font-medium text-gray-400 mb-1';
+
+const toNumber = (value: string, fallback: number) => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+/**
+ * Where and how to pull a remote source. Remount it (via `key`) when switching sources so
+ * the headers text is re-read from the new config.
+ */
+const RemoteSourceForm: React.FC<RemoteSourceFormProps> = ({ config, onChange, disabled = false }) => {
+  // Kept as typed; parsing on every keystroke would swallow a half-typed "Name:" line
+  const [headerText, setHeaderText] = useState(() => formatHeaderLines(config.headers));
+  const update = (patch: Partial<RemoteSourceConfig>) => onChange({ ...config, ...patch });
+  const { pagination } = config;
+  const updatePagination = (patch: Partial<RemotePagination>) => update({ pagination: { ...pagination, ...patch } as RemotePagination });
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClass}>URL</label>
+        <input
+          type="url"
+          value={config.url}
+          onChange={e => update({ url: e.target.value })}
+          disabled={disabled}
+          placeholder="https://api.example.com/orders.json"
+          className={inputClass}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Format</label>
+          <select value={config.format} onChange={e => update({ format: e.target.value as RemoteFormat })} disabled={disabled} className={inputClass}>
+            {FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Records Path (JSON)</label>
+          <input
+            value={config.recordsPath || ''}
+            onChange={e => update({ recordsPath: e.target.value.trim() || null })}
+            disabled={disabled || config.format === 'csv' || config.format === 'ndjson'}
+            placeholder="e.g. data.orders"
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+      </div>
+      <div>
+        <label className={labelClass}>Pagination</label>
+        <select value={pagination.kind} onChange={e => update({ pagination: defaultPagination(e.target.value as RemotePagination['kind']) })} disabled={disabled} className={inputClass}>
+          <option value="none">Single request</option>
+          <option value="page">Page number</option>
+          <option value="cursor">Cursor / next link</option>
+        </select>
+      </div>
+      {pagination.kind === 'page' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Page Parameter</label>
+            <input value={pagination.pageParam} onChange={e => updatePagination({ pageParam: e.target.value })} disabled={disabled} className={`${inputClass} font-mono`} />
+          </div>
+          <div>
+            <label className={labelClass}>First Page</label>
+            <input type="number" value={pagination.startPage} onChange={e => updatePagination({ startPage: toNumber(e.target.value, 1) })} disabled={disabled} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Page Size Parameter</label>
+            <input value={pagination.pageSizeParam || ''} onChange={e => updatePagination({ pageSizeParam: e.target.value.trim() || null })} disabled={disabled} placeholder="Optional, e.g. limit" className={`${inputClass} font-mono`} />
+          </div>
+          <div>
+            <label className={labelClass}>Page Size</label>
+            <input type="number" value={pagination.pageSize ?? ''} onChange={e => updatePagination({ pageSize: e.target.value ? toNumber(e.target.value, 100) : null })} disabled={disabled} placeholder="Stops at a shorter page" className={inputClass} />
+          </div>
+        </div>
+      )}
+      {pagination.kind === 'cursor' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Next Cursor Path</label>
+            <input value={pagination.cursorPath} onChange={e => updatePagination({ cursorPath: e.target.value })} disabled={disabled} placeholder="e.g. meta.next_cursor or links.next" className={`${inputClass} font-mono`} />
+          </div>
+          <div>
+            <label className={labelClass}>Cursor Parameter</label>
+            <input value={pagination.cursorParam} onChange={e => updatePagination({ cursorParam: e.target.value })} disabled={disabled} className={`${inputClass} font-mono`} />
+          </div>
+        </div>
+      )}
+      {pagination.kind !== 'none' && (
+        <div className="w-1/2 pr-1.5">
+          <label className={labelClass}>Page Limit</label>
+          <input type="number" min={1} value={pagination.maxPages} onChange={e => updatePagination({ maxPages: Math.max(1, toNumber(e.target.value, DEFAULT_MAX_PAGES)) })} disabled={disabled} className={inputClass} />
+        </div>
+      )}
+      <div>
+        <label className={labelClass}>Request Headers</label>
+        <textarea
+          value={headerText}
+          onChange={e => {
+            setHeaderText(e.target.value);
+            update({ headers: parseHeaderLines(e.target.value) });
+          }}
+          disabled={disabled}
+          rows={2}
+          placeholder="Authorization: Bearer <token>"
+          className={`${inputClass} font-mono`}
+        />
+        <p className="text-xs text-gray-500 mt-1">One "Name: value" per line. Saved with the source, readable by analysts and admins of the domain.</p>
+      </div>
+    </div>
+  );
+};
+
+export default RemoteSourceForm;
@@ -1,4 +1,6 @@
 import React from 'react';
+import { DomainConfig, UserProfile } from '../types';
+import { hasPermission } from '../utils/permissions';
 
 const HomeIcon = () => (
   <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-5 w-5 text-blue-400">
@@ -13,6 +15,22 @@ const PresentationIcon = () => (
     <path d="m7 21 5-5 5 5"/>
   </svg>
 );
+const HistoryIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-5 w-5">
+    <path d="M3 12a9 9 0 1 0 3-6.7L3 8"/>
+    <path d="M3 3v5h5"/>
+    <path d="M12 7v5l4 2"/>
+  </svg>
+);
+const MappingIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-5 w-5">
+    <path d="M8 3H5a2 2 0 0 0-2 2v3"/>
+    <path d="M21 8V5a2 2 0 0 0-2-2h-3"/>
+    <path d="M3 16v3a2 2 0 0 0 2 2h3"/>
+    <path d="M16 21h3a2 2 0 0 0 2-2v-3"/>
+    <line x1="7" y1="12" x2="17" y2="12"/>
+  </svg>
+);
 const DeleteIcon = () => (
   <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-5 w-5">
     <path d="M3 6h18"/>
@@ -30,46 +48,56 @@ const LogOutIcon = () => (
   </svg>
 );
 
-const domainLogos: Record<string, React.ReactNode> = {
-  "All Domains": <HomeIcon />,
-  "Myntra": (
-    <div className="bg-white rounded-md p-1 flex items-center justify-center">
-      <img src="https://www.vectorlogo.zone/logos/myntra/myntra-icon.svg" alt="Myntra" className="h-5 w-5 object-contain" />
-    </div>
-  ),
-  "Amazon": (
-    <div className="bg-white rounded-md p-1 flex items-center justify-center">
-      <img src="https://www.vectorlogo.zone/logos/amazon/amazon-icon.svg" alt="Amazon" className="h-5 w-5 object-contain" />
-    </div>
-  ),
-  "Flipkart": (
-    <div className="bg-white rounded-md p-1 flex items-center justify-center">
-      <img src="https://www.vectorlogo.zone/logos/flipkart/flipkart-icon.svg" alt="Flipkart" className="h-5 w-5 object-contain" />
-    </div>
-  ),
-  "AJIO": (
-    <div className="bg-white rounded-md p-1 flex items-center justify-center">
-      <img src="https://www.vectorlogo.zone/logos/ajio/ajio-icon.svg" alt="AJIO" className="h-5 w-5 object-contain" />
-    </div>
-  ),
-  "Shopify": (
-    <div className="bg-white rounded-md p-1 flex items-center justify-center">
-      <img src="https://www.vectorlogo.zone/logos/shopify/shopify-icon.svg" alt="Shopify" className="h-5 w-5 object-contain" />
-    </div>
-  ),
-};
+const DomainsIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-5 w-5">
+    <rect x="3" y="3" width="7" height="7" rx="1"/>
+    <rect x="14" y="3" width="7" height="7" rx="1"/>
+    <rect x="3" y="14" width="7" height="7" rx="1"/>
+    <path d="M17.5 14v7M14 17.5h7"/>
+  </svg>
+);
+
+const CostIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-5 w-5">
+    <path d="M20.59 13.41l-7.17 7.17a2 2 0 0 1-2.83 0L2 12V2h10l8.59 8.59a2 2 0 0 1 0 2.82z"/>
+    <line x1="7" y1="7" x2="7.01" y2="7"/>
+  </svg>
+);
+
+const ALL_DOMAINS = 'All Domains';
+
+const DomainBadge: React.FC<{ domain: DomainConfig }> = ({ domain }) => domain.logoUrl ? (
+  <div className="bg-white rounded-md p-1 flex items-center justify-center">
+    <img src={domain.logoUrl} alt={domain.label} className="h-5 w-5 object-contain" />
+  </div>
+) : (
+  <div className="rounded-md h-7 w-7 flex items-center justify-center text-xs font-black text-white" style={{ backgroundColor: domain.color }}>
+    {domain.label.charAt(0).toUpperCase()}
+  </div>
+);
 
 interface SidebarProps {
-  domains: string[];
+  domains: DomainConfig[];
   activeDomain: string;
   setActiveDomain: (domain: string) => void;
   onLogout: () => void;
-  setCurrentView: (view: 'Dashboard' | 'PPT') => void;
-  activeView: 'Dashboard' | 'PPT';
+  setCurrentView: (view: 'Dashboard' | 'PPT' | 'History') => void;
+  activeView: 'Dashboard' | 'PPT' | 'History';
   openDeleteModal: () => void;
+  openMappingEditor: () => void;
+  openDomainManager: () => void;
+  openCostMaster: () => void;
+  profile: UserProfile;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ domains, activeDomain, setActiveDomain, onLogout, setCurrentView, activeView, openDeleteModal }) => {
+const Sidebar: React.FC<SidebarProps> = ({ domains, activeDomain, setActiveDomain, onLogout, setCurrentView, activeView, openDeleteModal, openMappingEditor, openDomainManager, openCostMaster, profile }) => {
+  const canGeneratePpt = hasPermission(profile, 'generatePpt');
+  const canUpload = hasPermission(profile, 'upload');
+  const canPurge = hasPermission(profile, 'purge');
+  const canEditMappings = hasPermission(profile, 'editMappings');
+  const canManageDomains = hasPermission(profile, 'manageDomains');
+  const canManageCosts = hasPermission(profile, 'manageCosts');
+
   return (
     <aside className="w-72 bg-slate-950 border-r border-slate-800 flex flex-col shadow-2xl">
       <div className="p-8 border-b border-slate-800 flex flex-col items-center gap-4">
@@ -89,51 +117,98 @@ const Sidebar: React.FC<SidebarProps> = ({ domains, activeDomain, setActiveDomai
 
       <nav className="flex-1 px-4 py-6 space-y-1.5 overflow-y-auto custom-scrollbar">
         <p className="px-3 pb-3 text-[11px] font-bold text-slate-500 uppercase tracking-widest">Dashboards</p>
-        {domains.map(domain => {
-          const isActive = activeDomain === domain && activeView === 'Dashboard';
+        {[null, ...domains].map(domain => {
+          const name = domain ? domain.name : ALL_DOMAINS;
+          const isActive = activeDomain === name && activeView === 'Dashboard';
           return (
             <a
-              key={domain}
+              key={name}
               href="#"
-              onClick={(e) => { e.preventDefault(); setActiveDomain(domain); }}
+              onClick={(e) => { e.preventDefault(); setActiveDomain(name); }}
               className={`group flex items-center px-3 py-2.5 text-sm font-semibold rounded-xl transition-all duration-200 relative ${isActive ? 'bg-blue-600/10 text-blue-400 shadow-sm' : 'text-slate-400 hover:bg-slate-900 hover:text-white'}`}
             >
               {isActive && <div className="absolute left-0 w-1 h-6 bg-blue-500 rounded-r-full" />}
               <div className="flex-shrink-0 flex items-center justify-center w-8 h-8 rounded-lg transition-transform duration-200 group-hover:scale-110">
-                  {domainLogos[domain] || <div className="w-8 h-8" />}
+                  {domain ? <DomainBadge domain={domain} /> : <HomeIcon />}
               </div>
-              <span className="ml-3 tracking-wide">{domain}</span>
+              <span className="ml-3 tracking-wide">{domain ? domain.label : ALL_DOMAINS}</span>
             </a>
           );
         })}
 
-        <p className="px-3 pt-8 pb-3 text-[11px] font-bold text-slate-500 uppercase tracking-widest">Strategy Tools</p>
-        <a
-          href="#"
-          onClick={(e) => { e.preventDefault(); setCurrentView('PPT'); }}
-          className={`group flex items-center px-3 py-2.5 text-sm font-semibold rounded-xl transition-all duration-200 relative ${activeView === 'PPT' ? 'bg-blue-600/10 text-blue-400 shadow-sm' : 'text-slate-400 hover:bg-slate-900 hover:text-white'}`}
-        >
-          {activeView === 'PPT' && <div className="absolute left-0 w-1 h-6 bg-blue-500 rounded-r-full" />}
-          <div className="flex-shrink-0 w-8 h-8 flex items-center justify-center">
-            <PresentationIcon />
-          </div>
-          <span className="ml-3 tracking-wide">AI Presentations</span>
-        </a>
+        {(canGeneratePpt || canUpload) && (
+          <p className="px-3 pt-8 pb-3 text-[11px] font-bold text-slate-500 uppercase tracking-widest">Strategy Tools</p>
+        )}
+        {canGeneratePpt && (
+          <>
+            <a
+              href="#"
+              onClick={(e) => { e.preventDefault(); setCurrentView('PPT'); }}
+              className={`group flex items-center px-3 py-2.5 text-sm font-semibold rounded-xl transition-all duration-200 relative ${activeView === 'PPT' ? 'bg-blue-600/10 text-blue-400 shadow-sm' : 'text-slate-400 hover:bg-slate-900 hover:text-white'}`}
+            >
+              {activeView === 'PPT' && <div className="absolute left-0 w-1 h-6 bg-blue-500 rounded-r-full" />}
+              <div className="flex-shrink-0 w-8 h-8 flex items-center justify-center">
+                <PresentationIcon />
+              </div>
+              <span className="ml-3 tracking-wide">AI Presentations</span>
+            </a>
+          </>
+        )}
+        {canUpload && (
+          <a
+            href="#"
+            onClick={(e) => { e.preventDefault(); setCurrentView('History'); }}
+            className={`group flex items-center px-3 py-2.5 text-sm font-semibold rounded-xl transition-all duration-200 relative ${activeView === 'History' ? 'bg-blue-600/10 text-blue-400 shadow-sm' : 'text-slate-400 hover:bg-slate-900 hover:text-white'}`}
+          >
+            {activeView === 'History' && <div className="absolute left-0 w-1 h-6 bg-blue-500 rounded-r-full" />}
+            <div className="flex-shrink-0 w-8 h-8 flex items-center justify-center">
+              <HistoryIcon />
+            </div>
+            <span className="ml-3 tracking-wide">Upload History</span>
+          </a>
+        )}
       </nav>
 
       <div className="p-4 border-t border-slate-800 space-y-1">
-        <button
-          onClick={openDeleteModal}
-          className="w-full flex items-center px-3 py-2.5 text-sm font-semibold rounded-xl text-slate-400 hover:bg-red-500/10 hover:text-red-400 transition-all duration-200"
-        >
-          <DeleteIcon /> <span className="ml-3">Purge Data</span>
-        </button>
+        {canManageDomains && (
+          <button
+            onClick={openDomainManager}
+            className="w-full flex items-center px-3 py-2.5 text-sm font-semibold rounded-xl text-slate-400 hover:bg-slate-900 hover:text-white transition-all duration-200"
+          >
+            <DomainsIcon /> <span className="ml-3">Manage Domains</span>
+          </button>
+        )}
+        {canManageCosts && (
+          <button
+            onClick={openCostMaster}
+            className="w-full flex items-center px-3 py-2.5 text-sm font-semibold rounded-xl text-slate-400 hover:bg-slate-900 hover:text-white transition-all duration-200"
+          >
+            <CostIcon /> <span className="ml-3">Cost Master</span>
+          </button>
+        )}
+        {canEditMappings && (
+          <button
+            onClick={openMappingEditor}
+            className="w-full flex items-center px-3 py-2.5 text-sm font-semibold rounded-xl text-slate-400 hover:bg-slate-900 hover:text-white transition-all duration-200"
+          >
+            <MappingIcon /> <span className="ml-3">Edit Mappings</span>
+          </button>
+        )}
+        {canPurge && (
+          <button
+            onClick={openDeleteModal}
+            className="w-full flex items-center px-3 py-2.5 text-sm font-semibold rounded-xl text-slate-400 hover:bg-red-500/10 hover:text-red-400 transition-all duration-200"
+          >
+            <DeleteIcon /> <span className="ml-3">Purge Data</span>
+          </button>
+        )}
         <button
           onClick={onLogout}
           className="w-full flex items-center px-3 py-2.5 text-sm font-semibold rounded-xl text-slate-400 hover:bg-slate-900 hover:text-white transition-all duration-200"
         >
           <LogOutIcon /> <span className="ml-3">End Session</span>
         </button>
+        <p className="px-3 pt-2 text-[10px] font-bold text-slate-600 uppercase tracking-widest">Role: {profile.role}</p>
       </div>
     </aside>
   );
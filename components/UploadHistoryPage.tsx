@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { UploadBatch } from '../types';
+import { fetchUploadHistory } from '../utils/supabase';
+import { countQualityIssues } from '../utils/quality';
+import QualityReportPanel from './QualityReportPanel';
+
+interface UploadHistoryPageProps {
+  canRollback: (batch: UploadBatch) => boolean;
+  onRollback: (batch: UploadBatch) => Promise<void>;
+}
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata', dateStyle: 'medium', timeStyle: 'short' });
+
+const UploadHistoryPage: React.FC<UploadHistoryPageProps> = ({ canRollback, onRollback }) => {
+  const [batches, setBatches] = useState<UploadBatch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchUploadHistory()
+      .then(result => { if (!cancelled) setBatches(result); })
+      .catch(() => { if (!cancelled) setError('Failed to load upload history.'); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const handleRollback = async (batch: UploadBatch) => {
+    if (!window.confirm(`Undo all ${batch.rowCount.toLocaleString('en-IN')} rows uploaded from "${batch.fileName || 'an unnamed source'}" to ${batch.domain}? Added rows are removed and updated rows go back to their previous values. This cannot be undone.`)) return;
+    setRollingBackId(batch.id);
+    setError(null);
+    try {
+      await onRollback(batch);
+      setBatches(prev => prev.map(b => b.id === batch.id ? { ...b, rolledBackAt: new Date().toISOString() } : b));
+    } catch (err: any) {
+      setError(err.message || 'Failed to roll back upload.');
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 space-y-4">
+      {error && <p className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">{error}</p>}
+      {batches.length === 0 ? (
+        <p className="text-gray-400 text-sm">No uploads recorded yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-[11px] uppercase tracking-widest text-slate-500 border-b border-gray-700">
+              <tr>
+                <th className="py-2 pr-4">Uploaded</th>
+                <th className="py-2 pr-4">Domain</th>
+                <th className="py-2 pr-4">Source</th>
+                <th className="py-2 pr-4">By</th>
+                <th className="py-2 pr-4 text-right">Rows</th>
+                <th className="py-2 pr-4">Quality</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {batches.map(batch => {
+                const issues = batch.qualityReport ? countQualityIssues(batch.qualityReport) : null;
+                const isExpanded = expandedId === batch.id;
+                return (
+                  <React.Fragment key={batch.id}>
+                    <tr className="border-b border-gray-700/60 text-gray-300">
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatTimestamp(batch.createdAt)}</td>
+                      <td className="py-2 pr-4">{batch.domain}</td>
+                      <td className="py-2 pr-4 max-w-xs truncate" title={batch.fileName || undefined}>{batch.fileName || '—'}</td>
+                      <td className="py-2 pr-4">{batch.uploaderEmail || '—'}</td>
+                      <td className="py-2 pr-4 text-right">{batch.rowCount.toLocaleString('en-IN')}</td>
+                      <td className="py-2 pr-4">
+                        {batch.qualityReport ? (
+                          <button
+                            onClick={() => setExpandedId(isExpanded ? null : batch.id)}
+                            className={`px-2 py-1 rounded text-xs font-bold ${issues ? 'bg-amber-500/10 text-amber-400' : 'bg-green-500/10 text-green-400'}`}
+                          >
+                            {issues ? `${issues} issues` : 'No issues'}
+                          </button>
+                        ) : '—'}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {batch.rolledBackAt
+                          ? <span className="text-xs font-bold text-red-400">Rolled back</span>
+                          : <span className="text-xs font-bold text-green-400">Active</span>}
+                      </td>
+                      <td className="py-2 text-right">
+                        {canRollback(batch) && !batch.rolledBackAt && (
+                          <button
+                            onClick={() => handleRollback(batch)}
+                            disabled={rollingBackId !== null}
+                            className="px-3 py-1 text-xs font-semibold text-red-400 border border-red-500/30 rounded-lg hover:bg-red-500/10 disabled:opacity-50 transition-colors"
+                          >
+                            {rollingBackId === batch.id ? 'Rolling back...' : 'Roll back'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {isExpanded && batch.qualityReport && (
+                      <tr className="border-b border-gray-700/60">
+                        <td colSpan={8} className="py-4">
+                          <QualityReportPanel report={batch.qualityReport} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UploadHistoryPage;
@@ -1,6 +1,15 @@
-import React, { useState } from 'react';
-import { analyzeCsvData } from '../utils/gemini';
-import { OrderData, ColumnMapping } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { resolveMapping, rememberMapping, ResolvedMapping } from '../utils/templates';
+import { OrderData, ColumnMapping, QualityReport, DomainConfig, DataSource, RemoteSourceConfig } from '../types';
+import { createIngestSession, CombinedSource, IngestCancelledError, IngestProgress, IngestSession, IngestSource, SheetPreview } from '../utils/ingestClient';
+import { SheetCombineMode, SOURCE_SHEET_COLUMN } from '../utils/sheets';
+import { defaultRemoteConfig } from '../utils/remoteSource';
+import { CONNECTORS, ConnectorCredentials, findConnector } from '../utils/connectors';
+import { buildQualityReport, sanitizeUploadRows } from '../utils/quality';
+import { istDayKey, toIstIsoString } from '../utils/dates';
+import MappingEditor from './MappingEditor';
+import RemoteSourceForm from './RemoteSourceForm';
+import QualityReportPanel from './QualityReportPanel';
 
 const UploadIcon = () => <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-8 h-8 text-gray-500"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" /><polyline points="17 8 12 3 7 8" /><line x1="12" x2="12" y1="3" y2="15" /></svg>;
 const LinkIcon = () => <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5 text-gray-400"><path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.72"></path><path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.72-1.72"></path></svg>;
@@ -8,26 +17,145 @@ const LinkIcon = () => <svg xmlns="http://www.w3.org/2000/svg" width="24" height
 interface UploadModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onUploadComplete: (domain: string, data: OrderData[], mapping: ColumnMapping) => void;
-  domains: string[];
+  onUploadComplete: (domain: string, data: OrderData[], mapping: ColumnMapping, report: QualityReport, sourceName: string) => Promise<void>;
+  domains: DomainConfig[];
+  dataSources: DataSource[];
+  onSaveDataSource: (source: DataSource) => Promise<DataSource>;
+  onDeleteDataSource: (source: DataSource) => Promise<void>;
+  onDataSourcePulled: (source: DataSource, pullError: string | null) => Promise<void>;
 }
 
-const UploadModal: React.FC<UploadModalProps> = ({ isOpen, onClose, onUploadComplete, domains }) => {
-  const [selectedDomain, setSelectedDomain] = useState(domains[0]);
-  const [sourceType, setSourceType] = useState<'file' | 'url'>('file');
+// A workbook with several non-empty sheets, before the sheets to import are chosen
+interface SheetChoice {
+  domain: string;
+  sourceName: string;
+  sheets: SheetPreview[];
+  selected: string[];
+  mode: SheetCombineMode;
+  previewSheet: string;
+}
+
+// Each sheet is mapped on its own; the full rows stay in the ingest worker until confirmation
+interface SheetReview extends SheetPreview {
+  mapping: ColumnMapping;
+  resolved: ResolvedMapping;
+}
+
+interface PendingReview {
+  domain: string;
+  sourceName: string;  // file name or URL, recorded in the upload history
+  sheets: SheetReview[];
+  mode: SheetCombineMode;
+  activeSheet: number;
+  dataSource: DataSource | null;  // saved source being pulled, stamped once the upload succeeds
+}
+
+// Orders pulled through a marketplace API; the connector's built-in mapping needs no review
+interface ConnectorReview {
+  domain: string;
+  sourceName: string;
+  rows: OrderData[];
+  mapping: ColumnMapping;
+  qualityReport: QualityReport;
+}
+
+const PREVIEW_ROWS = 5;
+const DEFAULT_CONNECTOR_DAYS = 30;
+
+const NEW_SOURCE = '';
+
+const REFRESH_OPTIONS: { minutes: number | null; label: string }[] = [
+  { minutes: null, label: 'On demand only' },
+  { minutes: 15, label: 'Every 15 minutes' },
+  { minutes: 60, label: 'Hourly' },
+  { minutes: 360, label: 'Every 6 hours' },
+  { minutes: 1440, label: 'Daily' },
+];
+
+const phaseLabels: Record<IngestProgress['phase'], string> = {
+  loading: 'Loading parser...',
+  reading: 'Reading file...',
+  downloading: 'Downloading...',
+  parsing: 'Parsing rows...',
+  converting: 'Converting workbook...',
+  combining: 'Combining sheets...',
+  profiling: 'Checking data quality...',
+  cleaning: 'Cleaning and formatting records...',
+  deduplicating: 'Matching against stored records...',
+};
+
+const UploadModal: React.FC<UploadModalProps> = ({ isOpen, onClose, onUploadComplete, domains, dataSources, onSaveDataSource, onDeleteDataSource, onDataSourcePulled }) => {
+  const [selectedDomain, setSelectedDomain] = useState(domains[0]?.name || '');
+  const [sourceType, setSourceType] = useState<'file' | 'url' | 'connector'>('file');
   const [file, setFile] = useState<File | null>(null);
-  const [url, setUrl] = useState('');
+  const [remoteConfig, setRemoteConfig] = useState<RemoteSourceConfig>(defaultRemoteConfig());
+  const [selectedSourceId, setSelectedSourceId] = useState(NEW_SOURCE);
+  const [sourceName, setSourceName] = useState('');
+  const [refreshMinutes, setRefreshMinutes] = useState<number | null>(null);
+  const [isSavingSource, setIsSavingSource] = useState(false);
+  const [connectorId, setConnectorId] = useState(CONNECTORS[0].id);
+  const [credentials, setCredentials] = useState<ConnectorCredentials>({});
+  const [connectorFrom, setConnectorFrom] = useState(() => istDayKey(new Date(Date.now() - DEFAULT_CONNECTOR_DAYS * 86_400_000)));
+  const [connectorTo, setConnectorTo] = useState(() => istDayKey(new Date()));
+  const [connectorReview, setConnectorReview] = useState<ConnectorReview | null>(null);
+  const connectorAbortRef = useRef<AbortController | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [progress, setProgress] = useState<IngestProgress | null>(null);
+  const [sheetChoice, setSheetChoice] = useState<SheetChoice | null>(null);
+  const [review, setReview] = useState<PendingReview | null>(null);
+  const [combined, setCombined] = useState<CombinedSource | null>(null);
+  const [qualityReport, setQualityReport] = useState<QualityReport | null>(null);
+  const sessionRef = useRef<IngestSession | null>(null);
+
+  const getSession = () => {
+    if (!sessionRef.current) sessionRef.current = createIngestSession(setProgress);
+    return sessionRef.current;
+  };
+
+  useEffect(() => () => sessionRef.current?.dispose(), []);
+
+  // Recombined and re-profiled in the worker on every mapping edit so the report always
+  // describes what will be saved
+  useEffect(() => {
+    if (!review) {
+      setCombined(null);
+      setQualityReport(null);
+      return;
+    }
+    let stale = false;
+    const session = getSession();
+    session.combine(review.sheets.map(({ name, mapping }) => ({ name, mapping })), review.mode)
+      .then(result => {
+        if (stale) return;
+        setCombined(result);
+        setError(null);
+        return session.qualityReport(result.mapping).then(report => { if (!stale) setQualityReport(report); });
+      })
+      .catch(err => {
+        if (stale || err instanceof IngestCancelledError) return;
+        setCombined(null);
+        setQualityReport(null);
+        setError(err.message);
+      });
+    return () => { stale = true; };
+  }, [review?.sheets, review?.mode]);
 
   const resetState = () => {
+    sessionRef.current?.dispose();
+    sessionRef.current = null;
     setFile(null);
-    setUrl('');
+    selectSavedSource(NEW_SOURCE);
     setIsLoading(false);
     setError(null);
     setStatusMessage(null);
-    setSelectedDomain(domains[0]);
+    setProgress(null);
+    setSheetChoice(null);
+    setReview(null);
+    setConnectorReview(null);
+    setCredentials({});
+    setSelectedDomain(domains[0]?.name || '');
   };
 
   const handleClose = () => {
@@ -36,183 +164,566 @@ const UploadModal: React.FC<UploadModalProps> = ({ isOpen, onClose, onUploadComp
     onClose();
   };
 
-  const processData = async (data: OrderData[], domain: string) => {
+  const stopLoading = () => {
+    setIsLoading(false);
+    setStatusMessage(null);
+    setProgress(null);
+  };
+
+  const handleCancel = () => {
+    // Terminates the worker; the pending call rejects with IngestCancelledError
+    sessionRef.current?.cancel();
+    sessionRef.current = null;
+    connectorAbortRef.current?.abort();
+    connectorAbortRef.current = null;
+    setSheetChoice(null);
+    setReview(null);
+    stopLoading();
+  };
+
+  const domainSources = dataSources.filter(source => source.domain === selectedDomain);
+  const savedSource = domainSources.find(source => source.id === selectedSourceId) || null;
+
+  const selectSavedSource = (id: string) => {
+    const source = dataSources.find(s => s.id === id);
+    setSelectedSourceId(source?.id || NEW_SOURCE);
+    setRemoteConfig(source ? source.config : defaultRemoteConfig());
+    setSourceName(source?.name || '');
+    setRefreshMinutes(source?.refreshMinutes ?? null);
+  };
+
+  const handleDomainChange = (domain: string) => {
+    setSelectedDomain(domain);
+    if (savedSource && savedSource.domain !== domain) selectSavedSource(NEW_SOURCE);
+  };
+
+  const handleSaveSource = async () => {
+    if (!sourceName.trim() || !remoteConfig.url) return;
+    setIsSavingSource(true);
+    setError(null);
     try {
-      if (!data || data.length === 0) {
-        throw new Error("The data source is empty. Please provide valid data.");
-      }
-      
-      const headers = Object.keys(data[0]);
-      setIsLoading(true);
-      setStatusMessage("AI is analyzing data structure...");
-      
-      const mapping = await analyzeCsvData(headers, data.slice(0, 5));
-      
-      setStatusMessage("Cleaning and formatting records...");
-      const numericMappingKeys: (keyof ColumnMapping)[] = ['quantity', 'price', 'revenue', 'discount'];
-      const columnsToSanitize = numericMappingKeys
-        .map(key => mapping[key])
-        .filter((colName): colName is string => !!colName);
-
-      const sanitizedData = data.map(row => {
-        const newRow = { ...row };
-        for (const colName of columnsToSanitize) {
-          const rawValue = newRow[colName];
-          if (rawValue === null || rawValue === undefined || String(rawValue).trim() === '') {
-            newRow[colName] = null;
-          } else {
-            const cleanedValue = String(rawValue).replace(/[^0-9.-]+/g, "");
-            const numericValue = parseFloat(cleanedValue);
-            newRow[colName] = isNaN(numericValue) ? null : numericValue;
-          }
-        }
-        return newRow;
+      const saved = await onSaveDataSource({
+        id: savedSource?.id ?? null,
+        name: sourceName.trim(),
+        domain: selectedDomain,
+        config: remoteConfig,
+        refreshMinutes,
+        lastPulledAt: savedSource?.lastPulledAt ?? null,
+        lastError: savedSource?.lastError ?? null,
       });
+      setSelectedSourceId(saved.id || NEW_SOURCE);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save the data source.');
+    } finally {
+      setIsSavingSource(false);
+    }
+  };
 
-      setStatusMessage("Finalizing upload...");
-      await onUploadComplete(domain, sanitizedData, mapping);
-      handleClose();
+  const handleDeleteSource = async () => {
+    if (!savedSource || !window.confirm(`Delete the saved source "${savedSource.name}"? Data already uploaded from it is kept.`)) return;
+    setIsSavingSource(true);
+    setError(null);
+    try {
+      await onDeleteDataSource(savedSource);
+      selectSavedSource(NEW_SOURCE);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete the data source.');
+    } finally {
+      setIsSavingSource(false);
+    }
+  };
 
+  const reviewSheets = async (domain: string, sourceName: string, sheets: SheetPreview[], mode: SheetCombineMode, dataSource: DataSource | null = null) => {
+    const defaultTemplate = domains.find(d => d.name === domain)?.defaultTemplate;
+    const reviewed: SheetReview[] = [];
+    // One at a time: each unknown layout may need its own AI call
+    for (const sheet of sheets) {
+      setStatusMessage(sheets.length > 1 ? `Matching layout of "${sheet.name}"...` : "Matching report layout...");
+      // The offline fallback sniffs value types, so give it more than the AI prompt needs
+      const resolved = await resolveMapping(sheet.headers, sheet.sample, defaultTemplate);
+      reviewed.push({ ...sheet, mapping: resolved.mapping, resolved });
+    }
+    // Nothing is written until the mapping has been reviewed
+    setReview({ domain, sourceName, sheets: reviewed, mode, activeSheet: 0, dataSource });
+  };
+
+  const loadSource = async (source: IngestSource, domain: string, sourceName: string, dataSource: DataSource | null = null) => {
+    setIsLoading(true);
+    setError(null);
+    setStatusMessage(null);
+    setProgress(null);
+    try {
+      const { sheets } = await getSession().load(source);
+      setProgress(null);
+      if (sheets.length > 1) {
+        setSheetChoice({ domain, sourceName, sheets, selected: [sheets[0].name], mode: 'append', previewSheet: sheets[0].name });
+      } else {
+        await reviewSheets(domain, sourceName, sheets, 'append', dataSource);
+      }
+      stopLoading();
     } catch (err: any) {
+      if (err instanceof IngestCancelledError) return;
       console.error("Processing Error:", err);
       setError(err.message || 'An unknown error occurred during analysis.');
-      setIsLoading(false);
-      setStatusMessage(null);
+      stopLoading();
     }
   };
 
-  const handleFile = (selectedFile: File, domain: string) => {
+  const confirmSheets = async () => {
+    if (!sheetChoice) return;
+    const { domain, sourceName, sheets, selected, mode } = sheetChoice;
     setIsLoading(true);
     setError(null);
-    setStatusMessage("Reading file binary...");
-
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      try {
-        const fileData = e.target?.result;
-        if (!fileData) throw new Error("Could not read file content.");
-
-        let jsonData: OrderData[];
-        const fileName = selectedFile.name.toLowerCase();
-
-        if (fileName.endsWith('.csv')) {
-          const results = window.Papa.parse(fileData as string, { header: true, skipEmptyLines: true });
-          if (results.errors.length) throw new Error(`CSV Error: ${results.errors[0].message}`);
-          jsonData = results.data as OrderData[];
-        } else if (fileName.endsWith('.xls') || fileName.endsWith('.xlsx')) {
-          const workbook = window.XLSX.read(fileData, { type: 'binary' });
-          const sheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[sheetName];
-          jsonData = window.XLSX.utils.sheet_to_json(worksheet, { cellDates: true }) as OrderData[];
-        } else {
-          throw new Error("Unsupported format. Use CSV or Excel.");
-        }
-        await processData(jsonData, domain);
-      } catch (err: any) {
-        setError(err.message);
-        setIsLoading(false);
-        setStatusMessage(null);
-      }
-    };
-    reader.onerror = () => {
-        setError("Disk read error.");
-        setIsLoading(false);
-    };
-
-    if (selectedFile.name.toLowerCase().endsWith('.csv')) {
-      reader.readAsText(selectedFile);
-    } else {
-      reader.readAsBinaryString(selectedFile);
+    try {
+      await reviewSheets(domain, sourceName, sheets.filter(sheet => selected.includes(sheet.name)), mode);
+      stopLoading();
+    } catch (err: any) {
+      console.error("Processing Error:", err);
+      setError(err.message || 'An unknown error occurred during analysis.');
+      stopLoading();
     }
   };
 
-  const handleUrl = async (sourceUrl: string, domain: string) => {
+  const toggleSheet = (name: string) => {
+    if (!sheetChoice) return;
+    const selected = sheetChoice.selected.includes(name)
+      ? sheetChoice.selected.filter(s => s !== name)
+      : sheetChoice.sheets.map(s => s.name).filter(s => s === name || sheetChoice.selected.includes(s));
+    setSheetChoice({ ...sheetChoice, selected, previewSheet: name });
+  };
+
+  const updateSheetMapping = (mapping: ColumnMapping) => {
+    if (!review) return;
+    setReview({ ...review, sheets: review.sheets.map((sheet, i) => i === review.activeSheet ? { ...sheet, mapping } : sheet) });
+  };
+
+  const confirmReview = async () => {
+    if (!review || !combined || !qualityReport) return;
+    const { domain, sourceName, sheets, dataSource } = review;
+    const sheetNames = sheets.map(sheet => sheet.name).filter(Boolean);
     setIsLoading(true);
     setError(null);
-    setStatusMessage(`Fetching remote data...`);
+    setProgress(null);
     try {
-      const response = await fetch(sourceUrl);
-      if (!response.ok) throw new Error(`Network Error: ${response.statusText}`);
-      const jsonData: OrderData[] = await response.json();
-      if (!Array.isArray(jsonData)) throw new Error("Remote data must be a JSON array.");
-      await processData(jsonData, domain);
+      const rows = await getSession().prepare(combined.mapping);
+      setProgress(null);
+      setStatusMessage("Finalizing upload...");
+      await onUploadComplete(domain, rows, combined.mapping, qualityReport, sheetNames.length ? `${sourceName} [${sheetNames.join(', ')}]` : sourceName);
     } catch (err: any) {
-      setError(err.message);
-      setIsLoading(false);
-      setStatusMessage(null);
+      if (err instanceof IngestCancelledError) return;
+      console.error("Upload Error:", err);
+      const message = err.message || 'An unknown error occurred during upload.';
+      // The pull ran but nothing landed, so the source's status says why
+      if (dataSource) await onDataSourcePulled(dataSource, message).catch(recordErr => console.warn('Could not record the pull', recordErr));
+      setError(message);
+      stopLoading();
+      return;
+    }
+    // Templates are per layout, so each sheet remembers its own mapping
+    for (const sheet of sheets) await rememberMapping(domain, sheet.resolved, sheet.headers, sheet.mapping);
+    if (dataSource) await onDataSourcePulled(dataSource, null).catch(err => console.warn('Could not record the pull', err));
+    stopLoading();
+    handleClose();
+  };
+
+  const pullFromConnector = async () => {
+    const connector = findConnector(connectorId);
+    if (!connector) return;
+    const controller = new AbortController();
+    connectorAbortRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    setStatusMessage(`Contacting ${connector.label}...`);
+    try {
+      // Whole IST days; the end is capped at now since the APIs reject ranges ending in the future
+      const range = {
+        start: `${connectorFrom}T00:00:00+05:30`,
+        end: toIstIsoString(new Date(Math.min(Date.now(), new Date(`${connectorTo}T23:59:59+05:30`).getTime()))),
+      };
+      const pulled = await connector.pullOrders(credentials, range, { signal: controller.signal, onProgress: setStatusMessage });
+      if (pulled.length === 0) throw new Error(`${connector.label} returned no orders between ${connectorFrom} and ${connectorTo}.`);
+      setConnectorReview({
+        domain: selectedDomain,
+        sourceName: `${connector.label} API, ${connectorFrom} to ${connectorTo}`,
+        rows: sanitizeUploadRows(pulled, connector.mapping),
+        mapping: connector.mapping,
+        qualityReport: buildQualityReport(pulled, connector.mapping),
+      });
+      stopLoading();
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      console.error("Connector Error:", err);
+      setError(err.message || `Could not pull orders from ${connector.label}.`);
+      stopLoading();
+    } finally {
+      if (connectorAbortRef.current === controller) connectorAbortRef.current = null;
+    }
+  };
+
+  const confirmConnectorReview = async () => {
+    if (!connectorReview) return;
+    const { domain, rows, mapping, qualityReport, sourceName } = connectorReview;
+    setIsLoading(true);
+    setError(null);
+    setStatusMessage("Finalizing upload...");
+    try {
+      // Merged through the same business-key dedup as file uploads, so re-pulling a range is safe
+      await onUploadComplete(domain, rows, mapping, qualityReport, sourceName);
+      stopLoading();
+      handleClose();
+    } catch (err: any) {
+      console.error("Upload Error:", err);
+      setError(err.message || 'An unknown error occurred during upload.');
+      stopLoading();
     }
   };
 
   const handleSubmit = () => {
+    if (sourceType === 'connector') {
+      pullFromConnector();
+      return;
+    }
     if (sourceType === 'file' && file) {
-      handleFile(file, selectedDomain);
-    } else if (sourceType === 'url' && url) {
-      handleUrl(url, selectedDomain);
+      loadSource({ kind: 'file', file }, selectedDomain, file.name);
+    } else if (sourceType === 'url' && remoteConfig.url) {
+      loadSource({ kind: 'url', config: remoteConfig }, selectedDomain, savedSource?.name || remoteConfig.url, savedSource);
     }
   };
 
+  const activeSheet = review?.sheets[review.activeSheet];
+  const previewSheet = sheetChoice?.sheets.find(sheet => sheet.name === sheetChoice.previewSheet);
+  const progressPercent = progress?.total ? Math.min(100, Math.round((progress.loaded || 0) / progress.total * 100)) : null;
+
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60">
-      <div className="relative w-full max-w-lg p-6 bg-gray-800 border border-gray-700 rounded-lg shadow-xl">
+      <div className={`relative w-full ${review || sheetChoice || connectorReview ? 'max-w-4xl' : 'max-w-lg'} max-h-[90vh] overflow-y-auto p-6 bg-gray-800 border border-gray-700 rounded-lg shadow-xl`}>
         <button onClick={handleClose} className="absolute top-4 right-4 text-gray-400 hover:text-white" disabled={isLoading}>
           <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
         </button>
-        <h2 className="text-2xl font-bold text-white mb-4">Import Sales Data</h2>
+        <h2 className="text-2xl font-bold text-white mb-4">{review ? 'Review Column Mapping' : sheetChoice ? 'Choose Sheets' : connectorReview ? 'Review Pulled Orders' : 'Import Sales Data'}</h2>
         <div className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-1">Target Domain</label>
-            <select
-              value={selectedDomain}
-              onChange={e => setSelectedDomain(e.target.value)}
-              disabled={isLoading}
-              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
-            >
-              {domains.map(d => <option key={d} value={d}>{d}</option>)}
-            </select>
-          </div>
-          <div>
-            <div className="flex border-b border-gray-600">
-              <button onClick={() => setSourceType('file')} disabled={isLoading} className={`flex-1 py-2 text-sm font-medium ${sourceType === 'file' ? 'text-blue-400 border-b-2 border-blue-400' : 'text-gray-400'}`}>File Upload</button>
-              <button onClick={() => setSourceType('url')} disabled={isLoading} className={`flex-1 py-2 text-sm font-medium ${sourceType === 'url' ? 'text-blue-400 border-b-2 border-blue-400' : 'text-gray-400'}`}>Remote URL</button>
+          {review && activeSheet ? (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-400">
+                Review how <span className="text-white font-semibold">{activeSheet.headers.length}</span> detected columns{activeSheet.name && <> of <span className="text-white font-semibold">{activeSheet.name}</span></>} map onto dashboard fields for <span className="text-white font-semibold">{domains.find(d => d.name === review.domain)?.label || review.domain}</span>. Nothing is saved until you confirm.
+              </p>
+              {review.sheets.length > 1 && (
+                <div className="flex flex-wrap gap-2">
+                  {review.sheets.map((sheet, i) => (
+                    <button
+                      key={sheet.name}
+                      onClick={() => setReview({ ...review, activeSheet: i })}
+                      disabled={isLoading}
+                      className={`px-3 py-1.5 text-xs font-medium rounded-md border ${i === review.activeSheet ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'}`}
+                    >
+                      {sheet.name} <span className="opacity-70">({sheet.rowCount.toLocaleString('en-IN')})</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+              {activeSheet.resolved.template && activeSheet.resolved.exact ? (
+                <p className="text-xs text-green-400">Known layout: matched saved {activeSheet.resolved.template.domain} template v{activeSheet.resolved.template.version}. No AI call was made.</p>
+              ) : activeSheet.resolved.template ? (
+                <p className="text-xs text-amber-400">New layout: started from the {activeSheet.resolved.template.domain} default template v{activeSheet.resolved.template.version}; columns this file lacks are unmapped. Confirming saves it as a template for future uploads.</p>
+              ) : (
+                <p className="text-xs text-amber-400">New layout: mapping suggested automatically (AI, or offline rules when AI is unavailable). Confirming saves it as a template for future uploads.</p>
+              )}
+              <MappingEditor
+                headers={activeSheet.headers}
+                sampleRows={activeSheet.sample}
+                mapping={activeSheet.mapping}
+                onChange={updateSheetMapping}
+                disabled={isLoading}
+              />
+              {review.sheets.length > 1 && (
+                <p className="text-xs text-gray-500">
+                  {review.mode === 'append'
+                    ? `Sheets are stacked; a "${SOURCE_SHEET_COLUMN}" column records where each row came from.`
+                    : `Later sheets are joined onto "${review.sheets[0].name}" by order ID (and SKU where both map it), filling only the cells it leaves empty.`}
+                  {' '}Where sheets map a field to differently named columns, the first sheet's column name is kept.
+                </p>
+              )}
+              {qualityReport ? <QualityReportPanel report={qualityReport} /> : combined && <p className="text-xs text-gray-500">Checking data quality across all {combined.rowCount.toLocaleString('en-IN')} rows...</p>}
             </div>
-          </div>
-          {sourceType === 'file' ? (
-            <div className="mt-4 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-600 border-dashed rounded-md">
-                <div className="space-y-1 text-center">
-                  <UploadIcon />
-                  <div className="flex text-sm text-gray-400">
-                    <label className="relative cursor-pointer bg-gray-800 rounded-md font-medium text-blue-500">
-                      <span>{file ? file.name : 'Choose file...'}</span>
-                      <input type="file" className="sr-only" accept=".csv,.xls,.xlsx" onChange={e => setFile(e.target.files?.[0] || null)} disabled={isLoading} />
-                    </label>
+          ) : sheetChoice ? (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-400">
+                <span className="text-white font-semibold">{sheetChoice.sourceName}</span> has {sheetChoice.sheets.length} sheets with data. Pick the ones to import; each gets its own column mapping.
+              </p>
+              <div className="border border-gray-700 rounded-lg divide-y divide-gray-700">
+                {sheetChoice.sheets.map(sheet => (
+                  <div key={sheet.name} className={`flex items-center gap-3 px-3 py-2 ${sheet.name === sheetChoice.previewSheet ? 'bg-gray-700/50' : ''}`}>
+                    <input
+                      type="checkbox"
+                      checked={sheetChoice.selected.includes(sheet.name)}
+                      onChange={() => toggleSheet(sheet.name)}
+                      disabled={isLoading}
+                      className="accent-blue-500"
+                    />
+                    <button onClick={() => setSheetChoice({ ...sheetChoice, previewSheet: sheet.name })} className="flex-1 text-left text-sm text-gray-200 hover:text-white">
+                      {sheet.name}
+                    </button>
+                    <span className="text-xs text-gray-500">{sheet.rowCount.toLocaleString('en-IN')} rows · {sheet.headers.length} columns</span>
                   </div>
+                ))}
+              </div>
+              {previewSheet && (
+                <div className="overflow-x-auto border border-gray-700 rounded-lg">
+                  <table className="min-w-full text-xs">
+                    <thead className="bg-gray-700/60">
+                      <tr>{previewSheet.headers.map(header => <th key={header} className="px-2 py-1.5 text-left font-semibold text-gray-300 whitespace-nowrap">{header}</th>)}</tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                      {previewSheet.sample.slice(0, PREVIEW_ROWS).map((row, i) => (
+                        <tr key={i}>{previewSheet.headers.map(header => <td key={header} className="px-2 py-1 text-gray-400 whitespace-nowrap max-w-[12rem] truncate">{row[header] instanceof Date ? (row[header] as Date).toLocaleDateString('en-IN') : String(row[header] ?? '')}</td>)}</tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
+              )}
+              {sheetChoice.selected.length > 1 && (
+                <div className="space-y-2">
+                  <label className="flex items-start gap-2 text-sm text-gray-300">
+                    <input type="radio" checked={sheetChoice.mode === 'append'} onChange={() => setSheetChoice({ ...sheetChoice, mode: 'append' })} disabled={isLoading} className="mt-1 accent-blue-500" />
+                    <span>Append rows<span className="block text-xs text-gray-500">Stack the sheets, adding a "{SOURCE_SHEET_COLUMN}" column.</span></span>
+                  </label>
+                  <label className="flex items-start gap-2 text-sm text-gray-300">
+                    <input type="radio" checked={sheetChoice.mode === 'join'} onChange={() => setSheetChoice({ ...sheetChoice, mode: 'join' })} disabled={isLoading} className="mt-1 accent-blue-500" />
+                    <span>Join on Order ID<span className="block text-xs text-gray-500">Enrich "{sheetChoice.selected[0]}" with matching rows from the other sheets, e.g. return or cancellation details.</span></span>
+                  </label>
+                </div>
+              )}
             </div>
-          ) : (
-            <div className="mt-4">
-              <input 
-                type="url"
-                value={url}
-                onChange={(e) => setUrl(e.target.value)}
-                disabled={isLoading}
-                placeholder="https://api.example.com/data.json"
-                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
-              />
+          ) : connectorReview ? (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-400">
+                Pulled <span className="text-white font-semibold">{connectorReview.rows.length.toLocaleString('en-IN')}</span> order lines ({connectorReview.sourceName}) for <span className="text-white font-semibold">{domains.find(d => d.name === connectorReview.domain)?.label || connectorReview.domain}</span>. They use the connector's built-in column mapping and are matched against stored orders before saving.
+              </p>
+              <QualityReportPanel report={connectorReview.qualityReport} />
             </div>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Target Domain</label>
+                <select
+                  value={selectedDomain}
+                  onChange={e => handleDomainChange(e.target.value)}
+                  disabled={isLoading}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                >
+                  {domains.map(d => <option key={d.name} value={d.name}>{d.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <div className="flex border-b border-gray-600">
+                  <button onClick={() => setSourceType('file')} disabled={isLoading} className={`flex-1 py-2 text-sm font-medium ${sourceType === 'file' ? 'text-blue-400 border-b-2 border-blue-400' : 'text-gray-400'}`}>File Upload</button>
+                  <button onClick={() => setSourceType('url')} disabled={isLoading} className={`flex-1 py-2 text-sm font-medium ${sourceType === 'url' ? 'text-blue-400 border-b-2 border-blue-400' : 'text-gray-400'}`}>Remote URL</button>
+                  <button onClick={() => setSourceType('connector')} disabled={isLoading} className={`flex-1 py-2 text-sm font-medium ${sourceType === 'connector' ? 'text-blue-400 border-b-2 border-blue-400' : 'text-gray-400'}`}>Marketplace API</button>
+                </div>
+              </div>
+              {sourceType === 'file' ? (
+                <div className="mt-4 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-600 border-dashed rounded-md">
+                    <div className="space-y-1 text-center">
+                      <UploadIcon />
+                      <div className="flex text-sm text-gray-400">
+                        <label className="relative cursor-pointer bg-gray-800 rounded-md font-medium text-blue-500">
+                          <span>{file ? file.name : 'Choose file...'}</span>
+                          <input type="file" className="sr-only" accept=".csv,.xls,.xlsx" onChange={e => setFile(e.target.files?.[0] || null)} disabled={isLoading} />
+                        </label>
+                      </div>
+                    </div>
+                </div>
+              ) : sourceType === 'connector' ? (
+                <div className="mt-4 space-y-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-400 mb-1">Connector</label>
+                    <select
+                      value={connectorId}
+                      onChange={e => { setConnectorId(e.target.value); setCredentials({}); }}
+                      disabled={isLoading}
+                      className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white"
+                    >
+                      {CONNECTORS.map(connector => <option key={connector.id} value={connector.id}>{connector.label}</option>)}
+                    </select>
+                  </div>
+                  {findConnector(connectorId)?.fields.map(field => (
+                    <div key={field.key}>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">{field.label}{field.optional && <span className="text-gray-500"> (optional)</span>}</label>
+                      <input
+                        type={field.secret ? 'password' : 'text'}
+                        value={credentials[field.key] || ''}
+                        onChange={e => setCredentials({ ...credentials, [field.key]: e.target.value })}
+                        disabled={isLoading}
+                        placeholder={field.placeholder}
+                        autoComplete="off"
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white font-mono"
+                      />
+                      {field.hint && <p className="text-xs text-gray-500 mt-1">{field.hint}</p>}
+                    </div>
+                  ))}
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Orders From</label>
+                      <input type="date" value={connectorFrom} max={connectorTo} onChange={e => setConnectorFrom(e.target.value)} disabled={isLoading} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white" />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Orders To</label>
+                      <input type="date" value={connectorTo} min={connectorFrom} onChange={e => setConnectorTo(e.target.value)} disabled={isLoading} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white" />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">Credentials are used for this pull only and are not stored.</p>
+                </div>
+              ) : (
+                <div className="mt-4 space-y-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-400 mb-1">Saved Source</label>
+                    <select
+                      value={selectedSourceId}
+                      onChange={e => selectSavedSource(e.target.value)}
+                      disabled={isLoading || isSavingSource}
+                      className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white"
+                    >
+                      <option value={NEW_SOURCE}>New URL</option>
+                      {domainSources.map(source => <option key={source.id} value={source.id!}>{source.name}</option>)}
+                    </select>
+                    {savedSource?.lastPulledAt && (
+                      <p className={`text-xs mt-1 ${savedSource.lastError ? 'text-red-400' : 'text-gray-500'}`}>
+                        Last pulled {new Date(savedSource.lastPulledAt).toLocaleString('en-IN')}{savedSource.lastError ? `: ${savedSource.lastError}` : ''}
+                      </p>
+                    )}
+                  </div>
+                  <RemoteSourceForm key={selectedSourceId} config={remoteConfig} onChange={setRemoteConfig} disabled={isLoading || isSavingSource} />
+                  <div className="border-t border-gray-700 pt-3 grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Source Name</label>
+                      <input
+                        value={sourceName}
+                        onChange={e => setSourceName(e.target.value)}
+                        disabled={isLoading || isSavingSource}
+                        placeholder="e.g. Shopify orders feed"
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Refresh</label>
+                      <select
+                        value={refreshMinutes ?? ''}
+                        onChange={e => setRefreshMinutes(e.target.value ? Number(e.target.value) : null)}
+                        disabled={isLoading || isSavingSource}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white"
+                      >
+                        {REFRESH_OPTIONS.map(option => <option key={option.label} value={option.minutes ?? ''}>{option.label}</option>)}
+                      </select>
+                    </div>
+                    <p className="col-span-2 text-xs text-gray-500">Scheduled pulls run while the dashboard is open and reuse the mapping confirmed on the last manual pull.</p>
+                    <div className="col-span-2 flex gap-2">
+                      {savedSource && (
+                        <button onClick={handleDeleteSource} disabled={isLoading || isSavingSource} className="px-3 py-2 text-xs font-semibold text-red-400 border border-red-500/30 rounded-lg hover:bg-red-500/10 disabled:opacity-50">
+                          Delete Source
+                        </button>
+                      )}
+                      <button onClick={handleSaveSource} disabled={isLoading || isSavingSource || !sourceName.trim() || !remoteConfig.url} className="flex-1 px-3 py-2 text-xs font-semibold text-gray-200 bg-gray-600 rounded-lg hover:bg-gray-500 disabled:opacity-50">
+                        {isSavingSource ? 'Saving...' : savedSource ? 'Update Saved Source' : 'Save as Data Source'}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </>
           )}
           {error && <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-lg text-xs text-red-400 mt-4 leading-relaxed">{error}</div>}
           {statusMessage && <div className="flex items-center gap-3 justify-center text-sm text-blue-400 mt-4"><div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>{statusMessage}</div>}
+          {isLoading && progress && (
+            <div className="mt-4 space-y-2">
+              <div className="flex justify-between text-xs text-gray-400">
+                <span>{phaseLabels[progress.phase]}</span>
+                <span>
+                  {progress.rows > 0 && `${progress.rows.toLocaleString('en-IN')} rows`}
+                  {progress.rows > 0 && progressPercent !== null && ' · '}
+                  {progressPercent !== null && `${progressPercent}%`}
+                </span>
+              </div>
+              <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                {progressPercent !== null
+                  ? <div className="h-full bg-blue-500 transition-all duration-150" style={{ width: `${progressPercent}%` }} />
+                  : <div className="h-full w-1/3 bg-blue-500/60 animate-pulse" />}
+              </div>
+            </div>
+          )}
         </div>
         <div className="mt-6">
-          <button
-            onClick={handleSubmit}
-            disabled={isLoading || (!file && !url)}
-            className="w-full px-4 py-3 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-600 transition-all"
-          >
-            {isLoading ? 'Processing...' : 'Process & Analyze Data'}
-          </button>
+          {review ? (
+            <div className="flex gap-3">
+              <button
+                onClick={isLoading && progress ? handleCancel : () => { setReview(null); setError(null); }}
+                disabled={isLoading && !progress}
+                className="px-4 py-3 font-semibold text-gray-200 bg-gray-600 rounded-lg hover:bg-gray-500 disabled:opacity-50 transition-all"
+              >
+                {isLoading && progress ? 'Cancel' : 'Back'}
+              </button>
+              <button
+                onClick={confirmReview}
+                disabled={isLoading || !combined || !qualityReport}
+                className="flex-1 px-4 py-3 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-600 transition-all"
+              >
+                {isLoading ? 'Uploading...' : combined ? `Confirm Mapping & Upload ${combined.rowCount.toLocaleString('en-IN')} Rows` : 'Confirm Mapping & Upload'}
+              </button>
+            </div>
+          ) : sheetChoice ? (
+            <div className="flex gap-3">
+              <button
+                onClick={() => { setSheetChoice(null); setError(null); }}
+                disabled={isLoading}
+                className="px-4 py-3 font-semibold text-gray-200 bg-gray-600 rounded-lg hover:bg-gray-500 disabled:opacity-50 transition-all"
+              >
+                Back
+              </button>
+              <button
+                onClick={confirmSheets}
+                disabled={isLoading || sheetChoice.selected.length === 0}
+                className="flex-1 px-4 py-3 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-600 transition-all"
+              >
+                {isLoading ? 'Matching...' : `Map ${sheetChoice.selected.length} Sheet${sheetChoice.selected.length === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          ) : connectorReview ? (
+            <div className="flex gap-3">
+              <button
+                onClick={() => { setConnectorReview(null); setError(null); }}
+                disabled={isLoading}
+                className="px-4 py-3 font-semibold text-gray-200 bg-gray-600 rounded-lg hover:bg-gray-500 disabled:opacity-50 transition-all"
+              >
+                Back
+              </button>
+              <button
+                onClick={confirmConnectorReview}
+                disabled={isLoading}
+                className="flex-1 px-4 py-3 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-600 transition-all"
+              >
+                {isLoading ? 'Uploading...' : `Upload ${connectorReview.rows.length.toLocaleString('en-IN')} Order Lines`}
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-3">
+              {isLoading && (progress || connectorAbortRef.current) && (
+                <button
+                  onClick={handleCancel}
+                  className="px-4 py-3 font-semibold text-gray-200 bg-gray-600 rounded-lg hover:bg-gray-500 transition-all"
+                >
+                  Cancel
+                </button>
+              )}
+              <button
+                onClick={handleSubmit}
+                disabled={isLoading || (sourceType === 'file' ? !file : sourceType === 'url' ? !remoteConfig.url : !connectorFrom || !connectorTo)}
+                className="flex-1 px-4 py-3 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-600 transition-all"
+              >
+                {isLoading ? 'Processing...' : sourceType === 'connector' ? 'Pull Orders' : sourceType === 'url' && savedSource ? 'Pull Now & Analyze' : 'Process & Analyze Data'}
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -3,10 +3,11 @@ import {
   BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, LabelList, 
   PieChart, Pie, Cell, Legend, AreaChart, Area, ComposedChart, Line 
 } from 'recharts';
+import { currencyLabel } from '../../utils/domains';
 
-const CustomTooltip = ({ active, payload, label, valueFormatter, isCurrency = false }: any) => {
+const CustomTooltip = ({ active, payload, label, valueFormatter, isCurrency = false, currency = 'INR' }: any) => {
     if (active && payload && payload.length) {
-        const value = isCurrency ? `Rs. ${payload[0].value.toLocaleString('en-IN')}` : payload[0].value.toLocaleString('en-IN');
+        const value = isCurrency ? `${currencyLabel(currency)} ${payload[0].value.toLocaleString('en-IN')}` : payload[0].value.toLocaleString('en-IN');
         return (
             <div className="bg-slate-950 p-4 border border-slate-700 rounded-2xl shadow-2xl">
                 <p className="text-slate-500 text-[10px] uppercase font-bold tracking-widest mb-1">{payload[0].payload.name}</p>
@@ -25,12 +26,14 @@ interface GenericBarChartProps {
   color: string;
   layout?: 'horizontal' | 'vertical';
   formatAsCurrency?: boolean;
+  currency?: string;
+  onSelect?: (name: string) => void;  // makes bars clickable, e.g. to drill into a value
 }
 
-export const GenericBarChart: React.FC<GenericBarChartProps> = ({ data, title, dataKey, color, layout = 'vertical', formatAsCurrency = false }) => {
+export const GenericBarChart: React.FC<GenericBarChartProps> = ({ data, title, dataKey, color, layout = 'vertical', formatAsCurrency = false, currency = 'INR', onSelect }) => {
   if (!BarChart || !data || !data.length) return <div className="text-center text-slate-500 py-12 font-bold uppercase tracking-widest text-xs">No data for {title}.</div>;
   
-  const valueFormatter = (value: any) => formatAsCurrency ? `Rs. ${Number(value).toLocaleString('en-IN')}` : Number(value).toLocaleString('en-IN');
+  const valueFormatter = (value: any) => formatAsCurrency ? `${currencyLabel(currency)} ${Number(value).toLocaleString('en-IN')}` : Number(value).toLocaleString('en-IN');
 
   return (
     <div className="w-full">
@@ -50,8 +53,12 @@ export const GenericBarChart: React.FC<GenericBarChartProps> = ({ data, title, d
                     <YAxis type="number" stroke="#475569" tick={{ fill: '#475569', fontSize: 10, fontWeight: 700 }} tickFormatter={valueFormatter} axisLine={false} tickLine={false} />
                 </>
             )}
-            <Tooltip cursor={{ fill: 'rgba(255, 255, 255, 0.05)' }} content={<CustomTooltip isCurrency={formatAsCurrency} />} />
-            <Bar dataKey={dataKey} fill={color} radius={[0, 8, 8, 0]} barSize={20}>
+            <Tooltip cursor={{ fill: 'rgba(255, 255, 255, 0.05)' }} content={<CustomTooltip isCurrency={formatAsCurrency} currency={currency} />} />
+            <Bar
+              dataKey={dataKey} fill={color} radius={[0, 8, 8, 0]} barSize={20}
+              cursor={onSelect ? 'pointer' : undefined}
+              onClick={onSelect ? (entry) => onSelect(String(entry.payload.name)) : undefined}
+            >
                <LabelList dataKey={dataKey} position={layout === 'vertical' ? 'right' : 'top'} formatter={valueFormatter} style={{ fill: '#94a3b8', fontSize: 10, fontWeight: 700 }} />
             </Bar>
           </BarChart>
@@ -65,15 +72,16 @@ export const GenericBarChart: React.FC<GenericBarChartProps> = ({ data, title, d
 interface GenericPieChartProps {
     data: any[],
     title: string;
+    onSelect?: (name: string) => void;  // the grouped "Others" slice is not selectable
 }
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4'];
-export const GenericPieChart: React.FC<GenericPieChartProps> = ({ data, title }) => {
+export const GenericPieChart: React.FC<GenericPieChartProps> = ({ data, title, onSelect }) => {
     if (!PieChart || !data || !data.length) return <div className="text-center text-slate-500 py-12 font-bold uppercase tracking-widest text-xs">No data for {title}.</div>;
 
     const topData = data.slice(0, 5);
     if (data.length > 5) {
         const otherValue = data.slice(5).reduce((acc, item) => acc + item.value, 0);
-        topData.push({ name: 'Others', value: otherValue });
+        topData.push({ name: 'Others', value: otherValue, isOthers: true });
     }
 
     return (
@@ -92,8 +100,11 @@ export const GenericPieChart: React.FC<GenericPieChartProps> = ({ data, title })
                           outerRadius={120} 
                           paddingAngle={5}
                           stroke="none"
+                          onClick={onSelect ? (entry) => { if (!entry.payload.isOthers) onSelect(String(entry.payload.name)); } : undefined}
                         >
-                            {topData.map((entry, index) => <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />)}
+                            {topData.map((entry, index) => (
+                              <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} cursor={onSelect && !entry.isOthers ? 'pointer' : undefined} />
+                            ))}
                         </Pie>
                         <Tooltip content={<CustomTooltip />} />
                         <Legend verticalAlign="bottom" height={36} iconType="circle" />
@@ -106,17 +117,53 @@ export const GenericPieChart: React.FC<GenericPieChartProps> = ({ data, title })
 
 
 // --- Daily Trend Chart ---
+const TrendTooltip = ({ active, payload, isCurrency = false, isPercent = false, currency = 'INR' }: any) => {
+    if (active && payload && payload.length) {
+        const format = (value: number) => {
+            if (isPercent) return `${value.toFixed(1)}%`;
+            const rounded = Math.round(value).toLocaleString('en-IN');
+            return isCurrency ? `${currencyLabel(currency)} ${rounded}` : rounded;
+        };
+        return (
+            <div className="bg-slate-950 p-4 border border-slate-700 rounded-2xl shadow-2xl space-y-1">
+                <p className="text-slate-500 text-[10px] uppercase font-bold tracking-widest mb-1">{payload[0].payload.label}</p>
+                {payload.map((entry: any) => (
+                    <p key={entry.dataKey} className="text-white text-sm font-black">
+                        <span style={{ color: entry.stroke }}>{entry.name}: </span>{format(Number(entry.value))}
+                    </p>
+                ))}
+            </div>
+        );
+    }
+    return null;
+};
+
 interface DailyTrendChartProps {
-    data: any[];
+    data: any[];               // points need a `label` for the axis and tooltip
     title: string;
     dataKey: string;
     color: string;
+    seriesLabel?: string;
+    comparisonKey?: string;    // overlays a dashed comparison series from the same rows
+    comparisonLabel?: string;
+    averageKey?: string;       // overlays a moving-average line
+    averageLabel?: string;
+    formatAsCurrency?: boolean;
+    formatAsPercent?: boolean;
+    currency?: string;
+    controls?: React.ReactNode;
 }
-export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({ data, title, dataKey, color }) => {
+export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({
+  data, title, dataKey, color, seriesLabel = 'Current', comparisonKey, comparisonLabel = 'Comparison',
+  averageKey, averageLabel = 'Moving Average', formatAsCurrency = false, formatAsPercent = false, currency = 'INR', controls,
+}) => {
   if (!AreaChart || !data || !data.length) return <div className="text-center text-slate-500 py-12 font-bold uppercase tracking-widest text-xs">No data for {title}.</div>;
   return (
     <div className="w-full">
-      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-6">{title}</h3>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest">{title}</h3>
+        {controls}
+      </div>
       <div style={{ width: '100%', height: 350 }}>
         <ResponsiveContainer>
           <AreaChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
@@ -127,10 +174,17 @@ export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({ data, title, d
               </linearGradient>
             </defs>
             <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
-            <XAxis dataKey="date" stroke="#475569" tickFormatter={(d) => new Date(d).toLocaleDateString('en-US', {month: 'short', day: 'numeric'})} tick={{ fill: '#475569', fontSize: 10, fontWeight: 700 }} axisLine={false} tickLine={false} />
-            <YAxis stroke="#475569" tick={{ fill: '#475569', fontSize: 10, fontWeight: 700 }} axisLine={false} tickLine={false} />
-            <Tooltip content={<CustomTooltip />} />
-            <Area type="monotone" dataKey={dataKey} stroke={color} strokeWidth={3} fillOpacity={1} fill={`url(#color-${dataKey})`} />
+            <XAxis dataKey="label" stroke="#475569" tick={{ fill: '#475569', fontSize: 10, fontWeight: 700 }} axisLine={false} tickLine={false} minTickGap={24} />
+            <YAxis stroke="#475569" tick={{ fill: '#475569', fontSize: 10, fontWeight: 700 }} tickFormatter={(v) => formatAsPercent ? `${v}%` : Number(v).toLocaleString('en-IN')} axisLine={false} tickLine={false} />
+            <Tooltip content={<TrendTooltip isCurrency={formatAsCurrency} isPercent={formatAsPercent} currency={currency} />} />
+            {(comparisonKey || averageKey) && <Legend verticalAlign="top" iconType="circle" />}
+            <Area type="monotone" dataKey={dataKey} name={seriesLabel} stroke={color} strokeWidth={3} fillOpacity={1} fill={`url(#color-${dataKey})`} />
+            {comparisonKey && (
+              <Area type="monotone" dataKey={comparisonKey} name={comparisonLabel} stroke="#94a3b8" strokeWidth={2} strokeDasharray="6 4" fill="none" />
+            )}
+            {averageKey && (
+              <Area type="monotone" dataKey={averageKey} name={averageLabel} stroke="#f59e0b" strokeWidth={2} fill="none" dot={false} />
+            )}
           </AreaChart>
         </ResponsiveContainer>
       </div>
@@ -142,8 +196,9 @@ export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({ data, title, d
 interface DiscountRevenueChartProps {
     data: any[],
     title: string;
+    currency?: string;
 }
-export const DiscountRevenueChart: React.FC<DiscountRevenueChartProps> = ({ data, title }) => {
+export const DiscountRevenueChart: React.FC<DiscountRevenueChartProps> = ({ data, title, currency = 'INR' }) => {
   if (!ComposedChart || !data || !data.length) return <div className="text-center text-slate-500 py-12 font-bold uppercase tracking-widest text-xs">No data for {title}.</div>;
   return (
     <div className="w-full">
@@ -153,7 +208,7 @@ export const DiscountRevenueChart: React.FC<DiscountRevenueChartProps> = ({ data
           <ComposedChart data={data} margin={{top: 20, right: 20, bottom: 80, left: 20}}>
             <CartesianGrid stroke="#1e293b" strokeDasharray="3 3" vertical={false} />
             <XAxis dataKey="name" tick={{ fill: '#94a3b8', fontSize: 10, fontWeight: 600 }} angle={-45} textAnchor="end" interval={0} axisLine={false} tickLine={false} />
-            <YAxis yAxisId="left" orientation="left" stroke="#3b82f6" tick={{ fill: '#475569', fontSize: 10, fontWeight: 700 }} tickFormatter={(v) => `Rs. ${(v/1000).toFixed(0)}k`} axisLine={false} tickLine={false} />
+            <YAxis yAxisId="left" orientation="left" stroke="#3b82f6" tick={{ fill: '#475569', fontSize: 10, fontWeight: 700 }} tickFormatter={(v) => `${currencyLabel(currency)} ${(v/1000).toFixed(0)}k`} axisLine={false} tickLine={false} />
             <YAxis yAxisId="right" orientation="right" stroke="#10b981" tick={{ fill: '#475569', fontSize: 10, fontWeight: 700 }} tickFormatter={(v) => `${v.toFixed(1)}%`} axisLine={false} tickLine={false} />
             <Tooltip content={<CustomTooltip />} />
             <Legend verticalAlign="top" iconType="circle" />
@@ -164,4 +219,48 @@ export const DiscountRevenueChart: React.FC<DiscountRevenueChartProps> = ({ data
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+// --- Waterfall Chart ---
+const WaterfallTooltip = ({ active, payload, currency = 'INR' }: any) => {
+    if (active && payload && payload.length) {
+        const step = payload[0].payload;
+        return (
+            <div className="bg-slate-950 p-4 border border-slate-700 rounded-2xl shadow-2xl">
+                <p className="text-slate-500 text-[10px] uppercase font-bold tracking-widest mb-1">{step.name}</p>
+                <p className="text-white text-lg font-black">{`${currencyLabel(currency)} ${Math.round(step.value).toLocaleString('en-IN')}`}</p>
+            </div>
+        );
+    }
+    return null;
+};
+
+interface WaterfallChartProps {
+    data: { name: string; value: number; range: [number, number]; kind: 'total' | 'deduction' }[];
+    title: string;
+    currency?: string;
+}
+export const WaterfallChart: React.FC<WaterfallChartProps> = ({ data, title, currency = 'INR' }) => {
+  if (!BarChart || !data || !data.length) return <div className="text-center text-slate-500 py-12 font-bold uppercase tracking-widest text-xs">No data for {title}.</div>;
+  const valueFormatter = (value: any) => `${currencyLabel(currency)} ${Math.round(Number(value)).toLocaleString('en-IN')}`;
+  return (
+    <div className="w-full">
+      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-6">{title}</h3>
+      <div style={{ width: '100%', height: 400 }}>
+        <ResponsiveContainer>
+          <BarChart data={data} margin={{ top: 20, right: 20, left: 20, bottom: 40 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+            <XAxis dataKey="name" type="category" stroke="#475569" tick={{ fill: '#94a3b8', fontSize: 11, fontWeight: 600 }} interval={0} angle={-20} textAnchor="end" height={60} axisLine={false} tickLine={false} />
+            <YAxis type="number" stroke="#475569" tick={{ fill: '#475569', fontSize: 10, fontWeight: 700 }} tickFormatter={(v) => `${currencyLabel(currency)} ${(v/1000).toFixed(0)}k`} axisLine={false} tickLine={false} />
+            <Tooltip cursor={{ fill: 'rgba(255, 255, 255, 0.05)' }} content={<WaterfallTooltip currency={currency} />} />
+            <Bar dataKey="range" radius={[4, 4, 4, 4]} barSize={40}>
+              {data.map((step, index) => (
+                <Cell key={`cell-${index}`} fill={step.kind === 'total' ? '#3b82f6' : '#ef4444'} />
+              ))}
+              <LabelList dataKey="value" position="top" formatter={valueFormatter} style={{ fill: '#94a3b8', fontSize: 10, fontWeight: 700 }} />
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
@@ -1,234 +1,257 @@
 import { useMemo } from 'react';
-import { DomainData, DateRange, OrderData, ColumnMapping, Kpi } from '../types';
+import { DomainData, DateRange, OrderData, Kpi, ProfitabilitySettings, ProductCost, DeliverySla } from '../types';
+import { DailyTotals, DimensionField, DimensionFilter, FILTER_FIELDS, MarginTotals, TatTotals, aggregate, getColumnarData, rankGroups, selectRows } from '../utils/columnar';
+import { istDayKey, parseDate } from '../utils/dates';
+import { DayTotals, TrendDay, addDayTotals, emptyDayTotals } from '../utils/trend';
+import { computeKpis } from '../utils/metrics';
+import { WaterfallStep, profitAndLoss, waterfallSteps } from '../utils/profitability';
+import { DEFAULT_DELIVERY_SLA, DEFAULT_PROFITABILITY } from '../utils/domains';
+import { rowUnitCosts } from '../utils/costs';
+import { MAX_TAT_DAYS, MIN_DELIVERED_FOR_TAT, TAT_BUCKETS, histogramPercentile, rowSlaDays, tatBucket } from '../utils/fulfilment';
+import { MIN_SHIPPED_FOR_RATE, RETURN_FIELDS, RETURN_LAG_BUCKETS, ReturnField } from '../utils/returns';
 
-const formatCurrency = (value: number) => {
-    return value.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+export interface ReturnRate {
+  name: string;
+  value: number;      // returned lines as a percentage of shipped lines
+  returned: number;
+  shipped: number;
+}
+
+export interface BelowCostSku {
+  name: string;
+  units: number;
+  avgPrice: number;   // net sales per unit, after discount
+  unitCost: number;   // average cost per unit over the same lines
+  loss: number;
+}
+
+export interface DeliveryTat {
+  name: string;
+  delivered: number;
+  median: number;     // days from order to delivery
+  p90: number;
+  onTimeRate: number; // percent of delivered lines within SLA
+}
+
+export interface CourierScore extends DeliveryTat {
+  shipped: number;    // lines that were not cancelled
+  rtoRate: number;    // percent of shipped lines returned to origin
+}
+
+const dayTotals = (daily: DailyTotals, code: number): DayTotals => ({
+  orders: daily.orders[code], gmv: daily.gmv[code], netSales: daily.netSales[code], units: daily.units[code],
+  cancelled: daily.cancelled[code], returns: daily.returns[code], rto: daily.rto[code],
+});
+
+// Gross margin per value, over the costed lines only
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0);
+
+// TAT per value with enough delivered lines to read percentiles from, most deliveries first
+const tatRanking = (values: string[] | undefined, tat: TatTotals | undefined): DeliveryTat[] => {
+  if (!values || !tat) return [];
+  return values
+    .map((name, code) => ({ name, code, delivered: tat.delivered[code] }))
+    .filter(entry => entry.delivered >= MIN_DELIVERED_FOR_TAT)
+    .map(({ name, code, delivered }) => {
+      const offset = code * (MAX_TAT_DAYS + 1);
+      return {
+        name, delivered,
+        median: Math.round((histogramPercentile(tat.days, offset, 50) ?? 0) * 10) / 10,
+        p90: Math.round((histogramPercentile(tat.days, offset, 90) ?? 0) * 10) / 10,
+        onTimeRate: percent(tat.onTime[code], delivered),
+      };
+    })
+    .sort((a, b) => b.delivered - a.delivered);
 };
-const formatNumber = (value: number) => value.toLocaleString('en-IN');
 
-const getRevenue = (item: OrderData, mapping: ColumnMapping): number => {
-    if (mapping.revenue) {
-        return Number(item[mapping.revenue]!) || 0;
-    }
-    if (mapping.price && mapping.quantity) {
-        const quantity = Number(item[mapping.quantity]!) || 0;
-        const price = Number(item[mapping.price]!) || 0;
-        return quantity * price;
-    }
-    return 0;
+const marginRanking = (values: string[] | undefined, margins: MarginTotals | undefined, limit: number) => {
+  if (!values || !margins) return [];
+  return values
+    .map((name, code) => ({ name, value: margins.sales[code] - margins.cogs[code], units: margins.units[code] }))
+    .filter(entry => entry.units > 0)
+    .map(({ name, value }) => ({ name, value }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, limit);
 };
 
-function parseDate(dateValue: any): Date | null {
-    if (!dateValue) return null;
-    if (dateValue instanceof Date && !isNaN(dateValue.getTime())) return dateValue;
-    let date = new Date(dateValue);
-    if (!isNaN(date.getTime())) return date;
-    const s = String(dateValue);
-    const parts = s.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{2,4})$/);
-    if (parts) {
-        const day = parseInt(parts[1], 10);
-        const month = parseInt(parts[2], 10);
-        let year = parseInt(parts[3], 10);
-        if (year < 100) year += 2000;
-        date = new Date(Date.UTC(year, month - 1, day));
-        if (!isNaN(date.getTime())) return date;
-    }
-    return null;
-}
+export const useDashboardData = (
+  domainData: DomainData | null, dateRange: DateRange, filters: DimensionFilter[],
+  comparisonRange: DateRange | null = null, profitability: ProfitabilitySettings = DEFAULT_PROFITABILITY,
+  costs: ProductCost[] = [], deliverySla: DeliverySla = DEFAULT_DELIVERY_SLA,
+) => {
+  // Encoded once per data set and shared across filter changes and pages
+  const columns = useMemo(() => {
+    if (!domainData?.data || !domainData.mapping) return null;
+    return getColumnarData(domainData.data, domainData.mapping);
+  }, [domainData]);
 
-export const useDashboardData = (domainData: DomainData | null, dateRange: DateRange, selectedBrand: string) => {
-  const availableBrands = useMemo(() => {
-    if (!domainData?.data || !domainData.mapping?.brand) return [];
-    const brandSet = new Set<string>();
-    const { data, mapping } = domainData;
-    data.forEach(item => {
-      const brand = item[mapping.brand!];
-      if (brand) brandSet.add(String(brand));
+  // Filterable values of every mapped dimension, across the whole data set
+  const dimensionValues = useMemo(() => {
+    const values: Partial<Record<DimensionField, string[]>> = {};
+    FILTER_FIELDS.forEach(field => {
+      const dimension = columns?.dimensions[field];
+      if (dimension?.values.length) values[field] = [...dimension.values].sort((a, b) => a.localeCompare(b));
     });
-    return Array.from(brandSet).sort();
-  }, [domainData]);
-  
-  const filteredData = useMemo(() => {
-    if (!domainData?.data || !domainData?.mapping) return [];
-    let data = domainData.data;
-    const { mapping } = domainData;
-
-    if (mapping.brand && selectedBrand !== 'All Brands') {
-      data = data.filter(order => String(order[mapping.brand!]) === selectedBrand);
-    }
+    return values;
+  }, [columns]);
+
+  const selection = useMemo(() => {
+    if (!columns) return null;
+    return selectRows(columns, { start: dateRange.start, end: dateRange.end, dimensions: filters });
+  }, [columns, dateRange, filters]);
+
+  const filteredData = useMemo((): OrderData[] => {
+    if (!columns) return [];
+    return selection ? Array.from(selection, i => columns.rows[i]) : columns.rows;
+  }, [columns, selection]);
 
-    if (!mapping.date || (!dateRange.start && !dateRange.end)) return data;
-    
-    if (dateRange.start && dateRange.end) {
-        const startTime = dateRange.start.getTime();
-        const endTime = dateRange.end.getTime();
-        return data.filter(order => {
-          const orderDate = parseDate(order[mapping.date!]);
-          if (!orderDate) return false;
-          const time = orderDate.getTime();
-          return time >= startTime && time <= endTime;
-        });
+  // Costed once per data set and cost master, like the columns themselves
+  const unitCosts = useMemo(
+    () => (columns?.mapping.sku && costs.length ? rowUnitCosts(columns, costs) : null),
+    [columns, costs],
+  );
+
+  const slaDays = useMemo(() => (columns ? rowSlaDays(columns, deliverySla) : null), [columns, deliverySla]);
+
+  const totals = useMemo(
+    () => (columns ? aggregate(columns, selection, profitability.revenueBasis, unitCosts, slaDays) : null),
+    [columns, selection, profitability.revenueBasis, unitCosts, slaDays],
+  );
+
+  // The comparison period goes through the same dimension filters as the current one
+  const comparisonTotals = useMemo(() => {
+    if (!columns?.mapping.date || !comparisonRange?.start || !comparisonRange.end) return null;
+    const comparisonRows = selectRows(columns, { start: comparisonRange.start, end: comparisonRange.end, dimensions: filters });
+    return aggregate(columns, comparisonRows, profitability.revenueBasis, unitCosts, slaDays);
+  }, [columns, comparisonRange, filters, profitability.revenueBasis, unitCosts, slaDays]);
+
+  return useMemo(() => {
+    if (!columns || !totals || totals.lines === 0) {
+      return {
+        kpis: [] as Kpi[], waterfall: [] as WaterfallStep[], filteredData, dimensionValues,
+        topBrandsByRevenue: [], topCancellationReasons: [], orderStatusDistribution: [],
+        courierUsageShare: [], dailyTotals: [] as TrendDay[], topCitiesByOrderCount: [],
+        topSkusByOrders: [], topArticleTypesByOrders: [], discountVsRevenue: [],
+        orderCountByState: [], topCitiesByRevenue: [],
+        marginByBrand: [], marginByArticleType: [], belowCostSkus: [] as BelowCostSku[],
+        returnSplit: [], returnRateBy: {} as Partial<Record<ReturnField, ReturnRate[]>>, returnReasons: [], returnLagDistribution: [],
+        tatDistribution: [], courierScorecard: [] as CourierScore[], tatByState: [] as DeliveryTat[], cancellationTiming: [],
+        topItems: [], brandDistribution: [], topCities: [],
+      };
     }
-    return data;
-  }, [domainData, dateRange, selectedBrand]);
-
-    const { returnCount, returnTotalValue } = useMemo(() => {
-        const mapping = domainData?.mapping;
-        if (!filteredData.length || !mapping?.returnDate) {
-            return { returnCount: 0, returnTotalValue: 0 };
-        }
-
-        const returnRows = filteredData.filter(d => {
-            const val = d[mapping.returnDate!];
-            return val !== null && val !== undefined && String(val).trim() !== '';
-        });
-        
-        const totalValue = returnRows.reduce((acc, order) => acc + getRevenue(order, mapping!), 0);
-
-        return { returnCount: returnRows.length, returnTotalValue: totalValue };
-    }, [filteredData, domainData?.mapping]);
-
-    const totalCustomers = useMemo(() => {
-        const mapping = domainData?.mapping;
-        if (!filteredData.length || !mapping?.customer) return 0;
-        return filteredData.filter(order => {
-            const customer = order[mapping.customer!];
-            return customer !== null && customer !== undefined && String(customer).trim() !== '';
-        }).length;
-    }, [filteredData, domainData?.mapping]);
-
-    const totalOrdersCount = useMemo(() => {
-        const mapping = domainData?.mapping;
-        if (!filteredData.length) return 0;
-        if (mapping?.orderId) {
-            const orderIdSet = new Set<string | number | null>();
-            filteredData.forEach(order => {
-                const id = order[mapping.orderId!];
-                if (id !== null && id !== undefined && String(id).trim() !== '') {
-                    orderIdSet.add(id);
-                }
-            });
-            return orderIdSet.size > 0 ? orderIdSet.size : filteredData.length;
-        }
-        return filteredData.length;
-    }, [filteredData, domainData?.mapping]);
-
-  const kpis = useMemo((): Kpi[] => {
-    const mapping = domainData?.mapping;
-    if (!filteredData.length || !mapping) return [];
-    
-    const totalRevenue = filteredData.reduce((acc, order) => acc + getRevenue(order, mapping), 0);
-    
-    const deliveredOrders = mapping.deliveredDate ? filteredData.filter(d => {
-        const val = d[mapping.deliveredDate!];
-        return val !== null && val !== undefined && String(val).trim() !== '';
-    }).length : 0;
-
-    const cancelledOrders = mapping.cancelledDate ? filteredData.filter(d => {
-        const val = d[mapping.cancelledDate!];
-        return val !== null && val !== undefined && String(val).trim() !== '';
-    }).length : 0;
-
-    const avgOrderValue = totalOrdersCount > 0 ? totalRevenue / totalOrdersCount : 0;
-
-    return [
-      { title: "Total Revenue", value: formatCurrency(totalRevenue) },
-      { title: "Total Delivered Orders", value: formatNumber(deliveredOrders) },
-      { title: "Total Cancelled Orders", value: formatNumber(cancelledOrders) },
-      { title: "Total Orders", value: formatNumber(totalOrdersCount) },
-      { title: "Total Customers", value: formatNumber(totalCustomers) },
-      { title: "Avg Order", value: formatCurrency(avgOrderValue) },
-      { title: "Total Returns Created", value: formatNumber(returnCount) },
-      { title: "Total Return Value", value: formatCurrency(returnTotalValue) },
-    ];
-  }, [filteredData, domainData?.mapping, totalCustomers, totalOrdersCount, returnCount, returnTotalValue]);
-
-  const aggregateBy = (data: OrderData[], mapping: ColumnMapping | null, key: keyof ColumnMapping, aggFn: (current: number, item: OrderData) => number) => {
-      if (!mapping || !mapping[key]) return [];
-      const aggregation = new Map<string, number>();
-      data.forEach(item => {
-          const groupKey = String(item[mapping[key]!]);
-          if (!groupKey || groupKey === 'null' || groupKey === 'undefined') return;
-          const currentVal = aggregation.get(groupKey) || 0;
-          aggregation.set(groupKey, aggFn(currentVal, item));
-      });
-      return Array.from(aggregation.entries())
-          .map(([name, value]) => ({ name, value }))
-          .sort((a, b) => b.value - a.value);
-  };
-  
-  const topBrandsByRevenue = useMemo(() => aggregateBy(filteredData, domainData?.mapping, 'brand', (curr, item) => curr + getRevenue(item, domainData!.mapping!)).slice(0, 10), [filteredData, domainData?.mapping]);
-  const topCitiesByRevenue = useMemo(() => aggregateBy(filteredData, domainData?.mapping, 'city', (curr, item) => curr + getRevenue(item, domainData!.mapping!)).slice(0, 10), [filteredData, domainData?.mapping]);
-  
-  const aggregateByCount = (data: OrderData[], mapping: ColumnMapping | null, key: keyof ColumnMapping) => aggregateBy(data, mapping, key, curr => curr + 1);
-
-  const topCancellationReasons = useMemo(() => {
-    const mapping = domainData?.mapping;
-    if (!mapping?.cancelledDate || !mapping?.cancellationReason) return [];
-    const cancelledData = filteredData.filter(d => {
-        const val = d[mapping.cancelledDate!];
-        return val !== null && val !== undefined && String(val).trim() !== '';
+
+    const { dimensions } = columns;
+    const { groups } = totals;
+    const byRevenue = (field: 'brand' | 'city' | 'item') => rankGroups(dimensions[field], groups[field]?.count, groups[field]?.revenue, 10);
+    const byCount = (field: 'orderStatus' | 'courier' | 'city' | 'sku' | 'articleType' | 'state' | 'brand', limit?: number) =>
+      rankGroups(dimensions[field], groups[field]?.count, groups[field]?.count, limit);
+
+    const kpis = computeKpis(totals, columns.mapping, profitability, comparisonTotals);
+    const waterfall = waterfallSteps(profitAndLoss(totals, columns.mapping, profitability));
+
+    const topCancellationReasons = totals.cancelledByReason
+      ? rankGroups(dimensions.cancellationReason, totals.cancelledByReason, totals.cancelledByReason, 10)
+      : [];
+
+    const byDay = new Map<string, TrendDay>();
+    columns.day.values.forEach((date, code) => {
+      if (totals.daily.lines[code] > 0) byDay.set(date, { date, current: dayTotals(totals.daily, code) });
     });
-    return aggregateByCount(cancelledData, mapping, 'cancellationReason').slice(0, 10);
-  }, [filteredData, domainData?.mapping]);
-
-  const orderStatusDistribution = useMemo(() => aggregateByCount(filteredData, domainData?.mapping, 'orderStatus'), [filteredData, domainData?.mapping]);
-  const courierUsageShare = useMemo(() => aggregateByCount(filteredData, domainData?.mapping, 'courier'), [filteredData, domainData?.mapping]);
-  const topCitiesByOrderCount = useMemo(() => aggregateByCount(filteredData, domainData?.mapping, 'city').slice(0, 10), [filteredData, domainData?.mapping]);
-  const topSkusByOrders = useMemo(() => aggregateByCount(filteredData, domainData?.mapping, 'sku').slice(0, 10), [filteredData, domainData?.mapping]);
-  const topArticleTypesByOrders = useMemo(() => aggregateByCount(filteredData, domainData?.mapping, 'articleType').slice(0, 10), [filteredData, domainData?.mapping]);
-  const orderCountByState = useMemo(() => aggregateByCount(filteredData, domainData?.mapping, 'state'), [filteredData, domainData?.mapping]);
-  
-  const dailyOrderVolume = useMemo(() => {
-    const mapping = domainData?.mapping;
-    if (!filteredData.length || !mapping?.date) return [];
-    const aggregation = new Map<string, number>();
-    filteredData.forEach(item => {
-        const date = parseDate(item[mapping.date!]);
-        if (!date) return;
-        const dateKey = date.toISOString().split('T')[0];
-        aggregation.set(dateKey, (aggregation.get(dateKey) || 0) + 1);
+    // Comparison days are overlaid on the day at the same position in the current range
+    if (comparisonTotals && comparisonRange?.start && dateRange.start) {
+      const offset = dateRange.start.getTime() - comparisonRange.start.getTime();
+      columns.day.values.forEach((date, code) => {
+        if (comparisonTotals.daily.lines[code] === 0) return;
+        const aligned = istDayKey(new Date(parseDate(date)!.getTime() + offset));
+        const day = byDay.get(aligned) || { date: aligned, current: emptyDayTotals() };
+        day.comparison = day.comparison || emptyDayTotals();
+        addDayTotals(day.comparison, dayTotals(comparisonTotals.daily, code));
+        byDay.set(aligned, day);
+      });
+      byDay.forEach(day => { day.comparison = day.comparison || emptyDayTotals(); });
+    }
+    const dailyTotals = [...byDay.values()].sort((a, b) => a.date.localeCompare(b.date));
+
+    const articles = groups.articleType;
+    const discounts = totals.articleDiscounts;
+    const discountVsRevenue = articles && discounts
+      ? dimensions.articleType!.values
+          .map((name, code) => ({ name, code }))
+          .filter(({ code }) => articles.count[code] > 0)
+          .map(({ name, code }) => {
+            const gross = discounts.gross[code];
+            return { name, revenue: articles.revenue[code], avgDiscount: gross > 0 ? (discounts.discount[code] / gross) * 100 : 0 };
+          })
+          .sort((a, b) => b.revenue - a.revenue)
+          .slice(0, 15)
+      : [];
+
+    const topCitiesByRevenue = byRevenue('city');
+
+    const returnSplit = totals.returnedOrders > 0
+      ? [{ name: 'Customer Returns', value: totals.returnedOrders - totals.rtoOrders }, { name: 'RTO', value: totals.rtoOrders }].filter(entry => entry.value > 0)
+      : [];
+    const returnRateBy: Partial<Record<ReturnField, ReturnRate[]>> = {};
+    RETURN_FIELDS.forEach(field => {
+      const group = totals.returnGroups[field];
+      if (!group || totals.returnedOrders === 0) return;
+      returnRateBy[field] = dimensions[field]!.values
+        .map((name, code) => ({ name, returned: group.returned[code], shipped: group.shipped[code] }))
+        .filter(entry => entry.shipped >= MIN_SHIPPED_FOR_RATE)
+        .map(entry => ({ ...entry, value: Math.round((entry.returned / entry.shipped) * 1000) / 10 }))
+        .sort((a, b) => b.value - a.value || b.returned - a.returned)
+        .slice(0, 10);
     });
-    return Array.from(aggregation.entries())
-        .map(([date, count]) => ({ date, count }))
-        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-  }, [filteredData, domainData?.mapping]);
-
-  const discountVsRevenue = useMemo(() => {
-    const mapping = domainData?.mapping;
-    if (!mapping?.articleType || !mapping.discount) return [];
-    const aggregation = new Map<string, { totalRevenue: number, totalDiscount: number, count: number }>();
-    filteredData.forEach(item => {
-      const articleType = String(item[mapping.articleType!]);
-      if (!articleType || articleType === 'null' || articleType === 'undefined') return;
-      const revenue = getRevenue(item, mapping);
-      const discount = Number(item[mapping.discount!]) || 0;
-      const current = aggregation.get(articleType) || { totalRevenue: 0, totalDiscount: 0, count: 0 };
-      current.totalRevenue += revenue;
-      const discountAmount = (discount / 100) * revenue;
-      current.totalDiscount += discountAmount;
-      current.count += 1;
-      aggregation.set(articleType, current);
+    const returnReasons = totals.returnedByReason
+      ? rankGroups(dimensions.returnReason, totals.returnedByReason, totals.returnedByReason, 10)
+      : [];
+    const returnLagDistribution = totals.returnLag.some(count => count > 0)
+      ? RETURN_LAG_BUCKETS.map((bucket, index) => ({ name: bucket.label, value: totals.returnLag[index] }))
+      : [];
+
+    const tatBuckets = TAT_BUCKETS.map(bucket => ({ name: bucket.label, value: 0 }));
+    totals.tat.forEach((count, days) => { tatBuckets[tatBucket(days)].value += count; });
+    const tatDistribution = tatBuckets.some(bucket => bucket.value > 0) ? tatBuckets : [];
+    const courierReturns = totals.returnGroups.courier;
+    const courierScorecard: CourierScore[] = tatRanking(dimensions.courier?.values, totals.tatGroups.courier).map(entry => {
+      const code = dimensions.courier!.values.indexOf(entry.name);
+      const shipped = courierReturns ? courierReturns.shipped[code] : 0;
+      return { ...entry, shipped, rtoRate: courierReturns ? percent(courierReturns.rto[code], shipped) : 0 };
     });
-    return Array.from(aggregation.entries())
-      .map(([name, { totalRevenue, totalDiscount }]) => ({
-        name,
-        revenue: totalRevenue,
-        avgDiscount: totalRevenue > 0 ? (totalDiscount / totalRevenue) * 100 : 0,
-      }))
-      .sort((a, b) => b.revenue - a.revenue)
-      .slice(0, 15);
-  }, [filteredData, domainData?.mapping]);
-
-  const topItems = useMemo(() => aggregateBy(filteredData, domainData?.mapping, 'item', (curr, item) => curr + getRevenue(item, domainData!.mapping!)).slice(0, 10), [filteredData, domainData?.mapping]);
-  const brandDistribution = useMemo(() => aggregateByCount(filteredData, domainData?.mapping, 'brand'), [filteredData, domainData?.mapping]);
-
-  return { 
-    kpis, filteredData, availableBrands, 
-    topBrandsByRevenue, topCancellationReasons, orderStatusDistribution,
-    courierUsageShare, dailyOrderVolume, topCitiesByOrderCount,
-    topSkusByOrders, topArticleTypesByOrders, discountVsRevenue,
-    orderCountByState, topCitiesByRevenue,
-    topItems, brandDistribution, topCities: topCitiesByRevenue,
-  };
-};
\ No newline at end of file
+    const tatByState = tatRanking(dimensions.state?.values, totals.tatGroups.state);
+    const timing = totals.cancellationTiming;
+    const cancellationTiming = timing && totals.cancelledOrders > 0
+      ? [{ name: 'Before Dispatch', value: timing.beforeDispatch }, { name: 'After Dispatch', value: timing.afterDispatch }].filter(entry => entry.value > 0)
+      : [];
+
+    const { margins } = totals;
+    const marginByBrand = marginRanking(dimensions.brand?.values, margins.brand, 10);
+    const marginByArticleType = marginRanking(dimensions.articleType?.values, margins.articleType, 10);
+    const skuMargins = margins.sku;
+    const belowCostSkus: BelowCostSku[] = skuMargins
+      ? dimensions.sku!.values
+          .map((name, code) => ({ name, code }))
+          .filter(({ code }) => skuMargins.units[code] > 0 && skuMargins.sales[code] < skuMargins.cogs[code])
+          .map(({ name, code }) => {
+            const units = skuMargins.units[code];
+            const sales = skuMargins.sales[code];
+            const cogs = skuMargins.cogs[code];
+            return { name, units, avgPrice: sales / units, unitCost: cogs / units, loss: cogs - sales };
+          })
+          .sort((a, b) => b.loss - a.loss)
+          .slice(0, 50)
+      : [];
+
+    return {
+      kpis, waterfall, filteredData, dimensionValues,
+      topBrandsByRevenue: byRevenue('brand'), topCancellationReasons, orderStatusDistribution: byCount('orderStatus'),
+      courierUsageShare: byCount('courier'), dailyTotals, topCitiesByOrderCount: byCount('city', 10),
+      topSkusByOrders: byCount('sku', 10), topArticleTypesByOrders: byCount('articleType', 10), discountVsRevenue,
+      orderCountByState: byCount('state'), topCitiesByRevenue,
+      marginByBrand, marginByArticleType, belowCostSkus,
+      returnSplit, returnRateBy, returnReasons, returnLagDistribution,
+      tatDistribution, courierScorecard, tatByState, cancellationTiming,
+      topItems: byRevenue('item'), brandDistribution: byCount('brand'), topCities: topCitiesByRevenue,
+    };
+  }, [columns, totals, comparisonTotals, comparisonRange, dateRange, filteredData, dimensionValues, profitability]);
+};
@@ -0,0 +1,33 @@
+import { useEffect, useRef } from 'react';
+import { DataSource } from '../types';
+import { isRefreshDue } from '../utils/dataSources';
+
+const CHECK_INTERVAL_MS = 60_000;
+
+/**
+ * Pulls sources whose refresh interval has elapsed, checking once a minute while the dashboard
+ * is open. Pulls run one at a time so each merges into the data the previous one left.
+ */
+export const useScheduledRefresh = (sources: DataSource[], pull: (source: DataSource) => Promise<void>) => {
+  // The latest callback, so a tick never merges into stale dashboard data
+  const pullRef = useRef(pull);
+  pullRef.current = pull;
+  const busyRef = useRef(false);
+
+  useEffect(() => {
+    const tick = async () => {
+      if (busyRef.current) return;
+      const due = sources.filter(source => isRefreshDue(source));
+      if (due.length === 0) return;
+      busyRef.current = true;
+      try {
+        for (const source of due) await pullRef.current(source);
+      } finally {
+        busyRef.current = false;
+      }
+    };
+    tick();
+    const timer = setInterval(tick, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [sources]);
+};
@@ -0,0 +1,20 @@
+-- Row-level storage: one row per order line instead of one jsonb blob per domain.
+-- Existing `payload` blobs in the legacy per-domain tables are exploded into
+-- `orders` by 20261019140000_explode_legacy_payloads.sql.
+
+create table if not exists public.orders (
+  domain     text        not null,
+  row_key    text        not null,
+  order_id   text,
+  payload    jsonb       not null,
+  created_at timestamptz not null default now(),
+  primary key (domain, row_key)
+);
+
+create index if not exists orders_domain_order_id_idx on public.orders (domain, order_id);
+
+create table if not exists public.mappings (
+  domain     text        primary key,
+  mapping    jsonb       not null,
+  updated_at timestamptz not null default now()
+);
@@ -0,0 +1,47 @@
+-- Role-based access: viewer (dashboards only), analyst (+ upload, PPT), admin (+ purge, mapping edits).
+-- `allowed_domains` holds storage keys (lowercase domain names); null grants every domain.
+-- Users without a profile row can sign in but see no data until an admin adds one:
+--   insert into public.user_profiles (user_id, role) values ('<auth user id>', 'admin');
+
+create table if not exists public.user_profiles (
+  user_id         uuid primary key references auth.users (id) on delete cascade,
+  role            text not null default 'viewer' check (role in ('viewer', 'analyst', 'admin')),
+  allowed_domains text[]
+);
+
+alter table public.user_profiles enable row level security;
+
+create policy user_profiles_select_own on public.user_profiles
+  for select using (user_id = auth.uid());
+
+create or replace function public.app_role() returns text
+  language sql stable security definer set search_path = public as $$
+  select role from public.user_profiles where user_id = auth.uid()
+$$;
+
+create or replace function public.can_access_domain(target text) returns boolean
+  language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from public.user_profiles
+    where user_id = auth.uid() and (allowed_domains is null or target = any (allowed_domains))
+  )
+$$;
+
+alter table public.orders enable row level security;
+
+create policy orders_select on public.orders
+  for select using (public.can_access_domain(domain));
+create policy orders_insert on public.orders
+  for insert with check (public.app_role() in ('analyst', 'admin') and public.can_access_domain(domain));
+create policy orders_delete on public.orders
+  for delete using (public.app_role() = 'admin' and public.can_access_domain(domain));
+
+alter table public.mappings enable row level security;
+
+-- Analysts write a mapping as part of every upload; editing one in isolation is gated to admins in the UI.
+create policy mappings_select on public.mappings
+  for select using (public.can_access_domain(domain));
+create policy mappings_insert on public.mappings
+  for insert with check (public.app_role() in ('analyst', 'admin') and public.can_access_domain(domain));
+create policy mappings_update on public.mappings
+  for update using (public.app_role() in ('analyst', 'admin') and public.can_access_domain(domain));
@@ -0,0 +1,23 @@
+-- Confirmed column mappings keyed by the export layout they were made for.
+-- `signature` is a hash of the normalised, sorted header list (see utils/templates.ts),
+-- so a known report format is mapped without calling the AI. `version` counts layouts per domain.
+
+create table if not exists public.mapping_templates (
+  signature  text        primary key,
+  domain     text        not null,
+  version    integer     not null,
+  headers    text[]      not null,
+  mapping    jsonb       not null,
+  updated_at timestamptz not null default now(),
+  unique (domain, version)
+);
+
+alter table public.mapping_templates enable row level security;
+
+-- Layouts are not sensitive and are shared across domains; only uploaders can record them.
+create policy mapping_templates_select on public.mapping_templates
+  for select using (auth.uid() is not null);
+create policy mapping_templates_insert on public.mapping_templates
+  for insert with check (public.app_role() in ('analyst', 'admin'));
+create policy mapping_templates_update on public.mapping_templates
+  for update using (public.app_role() in ('analyst', 'admin'));
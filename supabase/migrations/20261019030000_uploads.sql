@@ -0,0 +1,19 @@
+-- One row per confirmed upload, carrying the data quality report shown before confirmation.
+
+create table if not exists public.uploads (
+  id             uuid        primary key default gen_random_uuid(),
+  domain         text        not null,
+  uploaded_by    uuid        default auth.uid() references auth.users (id) on delete set null,
+  created_at     timestamptz not null default now(),
+  row_count      integer     not null,
+  quality_report jsonb       not null
+);
+
+create index if not exists uploads_domain_created_at_idx on public.uploads (domain, created_at desc);
+
+alter table public.uploads enable row level security;
+
+create policy uploads_select on public.uploads
+  for select using (public.can_access_domain(domain));
+create policy uploads_insert on public.uploads
+  for insert with check (public.app_role() in ('analyst', 'admin') and public.can_access_domain(domain));
@@ -0,0 +1,17 @@
+-- Turns uploads into batches: every stored order row remembers the upload that first
+-- inserted it, so a single batch can be rolled back without touching other uploads.
+
+alter table public.uploads
+  add column if not exists file_name      text,
+  add column if not exists uploader_email text,
+  add column if not exists mapping        jsonb,
+  add column if not exists rolled_back_at timestamptz;
+
+alter table public.orders
+  add column if not exists batch_id uuid references public.uploads (id) on delete set null;
+
+create index if not exists orders_batch_id_idx on public.orders (batch_id);
+
+-- Rolling back marks the batch instead of deleting it, so the ledger stays complete.
+create policy uploads_update on public.uploads
+  for update using (public.app_role() = 'admin' and public.can_access_domain(domain));
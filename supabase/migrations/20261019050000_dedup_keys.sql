@@ -0,0 +1,11 @@
+-- Per-domain business keys for upload dedup. Holds mapping field names such as
+-- {orderLineId} or {orderId,sku}; null lets the app pick from the domain's mapping.
+-- New rows are stored under a hash of their business key; existing rows keep their
+-- row_key and are matched by payload, so nothing needs rewriting here.
+
+alter table public.mappings
+  add column if not exists dedup_keys text[];
+
+-- A re-uploaded line updates its stored row in place.
+create policy orders_update on public.orders
+  for update using (public.app_role() in ('analyst', 'admin') and public.can_access_domain(domain));
@@ -0,0 +1,34 @@
+-- Domain registry: the marketplaces and stores the dashboard knows about. Drives the
+-- sidebar, upload and purge pickers, and the storage key every other table's `domain`
+-- column holds. Admins manage it from the app; the seed matches the previous hard-coded list.
+
+create table if not exists public.domains (
+  storage_key      text        primary key check (storage_key ~ '^[a-z0-9_]+$'),
+  name             text        not null unique,
+  label            text        not null,
+  color            text        not null default '#3b82f6',
+  currency         text        not null default 'INR' check (currency ~ '^[A-Z]{3}$'),
+  default_template text        references public.mapping_templates (signature) on delete set null,
+  logo_url         text,
+  sort_order       integer     not null default 0,
+  created_at       timestamptz not null default now()
+);
+
+insert into public.domains (storage_key, name, label, color, logo_url, sort_order) values
+  ('myntra',   'Myntra',   'Myntra',   '#ff3f6c', 'https://www.vectorlogo.zone/logos/myntra/myntra-icon.svg',     1),
+  ('amazon',   'Amazon',   'Amazon',   '#ff9900', 'https://www.vectorlogo.zone/logos/amazon/amazon-icon.svg',     2),
+  ('flipkart', 'Flipkart', 'Flipkart', '#2874f0', 'https://www.vectorlogo.zone/logos/flipkart/flipkart-icon.svg', 3),
+  ('ajio',     'AJIO',     'AJIO',     '#2c4152', 'https://www.vectorlogo.zone/logos/ajio/ajio-icon.svg',         4),
+  ('shopify',  'Shopify',  'Shopify',  '#95bf47', 'https://www.vectorlogo.zone/logos/shopify/shopify-icon.svg',   5)
+on conflict (storage_key) do nothing;
+
+alter table public.domains enable row level security;
+
+create policy domains_select on public.domains
+  for select using (public.can_access_domain(storage_key));
+create policy domains_insert on public.domains
+  for insert with check (public.app_role() = 'admin');
+create policy domains_update on public.domains
+  for update using (public.app_role() = 'admin');
+create policy domains_delete on public.domains
+  for delete using (public.app_role() = 'admin');
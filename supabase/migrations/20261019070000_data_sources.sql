@@ -0,0 +1,29 @@
+-- Saved remote data sources: a URL plus how to read it (format, records path, pagination,
+-- request headers), re-pulled on demand or on an interval while the dashboard is open.
+-- Headers often carry API tokens, so only the analysts and admins who may upload to the
+-- domain can read them.
+
+create table if not exists public.data_sources (
+  id              uuid        primary key default gen_random_uuid(),
+  domain          text        not null,
+  name            text        not null,
+  config          jsonb       not null,
+  refresh_minutes integer     check (refresh_minutes is null or refresh_minutes >= 5),
+  last_pulled_at  timestamptz,
+  last_error      text,
+  created_by      uuid        default auth.uid() references auth.users (id) on delete set null,
+  created_at      timestamptz not null default now()
+);
+
+create index if not exists data_sources_domain_idx on public.data_sources (domain);
+
+alter table public.data_sources enable row level security;
+
+create policy data_sources_select on public.data_sources
+  for select using (public.app_role() in ('analyst', 'admin') and public.can_access_domain(domain));
+create policy data_sources_insert on public.data_sources
+  for insert with check (public.app_role() in ('analyst', 'admin') and public.can_access_domain(domain));
+create policy data_sources_update on public.data_sources
+  for update using (public.app_role() in ('analyst', 'admin') and public.can_access_domain(domain));
+create policy data_sources_delete on public.data_sources
+  for delete using (public.app_role() in ('analyst', 'admin') and public.can_access_domain(domain));
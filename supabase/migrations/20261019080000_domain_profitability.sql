@@ -0,0 +1,6 @@
+-- Per-domain profitability settings: whether the mapped revenue is before or after the
+-- mapped discount, and the commission and shipping costs deducted from net sales when an
+-- upload carries no settlement columns. Null means the app defaults (no channel costs).
+
+alter table public.domains
+  add column if not exists profitability jsonb;
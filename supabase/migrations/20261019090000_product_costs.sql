@@ -0,0 +1,24 @@
+-- Cost master: unit cost (COGS) per SKU, effective from `valid_from` until the SKU's next
+-- entry. SKUs are stored trimmed and upper-cased. Products are shared across domains, so
+-- the table is not domain-scoped: everyone with a profile reads it for margin figures,
+-- analysts and admins maintain it.
+
+create table if not exists public.product_costs (
+  sku        text          not null check (sku = upper(btrim(sku)) and sku <> ''),
+  valid_from date          not null default '1970-01-01',
+  unit_cost  numeric(14, 2) not null check (unit_cost >= 0),
+  updated_by uuid          default auth.uid() references auth.users (id) on delete set null,
+  updated_at timestamptz   not null default now(),
+  primary key (sku, valid_from)
+);
+
+alter table public.product_costs enable row level security;
+
+create policy product_costs_select on public.product_costs
+  for select using (public.app_role() is not null);
+create policy product_costs_insert on public.product_costs
+  for insert with check (public.app_role() in ('analyst', 'admin'));
+create policy product_costs_update on public.product_costs
+  for update using (public.app_role() in ('analyst', 'admin'));
+create policy product_costs_delete on public.product_costs
+  for delete using (public.app_role() in ('analyst', 'admin'));
@@ -0,0 +1,6 @@
+-- Per-domain delivery SLA: the promised days from order to delivery, with per-state
+-- overrides for remote zones, e.g. {"standardDays": 5, "stateDays": {"Assam": 8}}.
+-- Null means the app default.
+
+alter table public.domains
+  add column if not exists delivery_sla jsonb;
@@ -0,0 +1,33 @@
+-- Mapping edits are admin-only. Analysts still change a domain's mapping by uploading:
+-- apply_upload_mapping() copies the mapping recorded on the caller's own upload batch,
+-- so the only mapping an analyst can store is one their data was actually saved under.
+
+drop policy if exists mappings_insert on public.mappings;
+drop policy if exists mappings_update on public.mappings;
+
+create policy mappings_insert on public.mappings
+  for insert with check (public.app_role() = 'admin' and public.can_access_domain(domain));
+create policy mappings_update on public.mappings
+  for update using (public.app_role() = 'admin' and public.can_access_domain(domain));
+
+create or replace function public.apply_upload_mapping(batch uuid) returns void
+  language plpgsql security definer set search_path = public as $$
+declare
+  upload public.uploads%rowtype;
+begin
+  select * into upload from public.uploads where id = batch;
+  if not found or upload.mapping is null then
+    raise exception 'Upload % has no recorded mapping', batch;
+  end if;
+  if upload.uploaded_by is distinct from auth.uid() or upload.rolled_back_at is not null
+     or public.app_role() not in ('analyst', 'admin') or not public.can_access_domain(upload.domain) then
+    raise exception 'Not allowed to apply the mapping of upload %', batch;
+  end if;
+
+  insert into public.mappings (domain, mapping, updated_at)
+  values (upload.domain, upload.mapping, now())
+  on conflict (domain) do update set mapping = excluded.mapping, updated_at = excluded.updated_at;
+end;
+$$;
+
+grant execute on function public.apply_upload_mapping(uuid) to authenticated;
@@ -0,0 +1,29 @@
+-- Rolling back a batch deletes its rows and marks it in the ledger. Both are admin-only under
+-- the table policies, but the analyst who uploaded a batch must be able to undo it when the
+-- upload fails halfway, so rollback runs through this function instead.
+
+create or replace function public.rollback_upload(batch uuid) returns setof text
+  language plpgsql security definer set search_path = public as $$
+declare
+  upload public.uploads%rowtype;
+begin
+  select * into upload from public.uploads where id = batch;
+  if not found then
+    raise exception 'Upload % does not exist', batch;
+  end if;
+  if not public.can_access_domain(upload.domain)
+     or not (public.app_role() = 'admin' or (public.app_role() = 'analyst' and upload.uploaded_by = auth.uid())) then
+    raise exception 'Not allowed to roll back upload %', batch;
+  end if;
+  if upload.rolled_back_at is not null then
+    return;
+  end if;
+
+  return query
+    with removed as (delete from public.orders where batch_id = batch returning row_key)
+    select removed.row_key from removed;
+  update public.uploads set rolled_back_at = now() where id = batch;
+end;
+$$;
+
+grant execute on function public.rollback_upload(uuid) to authenticated;
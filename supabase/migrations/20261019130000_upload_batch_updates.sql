@@ -0,0 +1,61 @@
+-- Re-uploaded lines update their stored row in place, so a batch owns more than the rows it
+-- inserted. The payload each updated row had before the batch is kept here, and rolling the
+-- batch back puts it back. Rows keep their row_key and order id across an update (both come
+-- from the business key that matched them), so only the payload needs restoring.
+
+create table if not exists public.upload_batch_updates (
+  batch_id         uuid  not null references public.uploads (id) on delete cascade,
+  domain           text  not null,
+  row_key          text  not null,
+  previous_payload jsonb not null,
+  primary key (batch_id, domain, row_key)
+);
+
+alter table public.upload_batch_updates enable row level security;
+
+create policy upload_batch_updates_select on public.upload_batch_updates
+  for select using (public.can_access_domain(domain));
+create policy upload_batch_updates_insert on public.upload_batch_updates
+  for insert with check (
+    public.app_role() in ('analyst', 'admin') and public.can_access_domain(domain)
+    and exists (select 1 from public.uploads u where u.id = batch_id and u.uploaded_by = auth.uid())
+  );
+
+-- Now also restores updated rows; `payload` is null for a deleted row and the restored
+-- payload otherwise.
+drop function if exists public.rollback_upload(uuid);
+
+create function public.rollback_upload(batch uuid) returns table (row_key text, payload jsonb)
+  language plpgsql security definer set search_path = public as $$
+#variable_conflict use_column
+declare
+  upload public.uploads%rowtype;
+begin
+  select * into upload from public.uploads where id = batch;
+  if not found then
+    raise exception 'Upload % does not exist', batch;
+  end if;
+  if not public.can_access_domain(upload.domain)
+     or not (public.app_role() = 'admin' or (public.app_role() = 'analyst' and upload.uploaded_by = auth.uid())) then
+    raise exception 'Not allowed to roll back upload %', batch;
+  end if;
+  if upload.rolled_back_at is not null then
+    return;
+  end if;
+
+  return query
+    with removed as (delete from public.orders o where o.batch_id = batch returning o.row_key)
+    select removed.row_key, null::jsonb from removed;
+  return query
+    with restored as (
+      update public.orders o set payload = u.previous_payload
+      from public.upload_batch_updates u
+      where u.batch_id = batch and o.domain = u.domain and o.row_key = u.row_key
+      returning o.row_key, o.payload
+    )
+    select restored.row_key, restored.payload from restored;
+  update public.uploads set rolled_back_at = now() where id = batch;
+end;
+$$;
+
+grant execute on function public.rollback_upload(uuid) to authenticated;
@@ -0,0 +1,30 @@
+-- Moves the pre-migration per-domain tables (a single row, id 1, payload { data, mapping })
+-- into `orders`, one row per order line, and records each domain's mapping. It all runs in
+-- the migration's transaction, so a domain is either moved completely or not at all, and a
+-- domain that already has a mapping row is left alone, so running it again changes nothing.
+-- Lines are keyed by a hash of their jsonb text: identical lines collapse into one, as with
+-- the whole-row keys of an upload. Dates keep their original text; the dashboard detects
+-- each date column's day/month order when it reads them.
+
+do $$
+declare
+  legacy text;
+  blob   jsonb;
+begin
+  foreach legacy in array array['myntra', 'amazon', 'flipkart', 'ajio', 'shopify'] loop
+    continue when to_regclass(format('public.%I', legacy)) is null;
+    continue when exists (select 1 from public.mappings where domain = legacy);
+    execute format('select payload from public.%I where id = 1', legacy) into blob;
+    continue when jsonb_typeof(blob -> 'mapping') is distinct from 'object';
+
+    insert into public.orders (domain, row_key, order_id, payload)
+    select legacy, md5(line::text), nullif(btrim(line ->> (blob -> 'mapping' ->> 'orderId')), ''), line
+    from jsonb_array_elements(case when jsonb_typeof(blob -> 'data') = 'array' then blob -> 'data' else '[]'::jsonb end) as line
+    where jsonb_typeof(line) = 'object'
+      and exists (select 1 from jsonb_each_text(line) as cell where btrim(cell.value) <> '')
+    on conflict (domain, row_key) do nothing;
+
+    insert into public.mappings (domain, mapping) values (legacy, blob -> 'mapping');
+  end loop;
+end;
+$$;
@@ -0,0 +1,96 @@
+-- A batch can only be rolled back while it is still the last upload to have written each of
+-- its rows. Otherwise deleting its inserts would also drop a later batch's updates to them,
+-- and restoring its previous payloads would overwrite a later batch's newer ones. Rows now
+-- record the batch that last wrote them and recorded updates the batch that wrote the row
+-- before, so rolling back the later batch hands its rows back to the earlier one.
+
+alter table public.orders
+  add column if not exists last_batch_id uuid references public.uploads (id) on delete set null;
+
+alter table public.upload_batch_updates
+  add column if not exists previous_batch_id uuid references public.uploads (id) on delete set null;
+
+-- Existing rows were last written by the newest live batch that updated them, else by the batch that inserted them
+update public.orders set last_batch_id = batch_id;
+update public.orders o set last_batch_id = latest.batch_id
+from (
+  select distinct on (u.domain, u.row_key) u.domain, u.row_key, u.batch_id
+  from public.upload_batch_updates u
+  join public.uploads b on b.id = u.batch_id
+  where b.rolled_back_at is null
+  order by u.domain, u.row_key, b.created_at desc
+) latest
+where o.domain = latest.domain and o.row_key = latest.row_key;
+
+update public.upload_batch_updates u set previous_batch_id = coalesce(
+  (
+    select earlier.batch_id
+    from public.upload_batch_updates earlier
+    join public.uploads eb on eb.id = earlier.batch_id
+    join public.uploads ub on ub.id = u.batch_id
+    where earlier.domain = u.domain and earlier.row_key = u.row_key
+      and eb.rolled_back_at is null and eb.created_at < ub.created_at
+    order by eb.created_at desc
+    limit 1
+  ),
+  (select o.batch_id from public.orders o where o.domain = u.domain and o.row_key = u.row_key)
+);
+
+-- Filled in from the row itself, which the uploader records just before rewriting it
+create or replace function public.record_previous_batch() returns trigger
+  language plpgsql security definer set search_path = public as $$
+begin
+  select last_batch_id into new.previous_batch_id
+  from public.orders where domain = new.domain and row_key = new.row_key;
+  return new;
+end;
+$$;
+
+create trigger upload_batch_updates_previous_batch
+  before insert on public.upload_batch_updates
+  for each row execute function public.record_previous_batch();
+
+-- As before, but refuses while a later live batch has written any of the batch's rows, and
+-- hands restored rows back to the batch that wrote them before.
+create or replace function public.rollback_upload(batch uuid) returns table (row_key text, payload jsonb)
+  language plpgsql security definer set search_path = public as $$
+#variable_conflict use_column
+declare
+  upload public.uploads%rowtype;
+begin
+  select * into upload from public.uploads where id = batch for update;
+  if not found then
+    raise exception 'Upload % does not exist', batch;
+  end if;
+  if not public.can_access_domain(upload.domain)
+     or not (public.app_role() = 'admin' or (public.app_role() = 'analyst' and upload.uploaded_by = auth.uid())) then
+    raise exception 'Not allowed to roll back upload %', batch;
+  end if;
+  if upload.rolled_back_at is not null then
+    return;
+  end if;
+  if exists (
+    select 1 from public.orders o
+    where o.last_batch_id is distinct from batch
+      and (o.batch_id = batch or exists (
+        select 1 from public.upload_batch_updates u
+        where u.batch_id = batch and u.domain = o.domain and u.row_key = o.row_key
+      ))
+  ) then
+    raise exception 'A later upload changed rows from upload %; roll that upload back first', batch;
+  end if;
+
+  return query
+    with removed as (delete from public.orders o where o.batch_id = batch returning o.row_key)
+    select removed.row_key, null::jsonb from removed;
+  return query
+    with restored as (
+      update public.orders o set payload = u.previous_payload, last_batch_id = u.previous_batch_id
+      from public.upload_batch_updates u
+      where u.batch_id = batch and o.domain = u.domain and o.row_key = u.row_key
+      returning o.row_key, o.payload
+    )
+    select restored.row_key, restored.payload from restored;
+  update public.uploads set rolled_back_at = now() where id = batch;
+end;
+$$;
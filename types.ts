@@ -19,28 +19,160 @@ export interface ColumnMapping {
   articleType: string | null;
   discount: string | null;
   // New specific date fields for KPIs
+  dispatchDate: string | null;  // "dispatched on", "shipped on"
   deliveredDate: string | null; // "delivered on"
   cancelledDate: string | null; // "cancelled on"
   returnDate: string | null;    // "return creation date"
+  returnReason: string | null;  // "return reason", "reason for return"
   // Order grouping
   orderId: string | null;       // "order id", "transaction id"
+  orderLineId: string | null;   // "order line id", "order item id"; one per shipped line
+  // Settlement amounts deducted by the channel, per line
+  marketplaceFee: string | null; // "commission", "marketplace fee", "platform fee"
+  shippingFee: string | null;    // "shipping fee", "logistics fee"
+}
+
+export interface MappingTemplate {
+  signature: string;  // hash of the normalised, sorted header list
+  domain: string;     // marketplace the layout was first confirmed for
+  version: number;    // increments each time that marketplace changes its export columns
+  headers: string[];
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+export interface ColumnQuality {
+  field: keyof ColumnMapping;
+  column: string;
+  nullRate: number;     // share of rows with an empty cell, 0..1
+  unparseable: number;  // non-empty cells that are not a valid number/date for the field
+}
+
+export interface QualityReport {
+  generatedAt: string;
+  totalRows: number;
+  rowsDropped: { blank: number; duplicate: number };
+  columns: ColumnQuality[];
+  negativeRevenue: number;
+  outlierRevenue: number;
+  revenueWithoutOrderId: number;
+  unknownStates: { name: string; count: number }[];
+}
+
+export interface UploadBatch {
+  id: string;
+  domain: string;
+  fileName: string | null;
+  uploaderEmail: string | null;
+  uploadedBy: string | null;  // auth user id of the uploader
+  createdAt: string;
+  rowCount: number;
+  mapping: ColumnMapping | null;
+  qualityReport: QualityReport;
+  rolledBackAt: string | null;
 }
 
 export interface DomainData {
   data: OrderData[];
   mapping: ColumnMapping;
+  // Mapping fields that identify a row for dedup and update-in-place; unset = derived from the mapping
+  dedupKeys?: (keyof ColumnMapping)[] | null;
 }
 
 export type AllData = Record<string, DomainData>;
 
+export type RemoteFormat = 'auto' | 'json' | 'ndjson' | 'csv';
+
+export type RemotePagination =
+  | { kind: 'none' }
+  // ?page=1, ?page=2, ... until a short or empty page
+  | { kind: 'page'; pageParam: string; startPage: number; pageSizeParam: string | null; pageSize: number | null; maxPages: number }
+  // the response carries the next cursor (or the next page URL) at `cursorPath`
+  | { kind: 'cursor'; cursorParam: string; cursorPath: string; maxPages: number };
+
+export interface RemoteSourceConfig {
+  url: string;
+  format: RemoteFormat;
+  recordsPath: string | null;     // dot path to the records array in a JSON body, e.g. "data.orders"
+  headers: Record<string, string>; // sent with every request, e.g. an Authorization token
+  pagination: RemotePagination;
+}
+
+export interface DataSource {
+  id: string | null;              // null until saved
+  name: string;
+  domain: string;
+  config: RemoteSourceConfig;
+  refreshMinutes: number | null;  // null = pulled on demand only
+  lastPulledAt: string | null;
+  lastError: string | null;
+}
+
+// How a domain's revenue relates to its discount, and the channel costs deducted when an
+// upload carries no settlement columns
+export interface ProfitabilitySettings {
+  revenueBasis: 'gross' | 'net';  // gross: revenue is before the mapped discount; net: after it
+  commissionPercent: number;      // of net sales
+  fixedFeePerOrder: number;       // per shipped order
+  shippingFeePerOrder: number;    // forward shipping per shipped order
+  returnShippingFee: number;      // reverse shipping per returned order
+}
+
+// One row of the cost master: what a SKU costs from `validFrom` (an IST day, YYYY-MM-DD) until
+// the next entry for the same SKU
+export interface ProductCost {
+  sku: string;
+  validFrom: string;
+  unitCost: number;
+}
+
+// Promised order-to-delivery time, in IST calendar days; state overrides cover remote zones
+export interface DeliverySla {
+  standardDays: number;
+  stateDays: Record<string, number>;  // keyed by state name, matched ignoring case and padding
+}
+
+export interface DomainConfig {
+  name: string;                   // key used throughout the app, e.g. "AJIO"
+  label: string;                  // shown in the sidebar and pickers
+  storageKey: string;             // `domain` value in the database tables, e.g. "ajio"
+  color: string;                  // hex accent for the sidebar badge
+  currency: string;               // ISO 4217 code used to label revenue
+  defaultTemplate: string | null; // mapping template signature to start from for unknown layouts
+  logoUrl: string | null;
+  sortOrder: number;
+  profitability: ProfitabilitySettings;
+  deliverySla: DeliverySla;
+}
+
+export type UserRole = 'viewer' | 'analyst' | 'admin';
+
+export interface UserProfile {
+  userId: string;  // auth user id
+  email: string;
+  role: UserRole;
+  allowedDomains: string[] | null; // lowercase storage keys; null = every domain
+}
+
 export interface DateRange {
   start: Date | null;
   end: Date | null;
 }
 
+// What the dashboard KPIs and trend are compared against
+export type ComparisonMode = 'none' | 'previous' | 'lastYear' | 'custom';
+
+export interface KpiComparison {
+  value: string;                 // formatted value for the comparison period
+  delta: number;
+  percentChange: number | null;  // null when the comparison value is zero
+  improved: boolean | null;      // null when unchanged
+}
+
 export interface Kpi {
   title: string;
   value: string;
+  comparison?: KpiComparison;
 }
 
 export interface PptContent {
@@ -0,0 +1,83 @@
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { UserProfile } from '../types';
+
+// Users without a profile row get no data access until an admin provisions them
+const unprovisionedProfile = (userId: string, email: string): UserProfile => ({ userId, email, role: 'viewer', allowedDomains: [] });
+
+/**
+ * Signs in with email and password. Supabase persists the session in local storage,
+ * so it survives a reload until it expires or is revoked.
+ */
+export async function signInWithPassword(email: string, password: string): Promise<Session> {
+  const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) {
+    // Supabase returns a generic 400 for unknown users and wrong passwords alike
+    throw new Error(error.status === 400 ? 'Invalid email or password.' : error.message);
+  }
+  return data.session;
+}
+
+/**
+ * Emails a one-time sign-in link that redirects back to this app.
+ * Only existing users can sign in this way; accounts are provisioned by an admin.
+ */
+export async function sendMagicLink(email: string) {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.origin, shouldCreateUser: false },
+  });
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Revokes the current session on the server and clears it locally.
+ */
+export async function signOut() {
+  const { error } = await supabase.auth.signOut();
+  if (error) {
+    console.error('Sign out error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Restores a persisted session (including one carried in a magic-link redirect)
+ * and reports every later sign-in, refresh and sign-out. Returns an unsubscribe function.
+ */
+export function watchSession(onChange: (session: Session | null) => void): () => void {
+  supabase.auth.getSession()
+    .then(({ data }) => onChange(data.session))
+    .catch(err => {
+      // Fall through to the sign-in page rather than restoring forever
+      console.error('Error restoring session:', err);
+      onChange(null);
+    });
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => onChange(session));
+  return () => data.subscription.unsubscribe();
+}
+
+/**
+ * Loads the role and allowed domains for a signed-in user.
+ * Falls back to the least privileged profile if the lookup fails.
+ */
+export async function fetchUserProfile(userId: string, email: string): Promise<UserProfile> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('role, allowed_domains')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading user profile:', error);
+    return unprovisionedProfile(userId, email);
+  }
+  if (!data) return unprovisionedProfile(userId, email);
+
+  return {
+    userId,
+    email,
+    role: data.role,
+    allowedDomains: data.allowed_domains ? data.allowed_domains.map((d: string) => d.toLowerCase()) : null,
+  };
+}
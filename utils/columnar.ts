@@ -0,0 +1,592 @@
+import { ColumnMapping, OrderData, ProfitabilitySettings } from '../types';
+import { istDayKey, istDayNumber, storedColumnDateParser } from './dates';
+import { MAX_TAT_DAYS, TAT_FIELDS, TatField, wasDispatched } from './fulfilment';
+import { RETURN_FIELDS, RETURN_LAG_BUCKETS, ReturnField, classifyReturn, lagBucket } from './returns';
+
+/**
+ * Column-oriented view of a domain's rows for the dashboard. Dates are parsed, revenue is
+ * computed and text dimensions are dictionary-encoded once per data set, so filtering and
+ * aggregation are tight loops over typed arrays instead of repeated passes over row objects.
+ */
+
+export type DimensionField = 'brand' | 'city' | 'state' | 'sku' | 'item' | 'articleType' | 'orderStatus' | 'courier' | 'cancellationReason' | 'returnReason' | 'orderId';
+
+export const DIMENSION_FIELDS: DimensionField[] = ['brand', 'city', 'state', 'sku', 'item', 'articleType', 'orderStatus', 'courier', 'cancellationReason', 'returnReason', 'orderId'];
+
+// Code of a row whose cell is empty
+export const BLANK = -1;
+
+export interface Dimension {
+  values: string[];   // distinct values in first-seen order; codes index into this
+  codes: Int32Array;  // one per row
+}
+
+export interface ColumnarData {
+  rows: OrderData[];
+  mapping: ColumnMapping;
+  size: number;
+  time: Float64Array;     // order date in epoch ms, NaN when missing or unparseable
+  day: Dimension;         // IST calendar day (YYYY-MM-DD) of the order date
+  revenue: Float64Array;
+  quantity: Float64Array; // 0 when quantity is not mapped
+  discount: Float64Array; // percent
+  marketplaceFee: Float64Array;  // settlement deductions as positive amounts, 0 when not mapped
+  shippingFee: Float64Array;
+  order: Int32Array;      // order number per row; a row without an order id is an order of its own
+  orderSlots: number;     // upper bound of the order numbers
+  customer: Dimension | null;  // normalised customer identity, null when not mapped
+  delivered: Uint8Array;
+  cancelled: Uint8Array;
+  returned: Uint8Array;   // customer returns and RTO alike
+  rto: Uint8Array;        // the returned lines that came back undelivered
+  deliveredTime: Float64Array;  // epoch ms, NaN when missing or unparseable
+  returnTime: Float64Array;
+  tatDays: Float64Array;  // IST days from order to delivery, NaN unless delivered with both dates
+  dispatched: Uint8Array | null;  // lines that left the warehouse; null with neither dispatch date nor courier mapped
+  dimensions: Partial<Record<DimensionField, Dimension>>;
+}
+
+const isFilled = (value: unknown) => value !== null && value !== undefined && String(value).trim() !== '';
+
+function revenueOf(row: OrderData, mapping: ColumnMapping): number {
+  if (mapping.revenue) return Number(row[mapping.revenue]) || 0;
+  if (mapping.price && mapping.quantity) return (Number(row[mapping.quantity]) || 0) * (Number(row[mapping.price]) || 0);
+  return 0;
+}
+
+function encode(size: number, valueAt: (i: number) => string | null): Dimension {
+  const index = new Map<string, number>();
+  const values: string[] = [];
+  const codes = new Int32Array(size);
+  for (let i = 0; i < size; i++) {
+    const value = valueAt(i);
+    if (value === null) {
+      codes[i] = BLANK;
+      continue;
+    }
+    let code = index.get(value);
+    if (code === undefined) {
+      code = values.length;
+      index.set(value, code);
+      values.push(value);
+    }
+    codes[i] = code;
+  }
+  return { values, codes };
+}
+
+const flagColumn = (rows: OrderData[], column: string | null) => {
+  const flags = new Uint8Array(rows.length);
+  if (column) rows.forEach((row, i) => { if (isFilled(row[column])) flags[i] = 1; });
+  return flags;
+};
+
+export function buildColumnarData(rows: OrderData[], mapping: ColumnMapping): ColumnarData {
+  const size = rows.length;
+  const time = new Float64Array(size).fill(NaN);
+  const revenue = new Float64Array(size);
+  const quantity = new Float64Array(size);
+  const discount = new Float64Array(size);
+  const marketplaceFee = new Float64Array(size);
+  const shippingFee = new Float64Array(size);
+  const deliveredTime = new Float64Array(size).fill(NaN);
+  const returnTime = new Float64Array(size).fill(NaN);
+  const returned = new Uint8Array(size);
+  const rto = new Uint8Array(size);
+  const tatDays = new Float64Array(size).fill(NaN);
+  const dispatched = mapping.dispatchDate || mapping.courier ? new Uint8Array(size) : null;
+  const dayKeys: (string | null)[] = new Array(size).fill(null);
+
+  const parserFor = (column: string | null) => (column ? storedColumnDateParser(rows, column) : null);
+  const parseOrderDate = parserFor(mapping.date);
+  const parseDelivered = parserFor(mapping.deliveredDate);
+  const parseReturn = parserFor(mapping.returnDate);
+  const parseDispatch = parserFor(mapping.dispatchDate);
+  const parseCancelled = parserFor(mapping.cancelledDate);
+
+  for (let i = 0; i < size; i++) {
+    const row = rows[i];
+    revenue[i] = revenueOf(row, mapping);
+    if (mapping.quantity) quantity[i] = Number(row[mapping.quantity]) || 0;
+    if (mapping.discount) discount[i] = Number(row[mapping.discount]) || 0;
+    // Settlement reports write deductions as negatives or positives depending on the channel
+    if (mapping.marketplaceFee) marketplaceFee[i] = Math.abs(Number(row[mapping.marketplaceFee]) || 0);
+    if (mapping.shippingFee) shippingFee[i] = Math.abs(Number(row[mapping.shippingFee]) || 0);
+    if (parseOrderDate) {
+      const date = parseOrderDate(row[mapping.date!]);
+      if (date) {
+        time[i] = date.getTime();
+        dayKeys[i] = istDayKey(date);
+      }
+    }
+    if (parseDelivered) deliveredTime[i] = parseDelivered(row[mapping.deliveredDate!])?.getTime() ?? NaN;
+    if (parseReturn) returnTime[i] = parseReturn(row[mapping.returnDate!])?.getTime() ?? NaN;
+    const kind = classifyReturn(mapping.orderStatus ? row[mapping.orderStatus] : null, !!mapping.returnDate && isFilled(row[mapping.returnDate]));
+    if (kind) returned[i] = 1;
+    if (kind === 'rto') rto[i] = 1;
+    // A delivered date on an RTO line is when it reached the seller again
+    const tat = istDayNumber(deliveredTime[i]) - istDayNumber(time[i]);
+    if (kind !== 'rto' && tat >= 0) tatDays[i] = tat;
+    if (parseDispatch) {
+      const dispatchTime = parseDispatch(row[mapping.dispatchDate!])?.getTime() ?? NaN;
+      const cancelledTime = parseCancelled?.(row[mapping.cancelledDate!])?.getTime() ?? NaN;
+      if (wasDispatched(dispatchTime, cancelledTime)) dispatched![i] = 1;
+    } else if (mapping.courier && isFilled(row[mapping.courier])) {
+      // Without a dispatch date a courier is the only sign of a shipment, as couriers are assigned at dispatch
+      dispatched![i] = 1;
+    }
+  }
+
+  const dimensions: Partial<Record<DimensionField, Dimension>> = {};
+  let customer: Dimension | null = null;
+  DIMENSION_FIELDS.forEach(field => {
+    const column = mapping[field];
+    if (!column) return;
+    dimensions[field] = encode(size, i => {
+      // Grouping has always been on the stringified cell, skipping empty ones
+      const value = String(rows[i][column]);
+      return value === '' || value === 'null' || value === 'undefined' ? null : value;
+    });
+  });
+
+  const orderIds = dimensions.orderId;
+  const orderSlots = (orderIds?.values.length || 0) + size;
+  const order = new Int32Array(size);
+  for (let i = 0; i < size; i++) {
+    const code = orderIds ? orderIds.codes[i] : BLANK;
+    order[i] = code === BLANK ? orderSlots - size + i : code;
+  }
+
+  // The same shopper is often written with different case or padding across exports
+  const customerColumn = mapping.customer;
+  if (customerColumn) {
+    customer = encode(size, i => {
+      const value = rows[i][customerColumn];
+      return isFilled(value) ? String(value).trim().toLowerCase() : null;
+    });
+  }
+
+  return {
+    rows, mapping, size, time, revenue, quantity, discount, marketplaceFee, shippingFee,
+    day: encode(size, i => dayKeys[i]),
+    order, orderSlots, customer,
+    delivered: flagColumn(rows, mapping.deliveredDate),
+    cancelled: flagColumn(rows, mapping.cancelledDate),
+    returned, rto, deliveredTime, returnTime, tatDays, dispatched,
+    dimensions,
+  };
+}
+
+// One encoding per data set, shared by every view of it; rebuilt when its mapping changes
+const cache = new WeakMap<OrderData[], { mappingKey: string; columns: ColumnarData }>();
+
+export function getColumnarData(rows: OrderData[], mapping: ColumnMapping): ColumnarData {
+  const mappingKey = JSON.stringify(mapping);
+  const cached = cache.get(rows);
+  if (cached && cached.mappingKey === mappingKey) return cached.columns;
+  const columns = buildColumnarData(rows, mapping);
+  cache.set(rows, { mappingKey, columns });
+  return columns;
+}
+
+// Dimensions the dashboard filter bar offers; order ids are too many to pick from
+export const FILTER_FIELDS: DimensionField[] = ['brand', 'state', 'city', 'courier', 'orderStatus', 'articleType', 'sku', 'item', 'cancellationReason', 'returnReason'];
+
+export interface DimensionFilter {
+  field: DimensionField;
+  values: string[];
+  mode: 'include' | 'exclude';  // exclude keeps rows with an empty cell
+}
+
+/**
+ * Narrows the filters to a single value of one dimension, replacing any filter already on it.
+ */
+export function drillFilters(filters: DimensionFilter[], field: DimensionField, value: string): DimensionFilter[] {
+  return [...filters.filter(filter => filter.field !== field), { field, values: [value], mode: 'include' }];
+}
+
+export interface RowFilter {
+  start?: Date | null;  // both bounds are needed for the date filter to apply
+  end?: Date | null;
+  dimensions?: DimensionFilter[];
+}
+
+/**
+ * Indices of the rows matching a filter, in row order, or null when nothing is filtered out.
+ */
+export function selectRows(columns: ColumnarData, filter: RowFilter): Uint32Array | null {
+  const useDates = !!columns.mapping.date && !!filter.start && !!filter.end;
+  const startTime = filter.start?.getTime() ?? 0;
+  const endTime = filter.end?.getTime() ?? 0;
+
+  // Each dimension filter becomes a lookup table over its codes
+  const allowed: { codes: Int32Array; accept: Uint8Array; acceptBlank: boolean }[] = [];
+  (filter.dimensions || []).forEach(({ field, values, mode }) => {
+    if (values.length === 0) return;  // nothing picked yet
+    const dimension = columns.dimensions[field];
+    // A filter on an unmapped dimension has no values to match
+    if (!dimension) {
+      if (mode === 'include') allowed.push({ codes: new Int32Array(columns.size).fill(BLANK), accept: new Uint8Array(0), acceptBlank: false });
+      return;
+    }
+    const listed = new Set(values);
+    const accept = new Uint8Array(dimension.values.length);
+    dimension.values.forEach((value, code) => { if (listed.has(value) === (mode === 'include')) accept[code] = 1; });
+    allowed.push({ codes: dimension.codes, accept, acceptBlank: mode === 'exclude' });
+  });
+
+  if (!useDates && allowed.length === 0) return null;
+
+  const selected = new Uint32Array(columns.size);
+  let count = 0;
+  rows: for (let i = 0; i < columns.size; i++) {
+    if (useDates) {
+      const time = columns.time[i];
+      if (!(time >= startTime && time <= endTime)) continue;
+    }
+    for (const { codes, accept, acceptBlank } of allowed) {
+      const code = codes[i];
+      if (code === BLANK ? !acceptBlank : !accept[code]) continue rows;
+    }
+    selected[count++] = i;
+  }
+  return selected.slice(0, count);
+}
+
+export interface GroupTotals {
+  count: Float64Array;    // rows per code
+  revenue: Float64Array;  // revenue per code
+}
+
+// Per IST day totals, indexed by day code. Order counts land on the day of the order's
+// first dated line, so each order is counted once across days.
+export interface DailyTotals {
+  lines: Float64Array;
+  orders: Float64Array;
+  gmv: Float64Array;        // as Aggregates.gmv
+  netSales: Float64Array;   // as Aggregates.netSales
+  units: Float64Array;
+  cancelled: Float64Array;  // orders with a cancelled line
+  returns: Float64Array;    // orders with a returned line
+  rto: Float64Array;        // orders with a line returned to origin
+}
+
+/**
+ * Totals at three grains: order lines (rows), orders (distinct order ids) and customers.
+ * An order counts as delivered, cancelled or returned when any of its lines is.
+ *
+ * Money splits every line's pre-discount value into discount plus what is left after it,
+ * and files that remainder under exactly one of cancelled, returned or net sales, so
+ * gmv = discounts + cancelledValue + returnedValue + netSales.
+ */
+export interface Aggregates {
+  lines: number;
+  orders: number;
+  customers: number;
+  units: number;
+  gmv: number;               // pre-discount value of every line
+  discounts: number;
+  cancelledValue: number;    // after-discount value of cancelled lines
+  returnedValue: number;     // after-discount value of returned lines that were not cancelled
+  rtoValue: number;          // the part of returnedValue that came back undelivered
+  netSales: number;          // after-discount value of lines neither cancelled nor returned
+  marketplaceFees: number;   // from the mapped settlement column
+  shippingFees: number;
+  deliveredOrders: number;
+  cancelledOrders: number;
+  returnedOrders: number;
+  rtoOrders: number;         // returned orders with an RTO line; the rest are customer returns
+  shippedOrders: number;     // orders with at least one line that was not cancelled
+  groups: Partial<Record<DimensionField, GroupTotals>>;
+  cancelledByReason: Float64Array | null;      // over cancellationReason codes
+  returnedByReason: Float64Array | null;       // returned lines over returnReason codes
+  returnGroups: Partial<Record<ReturnField, ReturnTotals>>;
+  returnLag: Float64Array;   // customer-returned lines per RETURN_LAG_BUCKETS entry
+  daily: DailyTotals;
+  articleDiscounts: { gross: Float64Array; discount: Float64Array } | null;  // over articleType codes
+  costedLines: number;       // kept lines whose SKU had a unit cost on the order date
+  costedSales: number;       // net sales of those lines
+  cogs: number;              // unit cost x units of those lines
+  margins: Partial<Record<MarginField, MarginTotals>>;  // empty without unit costs
+  tat: Float64Array;         // delivered lines per day of TAT, 0..MAX_TAT_DAYS
+  onTimeLines: number;       // delivered lines within their SLA
+  tatGroups: Partial<Record<TatField, TatTotals>>;
+  cancellationTiming: { beforeDispatch: number; afterDispatch: number } | null;  // cancelled lines
+}
+
+// Delivered lines per dimension value; `days` holds MAX_TAT_DAYS + 1 counts per code
+export interface TatTotals {
+  days: Float64Array;
+  delivered: Float64Array;
+  onTime: Float64Array;
+}
+
+export type MarginField = 'brand' | 'articleType' | 'sku';
+
+// Costed kept lines per dimension value
+export interface MarginTotals {
+  sales: Float64Array;
+  cogs: Float64Array;
+  units: Float64Array;
+}
+
+const MARGIN_FIELDS: MarginField[] = ['brand', 'articleType', 'sku'];
+
+// Line counts per dimension value; a line ships unless it was cancelled
+export interface ReturnTotals {
+  shipped: Float64Array;
+  returned: Float64Array;
+  rto: Float64Array;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TAT_SLOTS = MAX_TAT_DAYS + 1;
+
+const ORDER_SEEN = 1;
+const ORDER_DELIVERED = 2;
+const ORDER_CANCELLED = 4;
+const ORDER_RETURNED = 8;
+const ORDER_DATED = 16;
+const ORDER_CANCELLED_DATED = 32;
+const ORDER_RETURNED_DATED = 64;
+const ORDER_SHIPPED = 128;
+const ORDER_RTO = 256;
+const ORDER_RTO_DATED = 512;
+
+/**
+ * Every dashboard total in a single pass over the selected rows (all rows when `selection` is null).
+ * `unitCosts` holds each row's cost per unit (NaN when unknown); only kept lines carry cost.
+ * `slaDays` holds each row's delivery SLA; without it no delivery counts as on time.
+ */
+export function aggregate(
+  columns: ColumnarData, selection: Uint32Array | null,
+  revenueBasis: ProfitabilitySettings['revenueBasis'] = 'gross', unitCosts: Float64Array | null = null,
+  slaDays: Float64Array | null = null,
+): Aggregates {
+  const { dimensions, revenue, discount } = columns;
+  const fields = DIMENSION_FIELDS.filter(field => dimensions[field]);
+  const groups: Partial<Record<DimensionField, GroupTotals>> = {};
+  fields.forEach(field => {
+    const size = dimensions[field]!.values.length;
+    groups[field] = { count: new Float64Array(size), revenue: new Float64Array(size) };
+  });
+  const dims = fields.map(field => ({ codes: dimensions[field]!.codes, totals: groups[field]! }));
+
+  const reasons = columns.mapping.cancelledDate ? dimensions.cancellationReason : undefined;
+  const cancelledByReason = reasons ? new Float64Array(reasons.values.length) : null;
+  const returnReasons = dimensions.returnReason;
+  const returnedByReason = returnReasons ? new Float64Array(returnReasons.values.length) : null;
+  const returnGroups: Partial<Record<ReturnField, ReturnTotals>> = {};
+  RETURN_FIELDS.forEach(field => {
+    const size = dimensions[field]?.values.length;
+    if (size) returnGroups[field] = { shipped: new Float64Array(size), returned: new Float64Array(size), rto: new Float64Array(size) };
+  });
+  const returnDims = RETURN_FIELDS.filter(field => returnGroups[field]).map(field => ({ codes: dimensions[field]!.codes, totals: returnGroups[field]! }));
+  const returnLag = new Float64Array(RETURN_LAG_BUCKETS.length);
+  const articles = columns.mapping.discount ? dimensions.articleType : undefined;
+  const articleDiscounts = articles
+    ? { gross: new Float64Array(articles.values.length), discount: new Float64Array(articles.values.length) }
+    : null;
+  const days = columns.day.values.length;
+  const daily: DailyTotals = {
+    lines: new Float64Array(days), orders: new Float64Array(days), gmv: new Float64Array(days), netSales: new Float64Array(days), units: new Float64Array(days),
+    cancelled: new Float64Array(days), returns: new Float64Array(days), rto: new Float64Array(days),
+  };
+  // Per-order state bits, so every order-grain total counts an order at most once
+  const orderState = new Uint16Array(columns.orderSlots);
+  const customers = columns.customer;
+  const seenCustomer = customers ? new Uint8Array(customers.values.length) : null;
+
+  const margins: Partial<Record<MarginField, MarginTotals>> = {};
+  if (unitCosts) {
+    MARGIN_FIELDS.forEach(field => {
+      const size = dimensions[field]?.values.length;
+      if (size) margins[field] = { sales: new Float64Array(size), cogs: new Float64Array(size), units: new Float64Array(size) };
+    });
+  }
+  const marginDims = MARGIN_FIELDS.filter(field => margins[field]).map(field => ({ codes: dimensions[field]!.codes, totals: margins[field]! }));
+  const tat = new Float64Array(TAT_SLOTS);
+  const tatGroups: Partial<Record<TatField, TatTotals>> = {};
+  TAT_FIELDS.forEach(field => {
+    const size = dimensions[field]?.values.length;
+    if (size) tatGroups[field] = { days: new Float64Array(size * TAT_SLOTS), delivered: new Float64Array(size), onTime: new Float64Array(size) };
+  });
+  const tatDims = TAT_FIELDS.filter(field => tatGroups[field]).map(field => ({ codes: dimensions[field]!.codes, totals: tatGroups[field]! }));
+  const dispatched = columns.dispatched;
+  const cancellationTiming = dispatched ? { beforeDispatch: 0, afterDispatch: 0 } : null;
+  // A line counts as one unit when quantity is not mapped
+  const hasQuantity = !!columns.mapping.quantity;
+
+  const totals = {
+    costedLines: 0, costedSales: 0, cogs: 0, onTimeLines: 0,
+    lines: 0, orders: 0, customers: 0, units: 0, gmv: 0, discounts: 0, cancelledValue: 0, returnedValue: 0, rtoValue: 0, netSales: 0,
+    marketplaceFees: 0, shippingFees: 0, deliveredOrders: 0, cancelledOrders: 0, returnedOrders: 0, rtoOrders: 0, shippedOrders: 0,
+  };
+  const count = selection ? selection.length : columns.size;
+
+  for (let n = 0; n < count; n++) {
+    const i = selection ? selection[n] : n;
+    const rev = revenue[i];
+    const cancelled = columns.cancelled[i];
+    const returned = columns.returned[i];
+    const rto = columns.rto[i];
+    // Discount is a percentage of the pre-discount price, whichever side of it revenue is
+    const share = Math.min(Math.max(discount[i], 0), 100) / 100;
+    const gross = revenueBasis === 'gross' ? rev : share < 1 ? rev / (1 - share) : rev;
+    const net = revenueBasis === 'gross' ? rev * (1 - share) : rev;
+    totals.lines++;
+    totals.gmv += gross;
+    totals.discounts += gross - net;
+    totals.units += columns.quantity[i];
+    if (cancelled) totals.cancelledValue += net;
+    else if (returned) {
+      totals.returnedValue += net;
+      if (rto) totals.rtoValue += net;
+    }
+    else {
+      totals.netSales += net;
+      const unitCost = unitCosts ? unitCosts[i] : NaN;
+      if (!isNaN(unitCost)) {
+        const units = hasQuantity ? columns.quantity[i] : 1;
+        const cost = unitCost * units;
+        totals.costedLines++;
+        totals.costedSales += net;
+        totals.cogs += cost;
+        for (const { codes, totals: group } of marginDims) {
+          const code = codes[i];
+          if (code === BLANK) continue;
+          group.sales[code] += net;
+          group.cogs[code] += cost;
+          group.units[code] += units;
+        }
+      }
+    }
+    totals.marketplaceFees += columns.marketplaceFee[i];
+    totals.shippingFees += columns.shippingFee[i];
+
+    const order = columns.order[i];
+    const state = orderState[order];
+    let next = state | ORDER_SEEN;
+    if (!(state & ORDER_SEEN)) totals.orders++;
+    if (columns.delivered[i] && !(state & ORDER_DELIVERED)) {
+      totals.deliveredOrders++;
+      next |= ORDER_DELIVERED;
+    }
+    if (cancelled && !(state & ORDER_CANCELLED)) {
+      totals.cancelledOrders++;
+      next |= ORDER_CANCELLED;
+    }
+    if (returned && !(state & ORDER_RETURNED)) {
+      totals.returnedOrders++;
+      next |= ORDER_RETURNED;
+    }
+    if (rto && !(state & ORDER_RTO)) {
+      totals.rtoOrders++;
+      next |= ORDER_RTO;
+    }
+    if (!cancelled && !(state & ORDER_SHIPPED)) {
+      totals.shippedOrders++;
+      next |= ORDER_SHIPPED;
+    }
+
+    if (seenCustomer) {
+      const code = customers!.codes[i];
+      if (code !== BLANK && !seenCustomer[code]) {
+        seenCustomer[code] = 1;
+        totals.customers++;
+      }
+    }
+
+    for (const { codes, totals: group } of dims) {
+      const code = codes[i];
+      if (code === BLANK) continue;
+      group.count[code]++;
+      group.revenue[code] += rev;
+    }
+
+    if (cancelledByReason && columns.cancelled[i]) {
+      const code = reasons!.codes[i];
+      if (code !== BLANK) cancelledByReason[code]++;
+    }
+    if (!cancelled) {
+      for (const { codes, totals: group } of returnDims) {
+        const code = codes[i];
+        if (code === BLANK) continue;
+        group.shipped[code]++;
+        if (returned) group.returned[code]++;
+        if (rto) group.rto[code]++;
+      }
+    }
+    if (returned && returnedByReason) {
+      const code = returnReasons!.codes[i];
+      if (code !== BLANK) returnedByReason[code]++;
+    }
+    const days = columns.tatDays[i];
+    if (days >= 0) {
+      const onTime = slaDays !== null && days <= slaDays[i];
+      tat[Math.min(days, MAX_TAT_DAYS)]++;
+      if (onTime) totals.onTimeLines++;
+      for (const { codes, totals: group } of tatDims) {
+        const code = codes[i];
+        if (code === BLANK) continue;
+        group.days[code * TAT_SLOTS + Math.min(days, MAX_TAT_DAYS)]++;
+        group.delivered[code]++;
+        if (onTime) group.onTime[code]++;
+      }
+    }
+    if (cancelled && cancellationTiming) {
+      if (dispatched![i]) cancellationTiming.afterDispatch++;
+      else cancellationTiming.beforeDispatch++;
+    }
+    if (returned && !rto) {
+      const lag = (columns.returnTime[i] - columns.deliveredTime[i]) / DAY_MS;
+      if (lag >= 0) returnLag[lagBucket(Math.floor(lag))]++;
+    }
+    if (articleDiscounts) {
+      const code = articles!.codes[i];
+      if (code !== BLANK) {
+        articleDiscounts.gross[code] += gross;
+        articleDiscounts.discount[code] += gross - net;
+      }
+    }
+    const day = columns.day.codes[i];
+    if (day !== BLANK) {
+      daily.lines[day]++;
+      daily.gmv[day] += gross;
+      if (!cancelled && !returned) daily.netSales[day] += net;
+      daily.units[day] += columns.quantity[i];
+      if (!(state & ORDER_DATED)) {
+        daily.orders[day]++;
+        next |= ORDER_DATED;
+      }
+      if (cancelled && !(state & ORDER_CANCELLED_DATED)) {
+        daily.cancelled[day]++;
+        next |= ORDER_CANCELLED_DATED;
+      }
+      if (returned && !(state & ORDER_RETURNED_DATED)) {
+        daily.returns[day]++;
+        next |= ORDER_RETURNED_DATED;
+      }
+      if (rto && !(state & ORDER_RTO_DATED)) {
+        daily.rto[day]++;
+        next |= ORDER_RTO_DATED;
+      }
+    }
+    orderState[order] = next;
+  }
+
+  return { ...totals, groups, cancelledByReason, returnedByReason, returnGroups, returnLag, daily, articleDiscounts, margins, tat, tatGroups, cancellationTiming };
+}
+
+/**
+ * Values of a dimension that occur in the selection, ranked by `value` descending.
+ */
+export function rankGroups(dimension: Dimension | undefined, present: Float64Array | undefined, value: Float64Array | undefined, limit?: number): { name: string; value: number }[] {
+  if (!dimension || !present || !value) return [];
+  const ranked: { name: string; value: number }[] = [];
+  dimension.values.forEach((name, code) => {
+    if (present[code] > 0) ranked.push({ name, value: value[code] });
+  });
+  ranked.sort((a, b) => b.value - a.value);
+  return limit === undefined ? ranked : ranked.slice(0, limit);
+}
@@ -0,0 +1,96 @@
+import { gzipSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { DEDUP_KEY_PRESETS, planUploadMerge, resolveDedupKeys, rowIdentity } from '../dedup';
+import { amazonReportRows, amazonSpApiConnector, parseFlatFile } from './amazonSpApi';
+
+const credentials = {
+  clientId: 'client', clientSecret: 'secret', refreshToken: 'Atzr|token', marketplaceId: 'A21TJRUUN4KGV',
+  endpoint: 'https://sp.example.com', tokenUrl: 'https://auth.example.com/token',
+};
+const range = { start: '2024-03-01T00:00:00.000Z', end: '2024-03-31T23:59:59.999Z' };
+
+const REPORT = [
+  'amazon-order-id\tpurchase-date\tlast-updated-date\torder-status\titem-status\tproduct-name\tsku\tquantity\titem-price\titem-promotion-discount\tship-city\tship-state\tship-postal-code',
+  '403-1\t2024-03-02T10:00:00+00:00\t2024-03-03T10:00:00+00:00\tShipped\tShipped\tKurta\tK-1\t2\t1000\t-100\tPune\tMaharashtra\t411001',
+  '403-2\t2024-03-04T10:00:00+00:00\t2024-03-05T09:00:00+00:00\tCancelled\tCancelled\tDupatta\tD-1\t1\t500\t0\tAgra\tUttar Pradesh\t282001',
+].join('\n');
+
+const json = (body: unknown) => new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json' } });
+
+// A mock SP-API: the report moves through `statuses`, one per poll, then stays on the last
+function mockSpApi(statuses: string[], document: { body: BodyInit; compressionAlgorithm?: string } = { body: REPORT }) {
+  const polls: string[] = [];
+  const fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input);
+    if (url === credentials.tokenUrl) return json({ access_token: 'access' });
+    if (url === 'https://sp.example.com/reports/2021-06-30/reports' && init?.method === 'POST') return json({ reportId: 'R1' });
+    if (url.endsWith('/reports/R1')) {
+      const status = statuses[Math.min(polls.length, statuses.length - 1)];
+      polls.push(status);
+      return json({ processingStatus: status, reportDocumentId: status === 'DONE' ? 'D1' : undefined });
+    }
+    if (url.endsWith('/documents/D1')) return json({ url: 'https://download.example.com/D1', compressionAlgorithm: document.compressionAlgorithm });
+    if (url === 'https://download.example.com/D1') return new Response(document.body);
+    return new Response('Not Found', { status: 404, statusText: 'Not Found' });
+  }) as typeof globalThis.fetch;
+  const sleeps: number[] = [];
+  const sleep = async (ms: number) => { sleeps.push(ms); };
+  return { context: { fetch, sleep }, polls, sleeps };
+}
+
+describe('amazonSpApiConnector', () => {
+  it('polls the report until it is done and maps its rows', async () => {
+    const { context, polls, sleeps } = mockSpApi(['IN_QUEUE', 'IN_PROGRESS', 'DONE']);
+    const rows = await amazonSpApiConnector.pullOrders(credentials, range, context);
+    expect(polls).toEqual(['IN_QUEUE', 'IN_PROGRESS', 'DONE']);
+    expect(sleeps).toEqual([10_000, 10_000]);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ 'Order ID': '403-1', Quantity: 2, 'Unit Price': 500, Revenue: 900, 'Discount %': 10, City: 'Pune' });
+    expect(rows[1]).toMatchObject({ 'Order Status': 'Cancelled', 'Cancelled Date': '2024-03-05T09:00:00+00:00' });
+  });
+
+  it('decompresses a gzipped report', async () => {
+    const { context } = mockSpApi(['DONE'], { body: gzipSync(REPORT), compressionAlgorithm: 'GZIP' });
+    const rows = await amazonSpApiConnector.pullOrders(credentials, range, context);
+    expect(rows.map(row => row['Order ID'])).toEqual(['403-1', '403-2']);
+  });
+
+  it('returns no rows for a cancelled report', async () => {
+    const { context } = mockSpApi(['IN_PROGRESS', 'CANCELLED']);
+    expect(await amazonSpApiConnector.pullOrders(credentials, range, context)).toEqual([]);
+  });
+
+  it('fails when Amazon cannot generate the report', async () => {
+    const { context } = mockSpApi(['FATAL']);
+    await expect(amazonSpApiConnector.pullOrders(credentials, range, context)).rejects.toThrow('could not generate');
+  });
+
+  it('gives up after the last poll', async () => {
+    const { context, polls } = mockSpApi(['IN_PROGRESS']);
+    await expect(amazonSpApiConnector.pullOrders(credentials, range, context)).rejects.toThrow('Timed out');
+    expect(polls).toHaveLength(90);
+  });
+
+  it('names missing credentials before calling Amazon', async () => {
+    const { context, polls } = mockSpApi(['DONE']);
+    await expect(amazonSpApiConnector.pullOrders({ ...credentials, refreshToken: ' ' }, range, context)).rejects.toThrow('Missing Refresh Token.');
+    expect(polls).toEqual([]);
+  });
+
+  it('keeps same-SKU lines of an order apart when pulled again', () => {
+    const line = (status: string) => `403-3\t2024-03-06T10:00:00+00:00\t2024-03-07T10:00:00+00:00\t${status}\t${status}\tKurta\tK-1\t1\t500\t0\tPune\tMaharashtra\t411001`;
+    const pull = (...lines: string[]) => amazonReportRows(parseFlatFile([REPORT.split('\n')[0], ...lines].join('\n')));
+    const { mapping } = amazonSpApiConnector;
+    const keys = resolveDedupKeys(mapping, null);
+    expect(keys).toEqual(DEDUP_KEY_PRESETS.find(preset => preset.id === 'orderLine')!.fields);
+
+    const stored = pull(line('Shipped'), line('Shipped'));
+    const identities = stored.map(row => rowIdentity(row, mapping, keys));
+    expect(new Set(identities).size).toBe(2);
+
+    const plan = planUploadMerge(identities, index => stored[index], pull(line('Shipped'), line('Cancelled')), mapping, keys);
+    expect(plan.inserted).toEqual([]);
+    expect(plan.updates.map(update => update.index)).toEqual([1]);
+    expect(plan.unchanged).toBe(1);
+  });
+});
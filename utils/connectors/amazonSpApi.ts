@@ -0,0 +1,157 @@
+import { OrderData } from '../../types';
+import { Connector, ConnectorContext, ConnectorCredentials, ConnectorRange, connectorFetch, connectorMapping, connectorRow, defaultSleep, discountPercent, requireCredentials } from './common';
+
+/**
+ * Amazon Selling Partner API order report (all orders by order date). The report is
+ * requested, polled until Amazon has generated it, then downloaded as a tab-separated file
+ * with one row per order item.
+ */
+
+const REPORT_TYPE = 'GET_FLAT_FILE_ALL_ORDERS_DATA_BY_ORDER_DATE_GENERAL';
+const REPORTS_PATH = '/reports/2021-06-30';
+const DEFAULT_ENDPOINT = 'https://sellingpartnerapi-eu.amazon.com';  // India is served from the EU region
+const DEFAULT_TOKEN_URL = 'https://api.amazon.com/auth/o2/token';
+const POLL_INTERVAL_MS = 10_000;
+const MAX_POLLS = 90;
+
+const AMAZON_FIELDS = [
+  { key: 'clientId', label: 'LWA Client ID', placeholder: 'amzn1.application-oa2-client...' },
+  { key: 'clientSecret', label: 'LWA Client Secret', secret: true },
+  { key: 'refreshToken', label: 'Refresh Token', placeholder: 'Atzr|...', secret: true },
+  { key: 'marketplaceId', label: 'Marketplace ID', placeholder: 'A21TJRUUN4KGV (amazon.in)' },
+  { key: 'endpoint', label: 'SP-API Endpoint', optional: true, placeholder: DEFAULT_ENDPOINT, hint: 'Override for a CORS proxy or mock server.' },
+  { key: 'tokenUrl', label: 'Token URL', optional: true, placeholder: DEFAULT_TOKEN_URL },
+];
+
+const mapping = connectorMapping([
+  'date', 'orderId', 'orderLineId', 'item', 'sku', 'quantity', 'price', 'revenue', 'discount',
+  'city', 'state', 'zipcode', 'orderStatus', 'cancelledDate',
+]);
+
+/**
+ * Parses an SP-API flat file: tab separated, header row first, no quoting.
+ */
+export function parseFlatFile(text: string): Record<string, string>[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) return [];
+  const headers = lines[0].split('\t').map(h => h.trim());
+  return lines.slice(1).map(line => {
+    const cells = line.split('\t');
+    return Object.fromEntries(headers.map((header, i) => [header, (cells[i] ?? '').trim()]));
+  });
+}
+
+/**
+ * One report row onto the connector layout. Item price is the line total before promotions.
+ */
+export function amazonReportRow(row: Record<string, string>, orderLineId: string | null): OrderData {
+  const quantity = Number(row['quantity']) || 0;
+  const gross = Number(row['item-price']) || 0;
+  const discount = Math.abs(Number(row['item-promotion-discount']) || 0);
+  const status = row['item-status'] || row['order-status'] || null;
+  return connectorRow(mapping, {
+    date: row['purchase-date'] || null,
+    orderId: row['amazon-order-id'] || null,
+    orderLineId,
+    item: row['product-name'] || null,
+    sku: row['sku'] || null,
+    quantity,
+    price: quantity ? gross / quantity : gross,
+    revenue: gross - discount,
+    discount: discountPercent(discount, gross),
+    city: row['ship-city'] || null,
+    state: row['ship-state'] || null,
+    zipcode: row['ship-postal-code'] || null,
+    orderStatus: status,
+    cancelledDate: status === 'Cancelled' ? row['last-updated-date'] || null : null,
+  });
+}
+
+/**
+ * Report rows onto the connector layout. The report carries no order item id, so a line is
+ * keyed by its order id, SKU and how many lines before it in the report share both: split
+ * shipments and repeats of a SKU in one order stay separate rows when the range is pulled
+ * again, as Amazon lists an order's lines in the same order every time.
+ */
+export function amazonReportRows(records: Record<string, string>[]): OrderData[] {
+  const seen = new Map<string, number>();
+  return records.map(record => {
+    const orderId = record['amazon-order-id'];
+    if (!orderId) return amazonReportRow(record, null);
+    const key = `${orderId}|${record['sku'] || ''}`;
+    const occurrence = (seen.get(key) || 0) + 1;
+    seen.set(key, occurrence);
+    return amazonReportRow(record, `${key}|${occurrence}`);
+  });
+}
+
+async function accessToken(credentials: ConnectorCredentials, context: ConnectorContext): Promise<string> {
+  const response = await connectorFetch('Amazon login', credentials.tokenUrl?.trim() || DEFAULT_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: credentials.refreshToken.trim(),
+      client_id: credentials.clientId.trim(),
+      client_secret: credentials.clientSecret.trim(),
+    }).toString(),
+  }, context);
+  return (await response.json()).access_token;
+}
+
+async function downloadDocument(url: string, compression: string | undefined, context: ConnectorContext): Promise<string> {
+  const response = await connectorFetch('Amazon report download', url, {}, context);
+  if (compression !== 'GZIP' || !response.body) return response.text();
+  return new Response(response.body.pipeThrough(new DecompressionStream('gzip'))).text();
+}
+
+async function pullOrders(credentials: ConnectorCredentials, range: ConnectorRange, context: ConnectorContext = {}): Promise<OrderData[]> {
+  requireCredentials(credentials, AMAZON_FIELDS);
+  const endpoint = (credentials.endpoint?.trim() || DEFAULT_ENDPOINT).replace(/\/+$/, '');
+  const sleep = context.sleep || ((ms: number) => defaultSleep(ms, context.signal));
+
+  context.onProgress?.('Signing in to Amazon...');
+  const token = await accessToken(credentials, context);
+  const api = (path: string, init: RequestInit = {}) => connectorFetch('Amazon SP-API', `${endpoint}${REPORTS_PATH}${path}`, {
+    ...init,
+    headers: { 'x-amz-access-token': token, 'Content-Type': 'application/json', Accept: 'application/json' },
+  }, context).then(response => response.json());
+
+  context.onProgress?.('Requesting the Amazon order report...');
+  const { reportId } = await api('/reports', {
+    method: 'POST',
+    body: JSON.stringify({
+      reportType: REPORT_TYPE,
+      marketplaceIds: [credentials.marketplaceId.trim()],
+      dataStartTime: range.start,
+      dataEndTime: range.end,
+    }),
+  });
+
+  let documentId: string | null = null;
+  for (let poll = 0; poll < MAX_POLLS && !documentId; poll++) {
+    const report = await api(`/reports/${reportId}`);
+    if (report.processingStatus === 'DONE') documentId = report.reportDocumentId;
+    else if (report.processingStatus === 'CANCELLED') return [];  // Amazon cancels reports that would be empty
+    else if (report.processingStatus === 'FATAL') throw new Error('Amazon could not generate the order report.');
+    else {
+      context.onProgress?.(`Waiting for Amazon to generate the report (${report.processingStatus})...`);
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+  if (!documentId) throw new Error('Timed out waiting for the Amazon order report.');
+
+  context.onProgress?.('Downloading the Amazon order report...');
+  const document = await api(`/documents/${documentId}`);
+  const rows = amazonReportRows(parseFlatFile(await downloadDocument(document.url, document.compressionAlgorithm, context)));
+  context.onProgress?.(`Fetched ${rows.length.toLocaleString('en-IN')} Amazon order lines...`);
+  return rows;
+}
+
+export const amazonSpApiConnector: Connector = {
+  id: 'amazon-sp-api',
+  label: 'Amazon SP-API',
+  fields: AMAZON_FIELDS,
+  mapping,
+  pullOrders,
+};
@@ -0,0 +1,92 @@
+import { ColumnMapping, OrderData } from '../../types';
+import { MAPPING_FIELDS, emptyMapping } from '../mapping';
+
+/**
+ * Shared shape of the marketplace API connectors. A connector pulls the orders placed in a
+ * date range and returns one row per order line, keyed by the dashboard field labels, so a
+ * fixed built-in mapping reads them and no mapping review is needed.
+ */
+
+export interface ConnectorField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  secret?: boolean;
+  optional?: boolean;
+  hint?: string;
+}
+
+export interface ConnectorRange {
+  start: string;  // ISO timestamps, inclusive
+  end: string;
+}
+
+export interface ConnectorContext {
+  fetch?: typeof fetch;                  // swapped for a mock server's client in development
+  signal?: AbortSignal;
+  sleep?: (ms: number) => Promise<void>; // between report status polls
+  onProgress?: (message: string) => void;
+}
+
+export type ConnectorCredentials = Record<string, string>;
+
+export interface Connector {
+  id: string;
+  label: string;
+  fields: ConnectorField[];
+  mapping: ColumnMapping;
+  pullOrders(credentials: ConnectorCredentials, range: ConnectorRange, context?: ConnectorContext): Promise<OrderData[]>;
+}
+
+type ConnectorValues = Partial<Record<keyof ColumnMapping, string | number | null>>;
+
+const fieldLabel = (key: keyof ColumnMapping) => MAPPING_FIELDS.find(field => field.key === key)!.label;
+
+/**
+ * Built-in mapping for the fields a connector fills: each maps onto the column named after its label.
+ */
+export function connectorMapping(fields: (keyof ColumnMapping)[]): ColumnMapping {
+  const mapping = emptyMapping();
+  fields.forEach(key => { mapping[key] = fieldLabel(key); });
+  return mapping;
+}
+
+/**
+ * One order line in the layout `connectorMapping` reads.
+ */
+export function connectorRow(mapping: ColumnMapping, values: ConnectorValues): OrderData {
+  const row: OrderData = {};
+  (Object.keys(mapping) as (keyof ColumnMapping)[]).forEach(key => {
+    const column = mapping[key];
+    if (column) row[column] = values[key] ?? null;
+  });
+  return row;
+}
+
+export const discountPercent = (discount: number, gross: number) => (gross > 0 ? Math.round((discount / gross) * 10000) / 100 : 0);
+
+export function requireCredentials(credentials: ConnectorCredentials, fields: ConnectorField[]) {
+  const missing = fields.filter(field => !field.optional && !credentials[field.key]?.trim());
+  if (missing.length) throw new Error(`Missing ${missing.map(field => field.label).join(', ')}.`);
+}
+
+/**
+ * Fetches and checks a response, naming the API in the error so failures read clearly in the modal.
+ */
+export async function connectorFetch(api: string, url: string, init: RequestInit, context: ConnectorContext): Promise<Response> {
+  const fetchFn = context.fetch || fetch;
+  const response = await fetchFn(url, { ...init, signal: context.signal });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`${api} Error: ${response.status} ${response.statusText}${detail ? ` (${detail.slice(0, 200)})` : ''}`.trim());
+  }
+  return response;
+}
+
+export const defaultSleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
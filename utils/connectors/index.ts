@@ -0,0 +1,10 @@
+import { Connector } from './common';
+import { shopifyConnector } from './shopify';
+import { amazonSpApiConnector } from './amazonSpApi';
+
+export type { Connector, ConnectorContext, ConnectorCredentials, ConnectorField, ConnectorRange } from './common';
+
+// Add new connectors here; the upload modal lists them in this order
+export const CONNECTORS: Connector[] = [shopifyConnector, amazonSpApiConnector];
+
+export const findConnector = (id: string) => CONNECTORS.find(connector => connector.id === id) || null;
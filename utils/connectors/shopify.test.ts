@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { shopifyConnector, shopifyOrderLines } from './shopify';
+
+const credentials = { shop: 'kurta-co', accessToken: 'shpat_token', apiBaseUrl: '' };
+const range = { start: '2024-03-01T00:00:00.000Z', end: '2024-03-31T23:59:59.999Z' };
+
+const order = (id: number, overrides: Record<string, unknown> = {}) => ({
+  id, name: `#${id}`, created_at: '2024-03-02T10:00:00+05:30', email: 'asha@example.com',
+  customer: { first_name: 'Asha', last_name: 'Rao' },
+  shipping_address: { city: 'Pune', province: 'Maharashtra', zip: '411001' },
+  line_items: [{ id: id * 10, title: 'Kurta', sku: 'K-1', vendor: 'Kurta Co', quantity: 2, price: '500.00', total_discount: '100.00' }],
+  fulfillments: [], refunds: [],
+  ...overrides,
+});
+
+describe('shopifyConnector', () => {
+  it('follows the Link header across pages', async () => {
+    const requests: string[] = [];
+    const fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input);
+      requests.push(url);
+      expect(new Headers(init?.headers).get('X-Shopify-Access-Token')).toBe('shpat_token');
+      if (url.includes('page_info=2')) return Response.json({ orders: [order(3)] });
+      return Response.json({ orders: [order(1), order(2)] }, {
+        headers: { link: '<https://kurta-co.myshopify.com/admin/api/2024-01/orders.json?page_info=2>; rel="next"' },
+      });
+    }) as typeof globalThis.fetch;
+    const progress: string[] = [];
+
+    const rows = await shopifyConnector.pullOrders(credentials, range, { fetch, onProgress: message => progress.push(message) });
+    expect(rows.map(row => row['Order ID'])).toEqual(['#1', '#2', '#3']);
+    expect(requests).toHaveLength(2);
+    expect(new URL(requests[0]).searchParams.get('created_at_min')).toBe(range.start);
+    expect(requests[0].startsWith('https://kurta-co.myshopify.com/admin/api/2024-01/orders.json?')).toBe(true);
+    expect(progress.at(-1)).toBe('Fetched 3 Shopify orders...');
+  });
+
+  it('names the API and status when a request fails', async () => {
+    const fetch = (async () => new Response('Invalid API key', { status: 401, statusText: 'Unauthorized' })) as typeof globalThis.fetch;
+    await expect(shopifyConnector.pullOrders(credentials, range, { fetch })).rejects.toThrow('Shopify API Error: 401 Unauthorized (Invalid API key)');
+  });
+});
+
+describe('shopifyOrderLines', () => {
+  it('takes revenue after the line discount', () => {
+    const [line] = shopifyOrderLines(order(1));
+    expect(line).toMatchObject({ Customer: 'Asha Rao', Quantity: 2, 'Unit Price': 500, Revenue: 900, 'Discount %': 10, 'Order Status': 'Pending' });
+  });
+
+  it('folds fulfilment and refunds into status and dates', () => {
+    const [delivered] = shopifyOrderLines(order(1, {
+      fulfillments: [{ line_items: [{ id: 10 }], shipment_status: 'delivered', updated_at: '2024-03-05T12:00:00+05:30', tracking_company: 'Delhivery' }],
+    }));
+    expect(delivered).toMatchObject({ 'Order Status': 'Delivered', 'Delivered Date': '2024-03-05T12:00:00+05:30', Courier: 'Delhivery' });
+
+    const [returned] = shopifyOrderLines(order(1, { refunds: [{ created_at: '2024-03-09T09:00:00+05:30', refund_line_items: [{ line_item_id: 10 }] }] }));
+    expect(returned).toMatchObject({ 'Order Status': 'Returned', 'Return Date': '2024-03-09T09:00:00+05:30' });
+
+    const [cancelled] = shopifyOrderLines(order(1, { cancelled_at: '2024-03-03T08:00:00+05:30', cancel_reason: 'customer' }));
+    expect(cancelled).toMatchObject({ 'Order Status': 'Cancelled', 'Cancelled Date': '2024-03-03T08:00:00+05:30', 'Cancellation Reason': 'customer' });
+  });
+});
@@ -0,0 +1,110 @@
+import { OrderData } from '../../types';
+import { Connector, ConnectorContext, ConnectorCredentials, ConnectorRange, connectorFetch, connectorMapping, connectorRow, discountPercent, requireCredentials } from './common';
+
+/**
+ * Shopify Admin REST API orders: one row per line item, with fulfilment and refund details
+ * folded into the line's status and dates.
+ */
+
+const API_VERSION = '2024-01';
+const PAGE_SIZE = 250;
+
+const SHOPIFY_FIELDS = [
+  { key: 'shop', label: 'Store', placeholder: 'your-store.myshopify.com' },
+  { key: 'accessToken', label: 'Admin API Access Token', placeholder: 'shpat_...', secret: true },
+  { key: 'apiBaseUrl', label: 'API Base URL', optional: true, placeholder: `https://your-store.myshopify.com/admin/api/${API_VERSION}`, hint: 'Only for a CORS proxy or mock server.' },
+];
+
+const mapping = connectorMapping([
+  'date', 'orderId', 'orderLineId', 'customer', 'item', 'sku', 'brand', 'quantity', 'price', 'revenue', 'discount',
+  'city', 'state', 'zipcode', 'orderStatus', 'cancellationReason', 'courier', 'cancelledDate', 'deliveredDate', 'returnDate',
+]);
+
+const baseUrl = (credentials: ConnectorCredentials) => {
+  if (credentials.apiBaseUrl?.trim()) return credentials.apiBaseUrl.trim().replace(/\/+$/, '');
+  const host = credentials.shop.trim().replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+  return `https://${host.includes('.') ? host : `${host}.myshopify.com`}/admin/api/${API_VERSION}`;
+};
+
+// Shopify paginates with a cursor URL in the Link header
+const nextPageUrl = (link: string | null) => link?.match(/<([^>]+)>;\s*rel="next"/)?.[1] || null;
+
+const text = (value: unknown) => (value === null || value === undefined || value === '' ? null : String(value));
+
+/**
+ * Flattens one Shopify order into order-line rows.
+ */
+export function shopifyOrderLines(order: any): OrderData[] {
+  const customer = [order.customer?.first_name, order.customer?.last_name].filter(Boolean).join(' ') || order.email || null;
+  const address = order.shipping_address || order.billing_address || {};
+  const fulfillments: any[] = order.fulfillments || [];
+  const refunds: any[] = order.refunds || [];
+
+  return (order.line_items || []).map((line: any) => {
+    const fulfillment = fulfillments.find(f => (f.line_items || []).some((l: any) => l.id === line.id)) || fulfillments[0];
+    const refund = refunds.find(r => (r.refund_line_items || []).some((l: any) => l.line_item_id === line.id));
+    const delivered = fulfillment?.shipment_status === 'delivered';
+
+    const quantity = Number(line.quantity) || 0;
+    const price = Number(line.price) || 0;
+    const gross = price * quantity;
+    const discount = (line.discount_allocations || []).reduce((sum: number, d: any) => sum + (Number(d.amount) || 0), 0) || Number(line.total_discount) || 0;
+
+    const status = order.cancelled_at ? 'Cancelled'
+      : refund ? 'Returned'
+      : delivered ? 'Delivered'
+      : fulfillment ? 'Shipped'
+      : 'Pending';
+
+    return connectorRow(mapping, {
+      date: order.created_at,
+      orderId: text(order.name) || text(order.id),
+      orderLineId: text(line.id),
+      customer,
+      item: text(line.title),
+      sku: text(line.sku),
+      brand: text(line.vendor),
+      quantity,
+      price,
+      revenue: gross - discount,
+      discount: discountPercent(discount, gross),
+      city: text(address.city),
+      state: text(address.province),
+      zipcode: text(address.zip),
+      orderStatus: status,
+      cancellationReason: text(order.cancel_reason),
+      courier: text(fulfillment?.tracking_company),
+      cancelledDate: text(order.cancelled_at),
+      deliveredDate: delivered ? text(fulfillment.updated_at) : null,
+      returnDate: refund ? text(refund.created_at) : null,
+    });
+  });
+}
+
+async function pullOrders(credentials: ConnectorCredentials, range: ConnectorRange, context: ConnectorContext = {}): Promise<OrderData[]> {
+  requireCredentials(credentials, SHOPIFY_FIELDS);
+  const params = new URLSearchParams({ status: 'any', limit: String(PAGE_SIZE), created_at_min: range.start, created_at_max: range.end });
+  let url: string | null = `${baseUrl(credentials)}/orders.json?${params}`;
+  const rows: OrderData[] = [];
+  let orders = 0;
+
+  while (url) {
+    const response = await connectorFetch('Shopify API', url, {
+      headers: { 'X-Shopify-Access-Token': credentials.accessToken.trim(), Accept: 'application/json' },
+    }, context);
+    const body = await response.json();
+    (body.orders || []).forEach((order: any) => rows.push(...shopifyOrderLines(order)));
+    orders += (body.orders || []).length;
+    context.onProgress?.(`Fetched ${orders.toLocaleString('en-IN')} Shopify orders...`);
+    url = nextPageUrl(response.headers.get('link'));
+  }
+  return rows;
+}
+
+export const shopifyConnector: Connector = {
+  id: 'shopify',
+  label: 'Shopify',
+  fields: SHOPIFY_FIELDS,
+  mapping,
+  pullOrders,
+};
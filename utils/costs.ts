@@ -0,0 +1,111 @@
+import { OrderData, ProductCost } from '../types';
+import { BLANK, ColumnarData } from './columnar';
+import { createColumnDateParser, istDayKey, parseDate } from './dates';
+import { isBlank } from './mapping';
+
+/**
+ * Cost master: unit cost (COGS) per SKU with the date each price takes effect. Orders are
+ * costed at the price in force on their order date, joined through the mapped `sku` column.
+ */
+
+// Entries uploaded without a date apply to every order
+export const ALWAYS_VALID_FROM = '1970-01-01';
+
+// Cost sheets come from purchase or ERP exports, so a few header spellings are accepted
+const HEADER_ALIASES: Record<keyof ProductCost, string[]> = {
+  sku: ['sku', 'skucode', 'skuid', 'sellersku', 'stylecode', 'articlecode'],
+  unitCost: ['unitcost', 'cost', 'cogs', 'costprice', 'cp', 'purchaseprice'],
+  validFrom: ['validfrom', 'effectivefrom', 'effectivedate', 'fromdate', 'startdate', 'date'],
+};
+
+// SKUs are keyed case-insensitively; exports disagree on case and padding
+export const normalizeSku = (value: unknown) => String(value).trim().toUpperCase();
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export interface ParsedCostSheet {
+  costs: ProductCost[];
+  errors: string[];   // one message per rejected row, with its spreadsheet row number
+}
+
+/**
+ * Reads cost rows out of a parsed CSV. Later rows win when a SKU and date repeat.
+ */
+export function parseCostSheet(rows: OrderData[]): ParsedCostSheet {
+  const headers = rows.length ? Object.keys(rows[0]) : [];
+  const find = (field: keyof ProductCost) => headers.find(header => HEADER_ALIASES[field].includes(headerKey(header)));
+  const skuColumn = find('sku');
+  const costColumn = find('unitCost');
+  const dateColumn = find('validFrom');
+  if (!skuColumn || !costColumn) {
+    return { costs: [], errors: ['The file needs a SKU column and a cost column (e.g. "SKU", "Unit Cost", optional "Valid From").'] };
+  }
+
+  const parseValidFrom = dateColumn ? createColumnDateParser(rows.map(row => row[dateColumn])) : parseDate;
+  const byKey = new Map<string, ProductCost>();
+  const errors: string[] = [];
+  rows.forEach((row, index) => {
+    const line = index + 2;  // header is row 1
+    if (isBlank(row[skuColumn])) {
+      if (!isBlank(row[costColumn])) errors.push(`Row ${line}: SKU is empty.`);
+      return;
+    }
+    const sku = normalizeSku(row[skuColumn]);
+    const unitCost = Number(String(row[costColumn]).replace(/[,\s₹]/g, ''));
+    if (isBlank(row[costColumn]) || isNaN(unitCost) || unitCost < 0) {
+      errors.push(`Row ${line}: "${row[costColumn] ?? ''}" is not a valid cost for ${sku}.`);
+      return;
+    }
+    let validFrom = ALWAYS_VALID_FROM;
+    if (dateColumn && !isBlank(row[dateColumn])) {
+      const date = parseValidFrom(row[dateColumn]);
+      if (!date) {
+        errors.push(`Row ${line}: "${row[dateColumn]}" is not a valid date for ${sku}.`);
+        return;
+      }
+      validFrom = istDayKey(date);
+    }
+    byKey.set(`${sku}|${validFrom}`, { sku, validFrom, unitCost });
+  });
+  return { costs: [...byKey.values()], errors };
+}
+
+/**
+ * Each row's unit cost on its order date, NaN when its SKU has no price in force then. Rows
+ * without a usable date take the latest price.
+ */
+export function rowUnitCosts(columns: ColumnarData, costs: ProductCost[]): Float64Array {
+  const unitCosts = new Float64Array(columns.size).fill(NaN);
+  const skus = columns.dimensions.sku;
+  if (!skus || costs.length === 0) return unitCosts;
+
+  const bySku = new Map<string, { from: number; unitCost: number }[]>();
+  costs.forEach(cost => {
+    const from = parseDate(cost.validFrom)?.getTime();
+    if (from === undefined) return;
+    const entries = bySku.get(cost.sku) || [];
+    entries.push({ from, unitCost: cost.unitCost });
+    bySku.set(cost.sku, entries);
+  });
+  bySku.forEach(entries => entries.sort((a, b) => a.from - b.from));
+  // Resolved once per distinct SKU value rather than per row
+  const entriesByCode = skus.values.map(value => bySku.get(normalizeSku(value)));
+
+  for (let i = 0; i < columns.size; i++) {
+    const code = skus.codes[i];
+    const entries = code === BLANK ? undefined : entriesByCode[code];
+    if (!entries) continue;
+    const time = columns.time[i];
+    if (isNaN(time)) {
+      unitCosts[i] = entries[entries.length - 1].unitCost;
+      continue;
+    }
+    for (let e = entries.length - 1; e >= 0; e--) {
+      if (entries[e].from <= time) {
+        unitCosts[i] = entries[e].unitCost;
+        break;
+      }
+    }
+  }
+  return unitCosts;
+}
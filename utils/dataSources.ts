@@ -0,0 +1,39 @@
+import { ColumnMapping, DataSource, OrderData, QualityReport } from '../types';
+import { createIngestSession, IngestSession } from './ingestClient';
+import { findSavedMapping } from './templates';
+
+export interface PulledSource {
+  rows: OrderData[];
+  mapping: ColumnMapping;
+  qualityReport: QualityReport;
+}
+
+/**
+ * Whether a scheduled source should be pulled now. Sources without an interval never are.
+ */
+export function isRefreshDue(source: DataSource, now = Date.now()): boolean {
+  if (!source.id || !source.refreshMinutes) return false;
+  if (!source.lastPulledAt) return true;
+  return now - new Date(source.lastPulledAt).getTime() >= source.refreshMinutes * 60_000;
+}
+
+/**
+ * Pulls a saved source without a review step: fetch, profile and clean in the ingest worker,
+ * mapped by the template saved for its layout. A layout nobody has confirmed a mapping for
+ * is refused rather than guessed, so the source has to be pulled once by hand first.
+ */
+export async function pullDataSource(source: DataSource, session: IngestSession = createIngestSession()): Promise<PulledSource> {
+  try {
+    const { sheets: [sheet] } = await session.load({ kind: 'url', config: source.config });
+    const resolved = await findSavedMapping(sheet.headers);
+    if (!resolved) {
+      throw new Error('The response layout has no saved mapping. Pull this source from Upload New Data once to review it.');
+    }
+    const { mapping } = await session.combine([{ name: sheet.name, mapping: resolved.mapping }], 'append');
+    const qualityReport = await session.qualityReport(mapping);
+    const rows = await session.prepare(mapping);
+    return { rows, mapping, qualityReport };
+  } finally {
+    session.dispose();
+  }
+}
@@ -0,0 +1,232 @@
+import { ComparisonMode, DateRange, OrderData } from '../types';
+
+/**
+ * Single source of truth for reading marketplace dates.
+ *
+ * Timestamps without an explicit zone are read as India Standard Time, which is what
+ * every marketplace export we ingest uses. Calendar questions (which day, month or year
+ * an order belongs to) are also answered in IST, so a purge, a dashboard filter and a
+ * chart bucket always agree on where a row falls regardless of the browser's timezone.
+ */
+
+export type DateFormat = 'dmy' | 'mdy';
+
+const IST_OFFSET_MINUTES = 330;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Day 0 of the Excel 1900 date system, adjusted for its phantom 29 Feb 1900
+const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30);
+// Serial numbers for 1990-01-01 .. 2100-01-01; anything else in a date column is not a date
+const EXCEL_SERIAL_MIN = 32874;
+const EXCEL_SERIAL_MAX = 73051;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const ISO_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?\s*(Z|[+-]\d{2}:?\d{2}|IST|UTC|GMT)?$/i;
+const NUMERIC_PATTERN = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{2,4})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?)?\s*(Z|[+-]\d{2}:?\d{2}|IST|UTC|GMT)?$/i;
+const DAY_MONTH_NAME_PATTERN = /^(\d{1,2})[- ]([A-Za-z]{3,9})[- ,]+(\d{2,4})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?)?\s*(Z|[+-]\d{2}:?\d{2}|IST|UTC|GMT)?$/i;
+const MONTH_NAME_DAY_PATTERN = /^([A-Za-z]{3,9}) (\d{1,2}),? (\d{4})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?)?\s*(Z|[+-]\d{2}:?\d{2}|IST|UTC|GMT)?$/i;
+
+function offsetMinutes(zone: string | undefined): number {
+  if (!zone) return IST_OFFSET_MINUTES;
+  const upper = zone.toUpperCase();
+  if (upper === 'IST') return IST_OFFSET_MINUTES;
+  if (upper === 'Z' || upper === 'UTC' || upper === 'GMT') return 0;
+  const sign = upper.startsWith('-') ? -1 : 1;
+  const digits = upper.slice(1).replace(':', '');
+  return sign * (parseInt(digits.slice(0, 2), 10) * 60 + parseInt(digits.slice(2, 4), 10));
+}
+
+function to24Hour(hour: number, meridiem: string | undefined): number {
+  if (!meridiem) return hour;
+  const isPm = meridiem.toLowerCase() === 'pm';
+  if (hour === 12) return isPm ? 12 : 0;
+  return isPm ? hour + 12 : hour;
+}
+
+function expandYear(year: number): number {
+  return year < 100 ? year + 2000 : year;
+}
+
+/**
+ * Builds an instant from wall-clock parts in the given offset, rejecting impossible dates like 31/02.
+ */
+function fromParts(year: number, month: number, day: number, hour = 0, minute = 0, second = 0, ms = 0, offset = IST_OFFSET_MINUTES): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) return null;
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second, ms);
+  const check = new Date(wallClock);
+  if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return null;
+  return new Date(wallClock - offset * MINUTE_MS);
+}
+
+function fromExcelSerial(serial: number): Date | null {
+  if (serial < EXCEL_SERIAL_MIN || serial > EXCEL_SERIAL_MAX) return null;
+  // The serial is a wall-clock value in the workbook's (IST) timezone
+  return new Date(EXCEL_EPOCH_UTC + Math.round(serial * DAY_MS) - IST_OFFSET_MINUTES * MINUTE_MS);
+}
+
+const monthFromName = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+/**
+ * Parses any date shape found in our exports: Date objects, Excel serial numbers,
+ * ISO 8601 (with or without offset), `DD-MM-YYYY HH:mm`, `01-May-2024` and `May 1, 2024`.
+ * Ambiguous numeric dates follow `format`, which defaults to the Indian day-first order.
+ */
+export function parseDate(value: unknown, format: DateFormat = 'dmy'): Date | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'number') return fromExcelSerial(value);
+
+  const s = String(value).trim();
+  if (!s) return null;
+
+  if (/^\d{5}(\.\d+)?$/.test(s)) return fromExcelSerial(parseFloat(s));
+
+  let m = s.match(ISO_PATTERN);
+  if (m) {
+    return fromParts(+m[1], +m[2], +m[3], +(m[4] || 0), +(m[5] || 0), +(m[6] || 0), +((m[7] || '0').padEnd(3, '0')), offsetMinutes(m[8]));
+  }
+
+  m = s.match(NUMERIC_PATTERN);
+  if (m) {
+    const [a, b, c] = [+m[1], +m[2], +m[3]];
+    const hour = to24Hour(+(m[4] || 0), m[7]);
+    const offset = offsetMinutes(m[8]);
+    if (m[1].length === 4) return fromParts(a, b, c, hour, +(m[5] || 0), +(m[6] || 0), 0, offset);
+    const [day, month] = format === 'mdy' ? [b, a] : [a, b];
+    // A value like 25/12 in a month-first column (or 12/25 in a day-first one) can only mean one thing
+    return fromParts(expandYear(c), month, day, hour, +(m[5] || 0), +(m[6] || 0), 0, offset)
+      || fromParts(expandYear(c), day, month, hour, +(m[5] || 0), +(m[6] || 0), 0, offset);
+  }
+
+  m = s.match(DAY_MONTH_NAME_PATTERN);
+  if (m && monthFromName(m[2]) > 0) {
+    return fromParts(expandYear(+m[3]), monthFromName(m[2]), +m[1], to24Hour(+(m[4] || 0), m[7]), +(m[5] || 0), +(m[6] || 0), 0, offsetMinutes(m[8]));
+  }
+
+  m = s.match(MONTH_NAME_DAY_PATTERN);
+  if (m && monthFromName(m[1]) > 0) {
+    return fromParts(+m[3], monthFromName(m[1]), +m[2], to24Hour(+(m[4] || 0), m[7]), +(m[5] || 0), +(m[6] || 0), 0, offsetMinutes(m[8]));
+  }
+
+  // Last resort for fully qualified strings such as `Wed May 01 2024 10:00:00 GMT+0530`.
+  // Bare numbers are excluded because the native parser accepts things like "1".
+  if (/[A-Za-z]{3}/.test(s) && /\d{4}/.test(s)) {
+    const native = new Date(s);
+    if (!isNaN(native.getTime())) return native;
+  }
+  return null;
+}
+
+/**
+ * Decides whether a column writes numeric dates day-first or month-first. Any component
+ * above 12 settles it; fully ambiguous columns stay day-first.
+ */
+export function detectDateFormat(values: unknown[]): DateFormat {
+  let dayFirstEvidence = 0;
+  let monthFirstEvidence = 0;
+  values.forEach(value => {
+    if (typeof value !== 'string') return;
+    const m = value.trim().match(NUMERIC_PATTERN);
+    if (!m || m[1].length === 4) return;
+    if (+m[1] > 12) dayFirstEvidence++;
+    if (+m[2] > 12) monthFirstEvidence++;
+  });
+  return monthFirstEvidence > dayFirstEvidence ? 'mdy' : 'dmy';
+}
+
+/**
+ * Returns a parser bound to the format detected from a column's values.
+ */
+export function createColumnDateParser(values: unknown[]): (value: unknown) => Date | null {
+  const format = detectDateFormat(values);
+  return value => parseDate(value, format);
+}
+
+/**
+ * Parser for a stored date column. Uploads are saved as ISO strings, but rows stored before
+ * that keep their source's numeric layout, so an `mdy` export must not be re-read day-first.
+ */
+export function storedColumnDateParser(rows: OrderData[], column: string): (value: unknown) => Date | null {
+  return createColumnDateParser(rows.map(row => row[column]));
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+const shiftToIst = (date: Date) => new Date(date.getTime() + IST_OFFSET_MINUTES * MINUTE_MS);
+
+/**
+ * Calendar position of an instant in IST. `month` is zero-based like Date#getMonth.
+ */
+export function istCalendar(date: Date): { year: number; month: number; day: number } {
+  const shifted = shiftToIst(date);
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth(), day: shifted.getUTCDate() };
+}
+
+/**
+ * `YYYY-MM-DD` of the IST calendar day an instant falls on.
+ */
+export function istDayKey(date: Date): string {
+  const { year, month, day } = istCalendar(date);
+  return `${year}-${pad(month + 1)}-${pad(day)}`;
+}
+
+/**
+ * Days since the epoch of the IST calendar day an instant falls on; differences count calendar days.
+ */
+export function istDayNumber(time: number): number {
+  return Math.floor((time + IST_OFFSET_MINUTES * MINUTE_MS) / DAY_MS);
+}
+
+/**
+ * Instant for an IST wall-clock time; `month` is zero-based. Day overflow rolls like the Date constructor.
+ */
+export function istDate(year: number, month: number, day = 1, hour = 0, minute = 0, second = 0, ms = 0): Date {
+  return new Date(Date.UTC(year, month, day, hour, minute, second, ms) - IST_OFFSET_MINUTES * MINUTE_MS);
+}
+
+/**
+ * The same IST wall-clock time `years` later (earlier when negative); 29 Feb lands on 28 Feb.
+ */
+export function shiftIstYears(date: Date, years: number): Date {
+  const { year, month, day } = istCalendar(date);
+  const timeOfDay = date.getTime() - istDate(year, month, day).getTime();
+  const lastDay = new Date(Date.UTC(year + years, month + 1, 0)).getUTCDate();
+  return new Date(istDate(year + years, month, Math.min(day, lastDay)).getTime() + timeOfDay);
+}
+
+/**
+ * Period to compare a date range against. The previous period is the equally long span
+ * ending just before `range` starts; relative modes need a bounded range.
+ */
+export function comparisonRange(range: DateRange, mode: ComparisonMode, custom: DateRange): DateRange | null {
+  if (mode === 'custom') return custom.start && custom.end ? custom : null;
+  if (mode === 'none' || !range.start || !range.end) return null;
+  if (mode === 'lastYear') return { start: shiftIstYears(range.start, -1), end: shiftIstYears(range.end, -1) };
+  const length = range.end.getTime() - range.start.getTime() + 1;
+  return { start: new Date(range.start.getTime() - length), end: new Date(range.start.getTime() - 1) };
+}
+
+/**
+ * Canonical storage form, e.g. `2024-05-01T10:30:00+05:30`.
+ */
+export function toIstIsoString(date: Date): string {
+  const shifted = shiftToIst(date);
+  return `${istDayKey(date)}T${pad(shifted.getUTCHours())}:${pad(shifted.getUTCMinutes())}:${pad(shifted.getUTCSeconds())}+05:30`;
+}
+
+/**
+ * Rewrites the given date columns into canonical IST ISO strings, detecting each column's
+ * day/month order from its own values. Cells that cannot be parsed are left untouched.
+ */
+export function normalizeDateColumns(data: OrderData[], columns: string[]): OrderData[] {
+  const parsers = columns.map(column => ({ column, parse: createColumnDateParser(data.map(row => row[column])) }));
+  return data.map(row => {
+    const newRow = { ...row };
+    parsers.forEach(({ column, parse }) => {
+      const date = parse(newRow[column]);
+      if (date) newRow[column] = toIstIsoString(date);
+    });
+    return newRow;
+  });
+}
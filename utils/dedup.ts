@@ -0,0 +1,189 @@
+import { ColumnMapping, OrderData } from '../types';
+import { hashString } from './hash';
+import { isBlank } from './mapping';
+
+/**
+ * Business-key deduplication for uploads.
+ *
+ * Marketplace reports are re-exported as orders move through their lifecycle, so the same
+ * order line arrives again with a new status or a freshly filled delivered/return date.
+ * Rows are therefore identified by a configurable set of mapping fields (order line id,
+ * or order id + SKU) and a re-uploaded line updates the stored one instead of adding a
+ * second copy. Rows missing any key value fall back to whole-row identity.
+ */
+
+export type DedupKeyFields = (keyof ColumnMapping)[];
+
+export interface DedupKeyPreset {
+  id: string;
+  label: string;
+  fields: DedupKeyFields;
+}
+
+export const DEDUP_KEY_PRESETS: DedupKeyPreset[] = [
+  { id: 'orderLine', label: 'Order Line ID', fields: ['orderLineId'] },
+  { id: 'orderSku', label: 'Order ID + SKU', fields: ['orderId', 'sku'] },
+  { id: 'row', label: 'Entire row', fields: [] },
+];
+
+export interface UploadMerge {
+  data: OrderData[];                                     // existing rows with updates applied, then inserts
+  inserted: OrderData[];
+  updated: { previous: OrderData; next: OrderData }[];
+  unchanged: number;
+}
+
+const serializeRow = (row: OrderData) => JSON.stringify(Object.entries(row).sort((a, b) => a[0].localeCompare(b[0])));
+
+/**
+ * Key fields used when a domain has none saved: the most specific identifier the mapping has.
+ */
+export function defaultDedupKeys(mapping: ColumnMapping): DedupKeyFields {
+  if (mapping.orderLineId) return ['orderLineId'];
+  if (mapping.orderId && mapping.sku) return ['orderId', 'sku'];
+  return [];
+}
+
+/**
+ * The saved key fields if every one of them is still mapped, otherwise the default.
+ */
+export function resolveDedupKeys(mapping: ColumnMapping, saved?: DedupKeyFields | null): DedupKeyFields {
+  if (saved && saved.every(field => !!mapping[field])) return saved;
+  return defaultDedupKeys(mapping);
+}
+
+/**
+ * Joined key values of a row, or null when there are no key fields or any value is blank.
+ */
+export function businessKey(row: OrderData, mapping: ColumnMapping, fields: DedupKeyFields): string | null {
+  if (fields.length === 0) return null;
+  const values: string[] = [];
+  for (const field of fields) {
+    const column = mapping[field];
+    if (!column || isBlank(row[column])) return null;
+    values.push(String(row[column]).trim());
+  }
+  return values.join('|');
+}
+
+/**
+ * What a row is deduplicated on: its business key when it has one, else a hash of its full
+ * contents, so identities stay short enough to hand to a worker for a whole domain.
+ */
+export function rowIdentity(row: OrderData, mapping: ColumnMapping, fields: DedupKeyFields): string {
+  const key = businessKey(row, mapping, fields);
+  return key !== null ? `key:${key}` : `row:${hashString(serializeRow(row))}`;
+}
+
+// Stored rows are replaced rather than edited, so an identity stays valid for as long as its
+// row object lives, under the same key columns
+const identityCache = new WeakMap<OrderData, { keyColumns: string; identity: string }>();
+
+/**
+ * `rowIdentity` of each stored row, computed once per row and key columns, so a domain's
+ * rows are only hashed again when they change or the dedup keys do.
+ */
+export function storedRowIdentities(rows: OrderData[], mapping: ColumnMapping, fields: DedupKeyFields): string[] {
+  const keyColumns = JSON.stringify(fields.map(field => mapping[field]));
+  return rows.map(row => {
+    const cached = identityCache.get(row);
+    if (cached && cached.keyColumns === keyColumns) return cached.identity;
+    const identity = rowIdentity(row, mapping, fields);
+    identityCache.set(row, { keyColumns, identity });
+    return identity;
+  });
+}
+
+/**
+ * Overlays a newer export of a row on the stored one. Non-blank cells win, so a status
+ * or delivered/return date filled in later overwrites the old value, while a column the
+ * newer report leaves empty never erases what is already known.
+ */
+function mergeRow(previous: OrderData, next: OrderData): OrderData {
+  const merged = { ...previous };
+  Object.entries(next).forEach(([column, value]) => {
+    if (!isBlank(value) || !(column in merged)) merged[column] = value;
+  });
+  return merged;
+}
+
+/**
+ * Index-based outcome of merging an upload into stored rows. It holds no references to the
+ * stored rows themselves, so it can be computed in a worker and applied on the main thread.
+ */
+export interface MergePlan {
+  inserted: OrderData[];
+  updates: { index: number; next: OrderData }[];  // index into the existing rows
+  unchanged: number;
+}
+
+const indexIdentities = (identities: string[]) => {
+  const indexByIdentity = new Map<string, number>();
+  identities.forEach((identity, i) => indexByIdentity.set(identity, i));
+  return indexByIdentity;
+};
+
+/**
+ * Indices of the stored rows an upload matches, given each stored row's `rowIdentity`.
+ * These are the only stored rows whose contents a merge needs.
+ */
+export function matchStoredRows(existingIdentities: string[], incoming: OrderData[], mapping: ColumnMapping, fields: DedupKeyFields): number[] {
+  const indexByIdentity = indexIdentities(existingIdentities);
+  const matched = new Set<number>();
+  incoming.forEach(row => {
+    const index = indexByIdentity.get(rowIdentity(row, mapping, fields));
+    if (index !== undefined) matched.add(index);
+  });
+  return Array.from(matched);
+}
+
+/**
+ * Splits an upload into rows to insert, stored rows to update and rows that change nothing.
+ * Repeats of a key within the upload itself are merged in file order. Stored rows are seen
+ * through their identities and `storedRow`, which only has to answer for matched indices.
+ */
+export function planUploadMerge(existingIdentities: string[], storedRow: (index: number) => OrderData, incoming: OrderData[], mapping: ColumnMapping, fields: DedupKeyFields): MergePlan {
+  const existingCount = existingIdentities.length;
+  const indexByIdentity = indexIdentities(existingIdentities);
+  const inserted: OrderData[] = [];
+  const merged = new Map<number, OrderData>();  // stored rows as updated so far
+  let unchanged = 0;
+  const rowAt = (index: number) => (index < existingCount ? merged.get(index) ?? storedRow(index) : inserted[index - existingCount]);
+
+  incoming.forEach(row => {
+    const identity = rowIdentity(row, mapping, fields);
+    const index = indexByIdentity.get(identity);
+    if (index === undefined) {
+      indexByIdentity.set(identity, existingCount + inserted.length);
+      inserted.push(row);
+      return;
+    }
+
+    const previous = rowAt(index);
+    const next = mergeRow(previous, row);
+    if (serializeRow(next) === serializeRow(previous)) {
+      unchanged++;
+      return;
+    }
+    if (index < existingCount) merged.set(index, next);
+    else inserted[index - existingCount] = next;
+  });
+
+  return {
+    inserted,
+    updates: Array.from(merged, ([index, next]) => ({ index, next })),
+    unchanged,
+  };
+}
+
+/**
+ * Applies a plan to the stored rows it was computed from. Untouched rows keep their identity.
+ */
+export function applyMergePlan(existing: OrderData[], plan: MergePlan): UploadMerge {
+  const data = [...existing];
+  const updated = plan.updates.map(({ index, next }) => {
+    data[index] = next;
+    return { previous: existing[index], next };
+  });
+  return { data: [...data, ...plan.inserted], inserted: plan.inserted, updated, unchanged: plan.unchanged };
+}
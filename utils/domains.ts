@@ -0,0 +1,62 @@
+import { DeliverySla, DomainConfig, ProfitabilitySettings } from '../types';
+
+/**
+ * In-memory copy of the domain registry (see supabase/migrations/20261019060000_domains.sql).
+ * Storage helpers and permission checks translate between app names and storage keys
+ * through it; names missing from the registry fall back to the pre-registry convention.
+ */
+
+let registry: DomainConfig[] = [];
+
+export const DEFAULT_DOMAIN_COLOR = '#3b82f6';
+export const DEFAULT_CURRENCY = 'INR';
+
+// No channel costs until a domain is configured; revenue is read as the pre-discount amount
+export const DEFAULT_PROFITABILITY: ProfitabilitySettings = {
+  revenueBasis: 'gross', commissionPercent: 0, fixedFeePerOrder: 0, shippingFeePerOrder: 0, returnShippingFee: 0,
+};
+
+// A common marketplace promise for standard delivery, with no remote-zone exceptions
+export const DEFAULT_DELIVERY_SLA: DeliverySla = { standardDays: 5, stateDays: {} };
+
+export function setDomainRegistry(domains: DomainConfig[]) {
+  registry = [...domains].sort((a, b) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label));
+}
+
+export function getDomainRegistry(): DomainConfig[] {
+  return registry;
+}
+
+export function findDomain(name: string): DomainConfig | undefined {
+  return registry.find(d => d.name === name);
+}
+
+export function toStorageKey(name: string): string {
+  return findDomain(name)?.storageKey ?? name.toLowerCase();
+}
+
+export function toDomainName(storageKey: string): string {
+  return registry.find(d => d.storageKey === storageKey)?.name ?? storageKey.charAt(0).toUpperCase() + storageKey.slice(1);
+}
+
+/**
+ * Storage keys become table values and RLS arguments, so they are kept to lowercase slugs.
+ */
+export function slugifyStorageKey(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Registry entry for a domain that has data but no registry row (e.g. the registry table is missing).
+ */
+export function fallbackDomain(storageKey: string): DomainConfig {
+  const name = toDomainName(storageKey);
+  return { name, label: name, storageKey, color: DEFAULT_DOMAIN_COLOR, currency: DEFAULT_CURRENCY, defaultTemplate: null, logoUrl: null, sortOrder: 0, profitability: DEFAULT_PROFITABILITY, deliverySla: DEFAULT_DELIVERY_SLA };
+}
+
+/**
+ * Prefix for money values; rupees keep the "Rs." the dashboards have always shown.
+ */
+export function currencyLabel(currency: string): string {
+  return currency === 'INR' ? 'Rs.' : currency;
+}
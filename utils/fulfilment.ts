@@ -0,0 +1,79 @@
+import { DeliverySla } from '../types';
+import { ColumnarData } from './columnar';
+
+/**
+ * Delivery turnaround (TAT): IST calendar days from the order date to the delivered date,
+ * counted per delivered line. Lines that came back undelivered (RTO) have no TAT. A line is
+ * on time when it arrives within the domain's SLA for its state.
+ */
+
+// Longer turnarounds are counted in the last day of the histogram
+export const MAX_TAT_DAYS = 60;
+
+// Order-to-delivery days; the last bucket is open-ended
+export const TAT_BUCKETS: { label: string; maxDays: number }[] = [
+  { label: '0-1 days', maxDays: 1 },
+  { label: '2 days', maxDays: 2 },
+  { label: '3 days', maxDays: 3 },
+  { label: '4-5 days', maxDays: 5 },
+  { label: '6-7 days', maxDays: 7 },
+  { label: '8-10 days', maxDays: 10 },
+  { label: '11+ days', maxDays: Infinity },
+];
+
+export function tatBucket(days: number): number {
+  return TAT_BUCKETS.findIndex(bucket => days <= bucket.maxDays);
+}
+
+// Dimensions TAT percentiles are broken down by
+export type TatField = 'courier' | 'state';
+export const TAT_FIELDS: TatField[] = ['courier', 'state'];
+
+// Values with fewer delivered lines than this are left out of TAT rankings
+export const MIN_DELIVERED_FOR_TAT = 10;
+
+const stateKey = (state: string) => state.trim().toLowerCase();
+
+/**
+ * Each row's SLA in days: its state's override, otherwise the standard SLA.
+ */
+export function rowSlaDays(columns: ColumnarData, sla: DeliverySla): Float64Array {
+  const days = new Float64Array(columns.size).fill(sla.standardDays);
+  const states = columns.dimensions.state;
+  if (!states || Object.keys(sla.stateDays).length === 0) return days;
+  const byState = new Map(Object.entries(sla.stateDays).map(([state, stateDays]) => [stateKey(state), stateDays]));
+  // Resolved once per distinct state rather than per row; a blank state's code finds nothing
+  const byCode = states.values.map(value => byState.get(stateKey(value)) ?? sla.standardDays);
+  for (let i = 0; i < columns.size; i++) days[i] = byCode[states.codes[i]] ?? sla.standardDays;
+  return days;
+}
+
+/**
+ * Whether a line with a dispatch date had left the warehouse: it has a dispatch date and was not
+ * cancelled before it. Lines that were never cancelled pass `NaN` for the cancellation time.
+ */
+export function wasDispatched(dispatchTime: number, cancelledTime: number): boolean {
+  return !isNaN(dispatchTime) && !(cancelledTime < dispatchTime);
+}
+
+/**
+ * Value at percentile `p` (0-100) of a histogram indexed by day, interpolating between
+ * neighbouring ranks; null when the histogram is empty.
+ */
+export function histogramPercentile(histogram: Float64Array, offset: number, p: number): number | null {
+  let total = 0;
+  for (let d = 0; d <= MAX_TAT_DAYS; d++) total += histogram[offset + d];
+  if (total === 0) return null;
+  const rank = (p / 100) * (total - 1);
+  const valueAt = (k: number) => {
+    let cumulative = 0;
+    for (let d = 0; d <= MAX_TAT_DAYS; d++) {
+      cumulative += histogram[offset + d];
+      if (cumulative > k) return d;
+    }
+    return MAX_TAT_DAYS;
+  };
+  const low = Math.floor(rank);
+  const lowValue = valueAt(low);
+  return lowValue + (valueAt(Math.ceil(rank)) - lowValue) * (rank - low);
+}
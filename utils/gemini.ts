@@ -1,5 +1,6 @@
 import { GoogleGenAI, Type } from "@google/genai";
 import { ColumnMapping, OrderData, PptSlide, Kpi } from '../types';
+import { mapColumnsOffline } from './offlineMapper';
 
 async function getAiClient() {
   // Check if API key is in environment
@@ -29,7 +30,7 @@ export async function analyzeCsvData(headers: string[], sampleData: OrderData[])
     const prompt = `
       You are an expert data analyst. Your primary goal is to identify columns in a CSV file that represent key business metrics.
       Here are the column headers: ${headers.join(', ')}
-      Here is a sample of the data (first 5 rows): ${JSON.stringify(sampleData, null, 2)}
+      Here is a sample of the data (first 5 rows): ${JSON.stringify(sampleData.slice(0, 5), null, 2)}
       
       Analyze the headers and data to find the best match for each of the following metrics.
       1.  **revenue**: Look for total sale amount.
@@ -52,8 +53,13 @@ export async function analyzeCsvData(headers: string[], sampleData: OrderData[])
       18. **deliveredDate**: Delivery date.
       19. **cancelledDate**: Cancellation date.
       20. **returnDate**: Return creation date.
+      21. **orderLineId**: Identifier of a single line within an order (e.g. "order item id", "order line id").
+      22. **marketplaceFee**: Commission or marketplace/platform fee charged on the line (settlement reports).
+      23. **shippingFee**: Shipping or logistics fee charged on the line (settlement reports).
+      24. **returnReason**: Reason the customer gave for a return.
+      25. **dispatchDate**: Date the shipment was dispatched or handed to the courier.
       
-      Return a minified JSON object mapping these 20 fields to the exact column names found in the header list.
+      Return a minified JSON object mapping these 25 fields to the exact column names found in the header list.
     `;
 
     const responseSchema = {
@@ -65,12 +71,15 @@ export async function analyzeCsvData(headers: string[], sampleData: OrderData[])
         brand: { type: Type.STRING }, orderStatus: { type: Type.STRING }, cancellationReason: { type: Type.STRING },
         courier: { type: Type.STRING }, sku: { type: Type.STRING }, articleType: { type: Type.STRING }, 
         discount: { type: Type.STRING }, deliveredDate: { type: Type.STRING }, cancelledDate: { type: Type.STRING }, 
-        returnDate: { type: Type.STRING }, orderId: { type: Type.STRING }
+        returnDate: { type: Type.STRING }, orderId: { type: Type.STRING }, orderLineId: { type: Type.STRING },
+        marketplaceFee: { type: Type.STRING }, shippingFee: { type: Type.STRING }, returnReason: { type: Type.STRING },
+        dispatchDate: { type: Type.STRING }
       },
       required: [
           'date', 'customer', 'item', 'quantity', 'price', 'city', 'state', 'zipcode', 'revenue', 'brand',
           'orderStatus', 'cancellationReason', 'courier', 'sku', 'articleType', 'discount',
-          'deliveredDate', 'cancelledDate', 'returnDate', 'orderId'
+          'deliveredDate', 'cancelledDate', 'returnDate', 'orderId', 'orderLineId', 'marketplaceFee', 'shippingFee',
+          'returnReason', 'dispatchDate'
       ],
     };
 
@@ -84,7 +93,8 @@ export async function analyzeCsvData(headers: string[], sampleData: OrderData[])
     const finalMapping: ColumnMapping = {
         date: null, customer: null, item: null, quantity: null, price: null, city: null, state: null, zipcode: null, revenue: null, brand: null,
         orderStatus: null, cancellationReason: null, courier: null, sku: null, articleType: null, discount: null,
-        deliveredDate: null, cancelledDate: null, returnDate: null, orderId: null
+        dispatchDate: null, deliveredDate: null, cancelledDate: null, returnDate: null, returnReason: null, orderId: null, orderLineId: null,
+        marketplaceFee: null, shippingFee: null
     };
 
     for (const key in mapping) {
@@ -96,21 +106,8 @@ export async function analyzeCsvData(headers: string[], sampleData: OrderData[])
     return finalMapping;
   } catch (error) {
     console.error("Gemini Analysis Error:", error);
-    // Fallback logic: Try to guess some common columns if AI fails
-    const guess: any = {};
-    headers.forEach(h => {
-      const low = h.toLowerCase();
-      if (low.includes('revenue') || low.includes('sale') || low.includes('amount')) guess.revenue = h;
-      if (low.includes('date') && !low.includes('deliver') && !low.includes('cancel')) guess.date = h;
-      if (low.includes('order id') || low.includes('transaction')) guess.orderId = h;
-      if (low.includes('city')) guess.city = h;
-      if (low.includes('brand')) guess.brand = h;
-    });
-    return {
-      date: guess.date || null, customer: null, item: null, quantity: null, price: null, city: guess.city || null, state: null, zipcode: null, revenue: guess.revenue || null, brand: guess.brand || null,
-      orderStatus: null, cancellationReason: null, courier: null, sku: null, articleType: null, discount: null,
-      deliveredDate: null, cancelledDate: null, returnDate: null, orderId: guess.orderId || null
-    };
+    // Fallback logic: rule-based mapping that works fully offline
+    return mapColumnsOffline(headers, sampleData);
   }
 }
 
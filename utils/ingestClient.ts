@@ -0,0 +1,179 @@
+import { ColumnMapping, OrderData, QualityReport, RemoteSourceConfig } from '../types';
+import { DedupKeyFields, MergePlan, storedRowIdentities } from './dedup';
+import { SheetCombineMode } from './sheets';
+
+/**
+ * Main-thread side of workers/ingestWorker.ts. Parsing, profiling, sanitising and
+ * deduplicating large exports all happen in the worker so the tab stays responsive;
+ * the parsed rows stay there until the upload is confirmed.
+ */
+
+export type IngestSource =
+  | { kind: 'file'; file: File }
+  | { kind: 'url'; config: RemoteSourceConfig };
+
+export type IngestPhase = 'loading' | 'reading' | 'downloading' | 'parsing' | 'converting' | 'combining' | 'profiling' | 'cleaning' | 'deduplicating';
+
+export interface IngestProgress {
+  phase: IngestPhase;
+  rows: number;          // rows produced so far
+  loaded?: number;       // bytes processed, when the total is known
+  total?: number;
+}
+
+export interface SheetPreview {
+  name: string;          // worksheet name; empty for CSV and URL sources
+  headers: string[];
+  sample: OrderData[];   // first rows, for mapping suggestions and the review table
+  rowCount: number;
+}
+
+export interface LoadedSource {
+  sheets: SheetPreview[];  // non-empty worksheets in workbook order; a single entry otherwise
+}
+
+export interface SheetSelection {
+  name: string;
+  mapping: ColumnMapping;
+}
+
+export interface CombinedSource {
+  mapping: ColumnMapping;  // mapping of the combined rows, used for the report and the upload
+  rowCount: number;
+}
+
+export type IngestRequest =
+  | { id: number; type: 'load'; source: IngestSource }
+  | { id: number; type: 'combine'; sheets: SheetSelection[]; mode: SheetCombineMode }
+  | { id: number; type: 'report'; mapping: ColumnMapping }
+  | { id: number; type: 'prepare'; mapping: ColumnMapping }
+  | { id: number; type: 'match'; identities: string[]; incoming: OrderData[]; mapping: ColumnMapping; dedupKeys: DedupKeyFields }
+  | { id: number; type: 'merge'; indices: number[]; rows: OrderData[] };
+
+export type IngestResponse =
+  | { id: number; type: 'progress'; progress: IngestProgress }
+  | { id: number; type: 'loaded'; result: LoadedSource }
+  | { id: number; type: 'combined'; result: CombinedSource }
+  | { id: number; type: 'report'; report: QualityReport }
+  | { id: number; type: 'prepared'; rows: OrderData[] }
+  | { id: number; type: 'matched'; indices: number[] }
+  | { id: number; type: 'merged'; plan: MergePlan }
+  | { id: number; type: 'error'; message: string };
+
+export class IngestCancelledError extends Error {
+  constructor() {
+    super('Import cancelled.');
+    this.name = 'IngestCancelledError';
+  }
+}
+
+export interface IngestSession {
+  load(source: IngestSource): Promise<LoadedSource>;
+  combine(sheets: SheetSelection[], mode: SheetCombineMode): Promise<CombinedSource>;  // selects the rows to report on and prepare
+  qualityReport(mapping: ColumnMapping): Promise<QualityReport>;
+  prepare(mapping: ColumnMapping): Promise<OrderData[]>;
+  merge(existing: OrderData[], incoming: OrderData[], mapping: ColumnMapping, dedupKeys: DedupKeyFields): Promise<MergePlan>;
+  cancel(): void;   // aborts the work in flight; loaded rows are discarded
+  dispose(): void;
+}
+
+interface Pending {
+  resolve: (response: IngestResponse) => void;
+  reject: (error: Error) => void;
+}
+
+type RequestBody<T> = T extends { id: number } ? Omit<T, 'id'> : never;
+
+/**
+ * Starts a worker lazily on the first request. Cancelling terminates it outright, which is
+ * the only way to stop a parse mid-file; the next request starts a fresh one.
+ */
+export function createIngestSession(onProgress: (progress: IngestProgress) => void = () => undefined): IngestSession {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  const pending = new Map<number, Pending>();
+
+  const getWorker = () => {
+    if (worker) return worker;
+    worker = new Worker(new URL('../workers/ingestWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<IngestResponse>) => {
+      const response = e.data;
+      if (response.type === 'progress') {
+        onProgress(response.progress);
+        return;
+      }
+      const request = pending.get(response.id);
+      if (!request) return;
+      pending.delete(response.id);
+      if (response.type === 'error') request.reject(new Error(response.message));
+      else request.resolve(response);
+    };
+    worker.onerror = (e) => {
+      e.preventDefault();
+      const error = new Error(e.message || 'The import worker stopped unexpectedly.');
+      pending.forEach(request => request.reject(error));
+      pending.clear();
+      terminate();
+    };
+    return worker;
+  };
+
+  const terminate = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  const send = (body: RequestBody<IngestRequest>) => new Promise<IngestResponse>((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ ...body, id });
+  });
+
+  const cancel = () => {
+    terminate();
+    pending.forEach(request => request.reject(new IngestCancelledError()));
+    pending.clear();
+  };
+
+  return {
+    load: async source => {
+      const response = await send({ type: 'load', source });
+      return (response as Extract<IngestResponse, { type: 'loaded' }>).result;
+    },
+    combine: async (sheets, mode) => {
+      const response = await send({ type: 'combine', sheets, mode });
+      return (response as Extract<IngestResponse, { type: 'combined' }>).result;
+    },
+    qualityReport: async mapping => {
+      const response = await send({ type: 'report', mapping });
+      return (response as Extract<IngestResponse, { type: 'report' }>).report;
+    },
+    prepare: async mapping => {
+      const response = await send({ type: 'prepare', mapping });
+      return (response as Extract<IngestResponse, { type: 'prepared' }>).rows;
+    },
+    merge: async (existing, incoming, mapping, dedupKeys) => {
+      // Copying a whole domain into the worker would stall the page as long as the merge itself,
+      // so only row identities go over, then just the stored rows the upload matched
+      const identities = storedRowIdentities(existing, mapping, dedupKeys);
+      const matched = await send({ type: 'match', identities, incoming, mapping, dedupKeys });
+      const { indices } = matched as Extract<IngestResponse, { type: 'matched' }>;
+      const response = await send({ type: 'merge', indices, rows: indices.map(index => existing[index]) });
+      return (response as Extract<IngestResponse, { type: 'merged' }>).plan;
+    },
+    cancel,
+    dispose: cancel,
+  };
+}
+
+/**
+ * Runs a one-off business-key merge plan off the main thread.
+ */
+export async function planMergeInWorker(existing: OrderData[], incoming: OrderData[], mapping: ColumnMapping, dedupKeys: DedupKeyFields): Promise<MergePlan> {
+  const session = createIngestSession();
+  try {
+    return await session.merge(existing, incoming, mapping, dedupKeys);
+  } finally {
+    session.dispose();
+  }
+}
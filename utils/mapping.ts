@@ -0,0 +1,102 @@
+import { ColumnMapping, OrderData } from '../types';
+
+export type FieldKind = 'text' | 'number' | 'date';
+export type MappingConfidence = 'high' | 'medium' | 'low' | 'none';
+
+export interface MappingField {
+  key: keyof ColumnMapping;
+  label: string;
+  kind: FieldKind;
+}
+
+// Order follows the prompt in analyzeCsvData so the review screen reads the same way
+export const MAPPING_FIELDS: MappingField[] = [
+  { key: 'revenue', label: 'Revenue', kind: 'number' },
+  { key: 'price', label: 'Unit Price', kind: 'number' },
+  { key: 'quantity', label: 'Quantity', kind: 'number' },
+  { key: 'date', label: 'Order Date', kind: 'date' },
+  { key: 'customer', label: 'Customer', kind: 'text' },
+  { key: 'item', label: 'Product Name', kind: 'text' },
+  { key: 'city', label: 'City', kind: 'text' },
+  { key: 'state', label: 'State', kind: 'text' },
+  { key: 'zipcode', label: 'Pincode', kind: 'text' },
+  { key: 'brand', label: 'Brand', kind: 'text' },
+  { key: 'orderStatus', label: 'Order Status', kind: 'text' },
+  { key: 'cancellationReason', label: 'Cancellation Reason', kind: 'text' },
+  { key: 'courier', label: 'Courier', kind: 'text' },
+  { key: 'sku', label: 'SKU', kind: 'text' },
+  { key: 'articleType', label: 'Article Type', kind: 'text' },
+  { key: 'discount', label: 'Discount %', kind: 'number' },
+  { key: 'orderId', label: 'Order ID', kind: 'text' },
+  { key: 'orderLineId', label: 'Order Line ID', kind: 'text' },
+  { key: 'dispatchDate', label: 'Dispatch Date', kind: 'date' },
+  { key: 'deliveredDate', label: 'Delivered Date', kind: 'date' },
+  { key: 'cancelledDate', label: 'Cancelled Date', kind: 'date' },
+  { key: 'returnDate', label: 'Return Date', kind: 'date' },
+  { key: 'returnReason', label: 'Return Reason', kind: 'text' },
+  { key: 'marketplaceFee', label: 'Marketplace Fees', kind: 'number' },
+  { key: 'shippingFee', label: 'Shipping Fees', kind: 'number' },
+];
+
+export const emptyMapping = (): ColumnMapping => ({
+  date: null, customer: null, item: null, quantity: null, price: null, city: null, state: null, zipcode: null, revenue: null, brand: null,
+  orderStatus: null, cancellationReason: null, courier: null, sku: null, articleType: null, discount: null,
+  dispatchDate: null, deliveredDate: null, cancelledDate: null, returnDate: null, returnReason: null, orderId: null, orderLineId: null,
+  marketplaceFee: null, shippingFee: null
+});
+
+export const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+/**
+ * Reads a numeric cell the way uploads store it: currency symbols and thousands separators are stripped.
+ */
+export function parseNumericCell(value: unknown): number | null {
+  if (isBlank(value)) return null;
+  const numericValue = parseFloat(String(value).replace(/[^0-9.-]+/g, ""));
+  return isNaN(numericValue) ? null : numericValue;
+}
+
+/**
+ * Union of column names across the first rows; exports often leave trailing columns
+ * empty in row one, which drops them from the parsed object.
+ */
+export function detectHeaders(data: OrderData[], scanRows = 50): string[] {
+  const headers = new Set<string>();
+  data.slice(0, scanRows).forEach(row => Object.keys(row).forEach(h => headers.add(h)));
+  return Array.from(headers);
+}
+
+export function sampleValues(data: OrderData[], column: string, limit = 3): string[] {
+  const values: string[] = [];
+  for (const row of data) {
+    const value = row[column];
+    if (!isBlank(value)) values.push(String(value));
+    if (values.length >= limit) break;
+  }
+  return values;
+}
+
+const looksNumeric = (value: string) => /\d/.test(value) && !isNaN(parseFloat(value.replace(/[^0-9.-]+/g, '')));
+const looksLikeDate = (value: string) => /^\d{5}(\.\d+)?$/.test(value) || /\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}/.test(value) || !isNaN(Date.parse(value));
+
+/**
+ * Rough confidence that a column suits a field: the column name mentions the field
+ * and the sample values have the right shape (high), only one of the two holds (medium),
+ * or neither does (low).
+ */
+export function assessMapping(field: MappingField, column: string | null, samples: string[]): MappingConfidence {
+  if (!column) return 'none';
+
+  const normalizedColumn = column.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const nameWords = field.label.toLowerCase().split(/\s+/).filter(w => w.length > 2 && w !== 'date');
+  const nameMatches = nameWords.some(w => normalizedColumn.includes(w.replace(/[^a-z0-9]/g, '')))
+    || normalizedColumn.includes(String(field.key).toLowerCase());
+
+  let shapeMatches = samples.length > 0;
+  if (field.kind === 'number') shapeMatches = shapeMatches && samples.every(looksNumeric);
+  if (field.kind === 'date') shapeMatches = shapeMatches && samples.every(looksLikeDate);
+
+  if (nameMatches && shapeMatches) return 'high';
+  if (nameMatches || shapeMatches) return 'medium';
+  return 'low';
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnMapping, OrderData } from '../types';
+import { aggregate, buildColumnarData } from './columnar';
+import { DEFAULT_PROFITABILITY } from './domains';
+import { emptyMapping } from './mapping';
+import { KPI_METRICS, computeKpis } from './metrics';
+import { profitAndLoss } from './profitability';
+import { TrendDay, buildTrend } from './trend';
+
+const mapping: ColumnMapping = {
+  ...emptyMapping(),
+  orderId: 'Order ID', customer: 'Customer', quantity: 'Qty', revenue: 'Amount', discount: 'Discount %',
+  date: 'Order Date', cancelledDate: 'Cancelled On', returnDate: 'Return Date', orderStatus: 'Status',
+};
+
+const line = (orderId: string, customer: string, qty: number, amount: number, date: string, extra: OrderData = {}): OrderData => ({
+  'Order ID': orderId, Customer: customer, Qty: qty, Amount: amount, 'Discount %': 0, 'Order Date': date,
+  'Cancelled On': null, 'Return Date': null, Status: 'Delivered', ...extra,
+});
+
+// Five orders: O1 has two lines, O3 one returned line of two, and two lines have no order id.
+// Asha is written three ways; the RTO line has a blank customer.
+const rows: OrderData[] = [
+  line('O1', ' Asha ', 2, 1000, '2024-03-01', { 'Discount %': 10 }),
+  line('O1', 'asha', 1, 500, '2024-03-01'),
+  line('O2', 'ASHA', 1, 800, '2024-03-02', { 'Cancelled On': '2024-03-02', Status: 'Cancelled' }),
+  line('O3', 'Ravi', 3, 300, '2024-03-02', { 'Return Date': '2024-03-08', Status: 'Returned' }),
+  line('O3', 'Ravi', 1, 200, '2024-03-02'),
+  line('', 'Meena', 1, 400, '2024-03-03'),
+  line('', ' ', 1, 100, '2024-03-03', { Status: 'RTO' }),
+];
+
+const columns = buildColumnarData(rows, mapping);
+const totals = aggregate(columns, null);
+const metric = (title: string) => {
+  const definition = KPI_METRICS.find(m => m.title === title)!;
+  return definition.value(totals, profitAndLoss(totals, mapping, DEFAULT_PROFITABILITY));
+};
+
+describe('aggregate', () => {
+  it('counts lines, orders and customers at their own grain', () => {
+    expect(totals.lines).toBe(7);
+    // Each line without an order id is an order of its own
+    expect(totals.orders).toBe(5);
+    // Case and padding variants are one customer; a blank customer is none
+    expect(totals.customers).toBe(3);
+    expect(totals.units).toBe(10);
+  });
+
+  it('splits GMV into discounts, cancelled, returned and net sales', () => {
+    expect(totals.gmv).toBe(3300);
+    expect(totals.discounts).toBe(100);
+    expect(totals.cancelledValue).toBe(800);
+    expect(totals.returnedValue).toBe(400);
+    expect(totals.rtoValue).toBe(100);
+    expect(totals.netSales).toBe(2000);
+    expect(totals.discounts + totals.cancelledValue + totals.returnedValue + totals.netSales).toBe(totals.gmv);
+  });
+
+  it('counts an order once however many of its lines match', () => {
+    expect(totals.cancelledOrders).toBe(1);
+    expect(totals.returnedOrders).toBe(2);
+    expect(totals.rtoOrders).toBe(1);
+    expect(totals.shippedOrders).toBe(4);
+  });
+
+  it('derives pre-discount value when revenue is recorded after discount', () => {
+    const net = aggregate(columns, null, 'net');
+    expect(net.gmv).toBeCloseTo(3300 + 1000 / 0.9 - 1000);
+    expect(net.netSales).toBe(1000 + 500 + 200 + 400);
+  });
+});
+
+describe('KPI_METRICS', () => {
+  it('takes AOV and return rate per order', () => {
+    expect(metric('Avg Order')).toBe(660);
+    expect(metric('Return Rate')).toBe(40);
+    expect(metric('RTO Rate')).toBe(25);
+  });
+
+  it('only offers KPIs whose columns are mapped', () => {
+    const kpis = computeKpis(totals, mapping, DEFAULT_PROFITABILITY);
+    const titles = kpis.map(kpi => kpi.title);
+    expect(titles).toContain('Total Customers');
+    expect(titles).not.toContain('Median Delivery TAT');
+    expect(kpis.find(kpi => kpi.title === 'Total Orders')!.value).toBe('5');
+    expect(kpis.find(kpi => kpi.title === 'Return Rate')!.value).toBe('40.0%');
+  });
+
+  it('reports deltas against a comparison period', () => {
+    const previous = aggregate(columns, Uint32Array.from([0, 1]));
+    const orders = computeKpis(totals, mapping, DEFAULT_PROFITABILITY, previous).find(kpi => kpi.title === 'Total Orders')!;
+    expect(orders.comparison).toMatchObject({ value: '1', delta: 4, percentChange: 400, improved: true });
+  });
+});
+
+describe('Contribution Margin', () => {
+  const settings = { ...DEFAULT_PROFITABILITY, commissionPercent: 10 };
+  const kpi = (costs: Float64Array) => {
+    const costed = aggregate(columns, null, 'gross', costs);
+    return computeKpis(costed, { ...mapping, sku: 'Order ID' }, settings).find(k => k.title === 'Contribution Margin');
+  };
+
+  it('is hidden until the cost master prices a line', () => {
+    expect(kpi(new Float64Array(rows.length).fill(NaN))).toBeUndefined();
+  });
+
+  it('only counts the priced lines and their share of fees', () => {
+    // The first line alone is priced: 900 of the 2000 net sales, costing 2 x 100
+    const costs = new Float64Array(rows.length).fill(NaN);
+    costs[0] = 100;
+    expect(kpi(costs)!.value).toBe('610');
+  });
+});
+
+describe('daily totals', () => {
+  const days: TrendDay[] = columns.day.values.map((date, code) => ({
+    date,
+    current: {
+      orders: totals.daily.orders[code], gmv: totals.daily.gmv[code], netSales: totals.daily.netSales[code],
+      units: totals.daily.units[code], cancelled: totals.daily.cancelled[code], returns: totals.daily.returns[code], rto: totals.daily.rto[code],
+    },
+  }));
+
+  it('add up to the KPI totals', () => {
+    const sum = (values: Float64Array) => values.reduce((total, value) => total + value, 0);
+    expect(sum(totals.daily.orders)).toBe(totals.orders);
+    expect(sum(totals.daily.gmv)).toBe(totals.gmv);
+    expect(sum(totals.daily.netSales)).toBe(totals.netSales);
+    expect(sum(totals.daily.returns)).toBe(totals.returnedOrders);
+  });
+
+  it('chart the same AOV as the KPI over the whole range', () => {
+    const [point] = buildTrend(days, 'quarter', 'aov');
+    expect(point.value).toBe(metric('Avg Order'));
+  });
+});
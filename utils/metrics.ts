@@ -0,0 +1,178 @@
+import { ColumnMapping, Kpi, KpiComparison, ProfitabilitySettings } from '../types';
+import { Aggregates } from './columnar';
+import { histogramPercentile } from './fulfilment';
+import { ProfitAndLoss, profitAndLoss } from './profitability';
+import { RETURN_COLUMNS } from './returns';
+
+/**
+ * Dashboard KPIs, each defined once at an explicit grain: order lines (rows), orders
+ * (distinct order ids; a line without one is its own order) or customers (distinct
+ * customer values). Definitions only read `Aggregates` and the profit and loss derived
+ * from it, so they can be checked against any fixture run through `aggregate`.
+ */
+
+export type MetricGrain = 'line' | 'order' | 'customer';
+export type MetricFormat = 'currency' | 'number' | 'percent' | 'days';
+
+export interface MetricDefinition {
+  title: string;
+  grain: MetricGrain;
+  format: MetricFormat;
+  description: string;
+  value: (totals: Aggregates, pnl: ProfitAndLoss) => number;
+  requires?: (keyof ColumnMapping)[];  // hidden unless every listed column is mapped
+  requiresAny?: (keyof ColumnMapping)[];  // hidden unless at least one listed column is mapped
+  costed?: boolean;                     // hidden unless the cost master prices some line
+  lowerIsBetter?: boolean;
+}
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+const delivered = (t: Aggregates) => t.tat.reduce((sum, count) => sum + count, 0);
+
+export const KPI_METRICS: MetricDefinition[] = [
+  {
+    title: 'GMV', grain: 'line', format: 'currency',
+    description: 'Value of every order line before discount, cancellations and returns.',
+    value: t => t.gmv,
+  },
+  {
+    title: 'Net Sales', grain: 'line', format: 'currency',
+    description: 'After-discount value of the lines that were neither cancelled nor returned.',
+    value: t => t.netSales,
+  },
+  {
+    title: 'Net Realisation %', grain: 'line', format: 'percent',
+    description: 'Net sales less marketplace fees and shipping, as a share of GMV.',
+    value: (t, pnl) => ratio(pnl.netRealisation, t.gmv) * 100,
+  },
+  {
+    title: 'Contribution Margin', grain: 'line', format: 'currency',
+    description: 'Net sales less their share of fees and shipping and cost of goods, over the kept lines the cost master prices.',
+    value: (t, pnl) => pnl.contributionMargin, requires: ['sku'], costed: true,
+  },
+  {
+    title: 'Gross Margin', grain: 'line', format: 'currency',
+    description: 'Net sales less cost of goods, over the kept lines the cost master prices.',
+    value: t => t.costedSales - t.cogs, requires: ['sku'], costed: true,
+  },
+  {
+    title: 'Gross Margin %', grain: 'line', format: 'percent',
+    description: 'Gross margin as a share of the net sales it is measured on.',
+    value: t => ratio(t.costedSales - t.cogs, t.costedSales) * 100, requires: ['sku'], costed: true,
+  },
+  {
+    title: 'Cost Coverage', grain: 'line', format: 'percent',
+    description: 'Share of net sales whose SKU had a unit cost on the order date.',
+    value: t => ratio(t.costedSales, t.netSales) * 100, requires: ['sku'], costed: true,
+  },
+  {
+    title: 'Total Orders', grain: 'order', format: 'number',
+    description: 'Distinct orders.',
+    value: t => t.orders,
+  },
+  {
+    title: 'Avg Order', grain: 'order', format: 'currency',
+    description: 'GMV per order.',
+    value: t => ratio(t.gmv, t.orders),
+  },
+  {
+    title: 'Units Sold', grain: 'line', format: 'number',
+    description: 'Sum of line quantities.',
+    value: t => t.units, requires: ['quantity'],
+  },
+  {
+    title: 'Total Customers', grain: 'customer', format: 'number',
+    description: 'Distinct customers, ignoring case and surrounding spaces.',
+    value: t => t.customers, requires: ['customer'],
+  },
+  {
+    title: 'Total Delivered Orders', grain: 'order', format: 'number',
+    description: 'Orders with at least one delivered line.',
+    value: t => t.deliveredOrders, requires: ['deliveredDate'],
+  },
+  {
+    title: 'Total Cancelled Orders', grain: 'order', format: 'number',
+    description: 'Orders with at least one cancelled line.',
+    value: t => t.cancelledOrders, requires: ['cancelledDate'], lowerIsBetter: true,
+  },
+  {
+    title: 'Returned Orders', grain: 'order', format: 'number',
+    description: 'Orders with at least one returned line, customer return or RTO.',
+    value: t => t.returnedOrders, requiresAny: RETURN_COLUMNS, lowerIsBetter: true,
+  },
+  {
+    title: 'Return Rate', grain: 'order', format: 'percent',
+    description: 'Returned orders as a share of all orders.',
+    value: t => ratio(t.returnedOrders, t.orders) * 100, requiresAny: RETURN_COLUMNS, lowerIsBetter: true,
+  },
+  {
+    title: 'Customer Returns', grain: 'order', format: 'number',
+    description: 'Returned orders without an RTO line: delivered, then sent back.',
+    value: t => t.returnedOrders - t.rtoOrders, requiresAny: RETURN_COLUMNS, lowerIsBetter: true,
+  },
+  {
+    title: 'RTO Orders', grain: 'order', format: 'number',
+    description: 'Orders with a line the courier returned to origin undelivered.',
+    value: t => t.rtoOrders, requires: ['orderStatus'], lowerIsBetter: true,
+  },
+  {
+    title: 'RTO Rate', grain: 'order', format: 'percent',
+    description: 'RTO orders as a share of orders that shipped (had a line that was not cancelled).',
+    value: t => ratio(t.rtoOrders, t.shippedOrders) * 100, requires: ['orderStatus'], lowerIsBetter: true,
+  },
+  {
+    title: 'Total Return Value', grain: 'line', format: 'currency',
+    description: 'After-discount value of the returned lines.',
+    value: t => t.returnedValue, requiresAny: RETURN_COLUMNS, lowerIsBetter: true,
+  },
+  {
+    title: 'Median Delivery TAT', grain: 'line', format: 'days',
+    description: 'Median IST calendar days from order to delivery, over delivered lines.',
+    value: t => histogramPercentile(t.tat, 0, 50) ?? 0, requires: ['date', 'deliveredDate'], lowerIsBetter: true,
+  },
+  {
+    title: 'P90 Delivery TAT', grain: 'line', format: 'days',
+    description: 'Days from order within which 90% of delivered lines arrived.',
+    value: t => histogramPercentile(t.tat, 0, 90) ?? 0, requires: ['date', 'deliveredDate'], lowerIsBetter: true,
+  },
+  {
+    title: 'On-Time Delivery', grain: 'line', format: 'percent',
+    description: 'Delivered lines that arrived within the delivery SLA for their state.',
+    value: t => ratio(t.onTimeLines, delivered(t)) * 100, requires: ['date', 'deliveredDate'],
+  },
+];
+
+export function formatMetric(value: number, format: MetricFormat): string {
+  if (format === 'percent') return `${value.toFixed(1)}%`;
+  if (format === 'days') return `${value.toFixed(1)} days`;
+  if (format === 'currency') return value.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  return value.toLocaleString('en-IN');
+}
+
+function compareMetric(metric: MetricDefinition, current: number, previous: number): KpiComparison {
+  const delta = current - previous;
+  return {
+    value: formatMetric(previous, metric.format),
+    delta,
+    percentChange: previous !== 0 ? (delta / Math.abs(previous)) * 100 : null,
+    improved: delta === 0 ? null : (delta > 0) !== !!metric.lowerIsBetter,
+  };
+}
+
+/**
+ * The KPIs a mapping supports, with deltas against `comparison` when one is given.
+ */
+export function computeKpis(totals: Aggregates, mapping: ColumnMapping, settings: ProfitabilitySettings, comparison: Aggregates | null = null): Kpi[] {
+  const pnl = profitAndLoss(totals, mapping, settings);
+  const comparisonPnl = comparison && profitAndLoss(comparison, mapping, settings);
+  return KPI_METRICS
+    .filter(metric => (metric.requires || []).every(column => mapping[column]))
+    .filter(metric => !metric.requiresAny || metric.requiresAny.some(column => mapping[column]))
+    .filter(metric => !metric.costed || totals.costedLines > 0)
+    .map(metric => {
+      const value = metric.value(totals, pnl);
+      const kpi: Kpi = { title: metric.title, value: formatMetric(value, metric.format) };
+      if (comparison) kpi.comparison = compareMetric(metric, value, metric.value(comparison, comparisonPnl!));
+      return kpi;
+    });
+}
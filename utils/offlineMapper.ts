@@ -0,0 +1,310 @@
+import { ColumnMapping, OrderData } from '../types';
+import { emptyMapping } from './mapping';
+
+/**
+ * Rule-based column mapper used when the AI is unavailable (no key, no network).
+ * Each (field, column) pair is scored on how well the header matches known marketplace
+ * names and how well the sample values fit the field's type; pairs are then assigned
+ * greedily from the highest score down, so every column feeds at most one field.
+ */
+
+type ValueProfile = 'amount' | 'quantity' | 'percent' | 'date' | 'pincode' | 'state' | 'identifier' | 'text';
+
+interface FieldRule {
+  synonyms: string[];  // normalised header names seen in Myntra, AJIO, Flipkart, Amazon and Shopify exports
+  keywords: string[];  // weaker single-word hints
+  exclude?: string[];  // words that rule a header out for this field
+  profile: ValueProfile;
+}
+
+const FIELD_RULES: Record<keyof ColumnMapping, FieldRule> = {
+  revenue: {
+    synonyms: ['final amount', 'invoice amount', 'total amount', 'order value', 'item total', 'sale amount', 'sales amount', 'net amount', 'revenue', 'gmv', 'total', 'value', 'amount', 'total sale value', 'settlement amount', 'item price total'],
+    keywords: ['revenue', 'amount', 'total', 'value', 'gmv'],
+    exclude: ['mrp', 'discount', 'tax', 'shipping', 'commission', 'fee', 'quantity', 'qty'],
+    profile: 'amount',
+  },
+  price: {
+    synonyms: ['selling price', 'selling price per item', 'item price', 'unit price', 'price', 'lineitem price', 'sale price', 'rate', 'mrp', 'total mrp', 'list price'],
+    keywords: ['price', 'mrp', 'rate'],
+    exclude: ['total amount', 'discount', 'quantity'],
+    profile: 'amount',
+  },
+  quantity: {
+    synonyms: ['quantity', 'qty', 'units', 'lineitem quantity', 'quantity purchased', 'item quantity', 'ordered quantity', 'no of items'],
+    keywords: ['quantity', 'qty', 'units'],
+    profile: 'quantity',
+  },
+  marketplaceFee: {
+    synonyms: ['commission', 'marketplace fee', 'marketplace fees', 'commission fee', 'platform fee', 'referral fee', 'selling fee', 'fixed fee', 'closing fee', 'collection fee', 'total fees'],
+    keywords: ['commission', 'fee', 'fees'],
+    exclude: ['shipping', 'logistics', 'delivery', 'courier', 'date', 'rate', 'percent', '%'],
+    profile: 'amount',
+  },
+  shippingFee: {
+    synonyms: ['shipping fee', 'shipping fees', 'shipping charge', 'shipping charges', 'logistics fee', 'delivery fee', 'forward shipping fee', 'weight handling fee', 'reverse shipping fee'],
+    keywords: ['shipping', 'logistics'],
+    exclude: ['date', 'address', 'city', 'state', 'pincode', 'zip', 'name', 'method', 'status', 'partner', 'provider'],
+    profile: 'amount',
+  },
+  discount: {
+    synonyms: ['discount', 'discount percent', 'discount percentage', 'discount amount', 'coupon discount', 'trade discount', 'discount %'],
+    keywords: ['discount'],
+    profile: 'percent',
+  },
+  date: {
+    synonyms: ['order date', 'created on', 'created at', 'purchase date', 'cust order date', 'order created date', 'order placed date', 'date', 'transaction date', 'invoice date', 'order created on'],
+    keywords: ['date', 'created', 'placed', 'purchase'],
+    exclude: ['deliver', 'cancel', 'return', 'ship', 'dispatch', 'pack', 'invoice due', 'rto', 'refund', 'updated', 'promise', 'sla'],
+    profile: 'date',
+  },
+  dispatchDate: {
+    synonyms: ['dispatch date', 'dispatched on', 'dispatched date', 'shipped on', 'shipped date', 'ship date', 'shipment date', 'manifest date', 'handover date'],
+    keywords: ['dispatch', 'dispatched', 'shipped', 'manifest'],
+    exclude: ['promise', 'expected', 'sla', 'by', 'status'],
+    profile: 'date',
+  },
+  deliveredDate: {
+    synonyms: ['delivered on', 'delivered date', 'delivery date', 'delivered at', 'date of delivery'],
+    keywords: ['delivered', 'delivery'],
+    exclude: ['promise', 'expected', 'sla', 'by'],
+    profile: 'date',
+  },
+  cancelledDate: {
+    synonyms: ['cancelled on', 'cancelled date', 'cancellation date', 'cancelled at', 'canceled at', 'cancel date'],
+    keywords: ['cancelled', 'canceled', 'cancellation', 'cancel'],
+    exclude: ['reason'],
+    profile: 'date',
+  },
+  returnDate: {
+    synonyms: ['return creation date', 'return date', 'return created on', 'return initiated date', 'return requested date', 'returned on', 'rto date'],
+    keywords: ['return', 'returned', 'rto'],
+    exclude: ['reason', 'id', 'type', 'status'],
+    profile: 'date',
+  },
+  orderId: {
+    synonyms: ['order id', 'order no', 'order number', 'seller order id', 'order release id', 'cust order no', 'amazon order id', 'sub order no', 'transaction id', 'name'],
+    keywords: ['order', 'transaction'],
+    exclude: ['date', 'status', 'state', 'type', 'value', 'amount', 'on', 'quantity', 'qty', 'line', 'item'],
+    profile: 'identifier',
+  },
+  orderLineId: {
+    synonyms: ['order line id', 'order item id', 'order line item id', 'line item id', 'lineitem id', 'order item no', 'suborder id'],
+    keywords: ['line'],
+    exclude: ['date', 'status', 'name', 'price', 'quantity', 'qty', 'sku'],
+    profile: 'identifier',
+  },
+  customer: {
+    synonyms: ['customer name', 'customer', 'buyer name', 'billing name', 'ship to name', 'recipient name', 'customer id', 'email', 'buyer'],
+    keywords: ['customer', 'buyer', 'billing', 'recipient'],
+    exclude: ['city', 'state', 'pincode', 'zip', 'address', 'phone', 'order', 'delivery'],
+    profile: 'text',
+  },
+  item: {
+    synonyms: ['product name', 'product title', 'style name', 'item name', 'lineitem name', 'product', 'description', 'item description', 'title', 'product description', 'item'],
+    keywords: ['product', 'item', 'title', 'style', 'description'],
+    exclude: ['id', 'code', 'sku', 'quantity', 'qty', 'price', 'type', 'total'],
+    profile: 'text',
+  },
+  city: {
+    synonyms: ['city', 'ship city', 'shipping city', 'customer city', 'delivery city', 'ship to city', 'billing city', 'customer delivery city', 'destination city'],
+    keywords: ['city'],
+    profile: 'text',
+  },
+  state: {
+    synonyms: ['state', 'ship state', 'shipping state', 'customer state', 'delivery state', 'ship to state', 'shipping province', 'province', 'billing state', 'customer delivery state', 'destination state'],
+    keywords: ['state', 'province'],
+    exclude: ['order state', 'status'],
+    profile: 'state',
+  },
+  zipcode: {
+    synonyms: ['zipcode', 'zip code', 'zip', 'pincode', 'pin code', 'postal code', 'ship postal code', 'shipping zip', 'customer pincode', 'delivery pincode', 'ship to pincode'],
+    keywords: ['pincode', 'zip', 'postal', 'pin'],
+    profile: 'pincode',
+  },
+  brand: {
+    synonyms: ['brand', 'brand name', 'vendor', 'manufacturer', 'label'],
+    keywords: ['brand', 'vendor'],
+    profile: 'text',
+  },
+  orderStatus: {
+    synonyms: ['order status', 'status', 'order state', 'item status', 'fulfillment status', 'fulfilment status', 'shipment status', 'line status', 'forward status'],
+    keywords: ['status'],
+    exclude: ['payment', 'financial', 'return status', 'refund'],
+    profile: 'text',
+  },
+  cancellationReason: {
+    synonyms: ['cancellation reason', 'cancel reason', 'cancelled reason', 'reason for cancellation', 'cancellation reason code'],
+    keywords: ['reason'],
+    exclude: ['return'],
+    profile: 'text',
+  },
+  returnReason: {
+    synonyms: ['return reason', 'reason for return', 'return reason code', 'customer return reason', 'return sub reason', 'rto reason'],
+    keywords: ['reason'],
+    exclude: ['cancel', 'cancellation'],
+    profile: 'text',
+  },
+  courier: {
+    synonyms: ['courier', 'courier name', 'courier code', 'carrier', 'carrier name', 'logistics partner', 'shipping provider', 'delivery partner', 'shipment partner', 'lsp', 'tracking company'],
+    keywords: ['courier', 'carrier', 'logistics', 'lsp'],
+    profile: 'text',
+  },
+  sku: {
+    synonyms: ['sku', 'seller sku', 'seller sku code', 'sku code', 'sku id', 'myntra sku code', 'lineitem sku', 'item code', 'style id', 'fsn', 'asin', 'ean', 'product id', 'article number'],
+    keywords: ['sku', 'fsn', 'asin', 'ean'],
+    profile: 'identifier',
+  },
+  articleType: {
+    synonyms: ['article type', 'category', 'product type', 'sub category', 'product category', 'vertical', 'master category', 'item type'],
+    keywords: ['category', 'article', 'vertical'],
+    exclude: ['id', 'code'],
+    profile: 'text',
+  },
+};
+
+export const INDIAN_STATES = [
+  'andhra pradesh', 'arunachal pradesh', 'assam', 'bihar', 'chhattisgarh', 'goa', 'gujarat', 'haryana',
+  'himachal pradesh', 'jharkhand', 'karnataka', 'kerala', 'madhya pradesh', 'maharashtra', 'manipur',
+  'meghalaya', 'mizoram', 'nagaland', 'odisha', 'orissa', 'punjab', 'rajasthan', 'sikkim', 'tamil nadu',
+  'telangana', 'tripura', 'uttar pradesh', 'uttarakhand', 'uttaranchal', 'west bengal',
+  'andaman and nicobar islands', 'chandigarh', 'dadra and nagar haveli and daman and diu', 'dadra and nagar haveli',
+  'daman and diu', 'delhi', 'new delhi', 'nct of delhi', 'jammu and kashmir', 'jammu & kashmir', 'ladakh',
+  'lakshadweep', 'puducherry', 'pondicherry',
+];
+
+// ISO 3166-2:IN subdivision codes as used by Amazon and Shopify exports
+export const INDIAN_STATE_CODES = [
+  'AP', 'AR', 'AS', 'BR', 'CT', 'CG', 'GA', 'GJ', 'HR', 'HP', 'JH', 'KA', 'KL', 'MP', 'MH', 'MN', 'ML', 'MZ',
+  'NL', 'OR', 'OD', 'PB', 'RJ', 'SK', 'TN', 'TG', 'TS', 'TR', 'UP', 'UT', 'UK', 'WB', 'AN', 'CH', 'DN', 'DD',
+  'DH', 'DL', 'JK', 'LA', 'LD', 'PY',
+];
+
+const STATE_NAMES = new Set(INDIAN_STATES);
+const STATE_CODES = new Set(INDIAN_STATE_CODES);
+
+export const isIndianState = (value: string) => {
+  const trimmed = value.trim();
+  return STATE_NAMES.has(trimmed.toLowerCase().replace(/\s+/g, ' ')) || STATE_CODES.has(trimmed.toUpperCase());
+};
+
+const NAME_WEIGHT = 0.7;
+const VALUE_WEIGHT = 0.3;
+// Below this a field stays unmapped rather than guessing
+const MIN_SCORE = 0.35;
+
+// camelCase has to be split before lowercasing
+const normalize = (header: string) =>
+  header.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().replace(/[^a-z0-9%]+/g, ' ').trim();
+
+const containsPhrase = (header: string, phrase: string) => ` ${header} `.includes(` ${phrase} `);
+
+function nameScore(rawHeader: string, rule: FieldRule): number {
+  const header = normalize(rawHeader);
+  if (rule.exclude?.some(word => containsPhrase(header, word))) return 0;
+  if (rule.synonyms.includes(header)) return 1;
+  if (rule.synonyms.some(s => s.includes(' ') && containsPhrase(header, s))) return 0.8;
+  if (rule.keywords.some(k => containsPhrase(header, k))) return 0.5;
+  return 0;
+}
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+const DATE_PATTERNS = [
+  /^\d{4}-\d{1,2}-\d{1,2}([ T]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/,
+  /^\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}( \d{1,2}:\d{2}(:\d{2})?( ?[AaPp][Mm])?)?$/,
+  /^\d{1,2}[- ][A-Za-z]{3,9}[- ,]+\d{2,4}/,
+  /^[A-Za-z]{3,9} \d{1,2},? \d{4}/,
+];
+// Excel serial day numbers between 2000-01-01 and 2100-01-01
+const isExcelSerial = (value: number) => value >= 36526 && value <= 73051;
+
+const looksLikeDate = (value: unknown) => {
+  if (value instanceof Date) return !isNaN(value.getTime());
+  if (typeof value === 'number') return isExcelSerial(value);
+  const s = String(value).trim();
+  return DATE_PATTERNS.some(p => p.test(s));
+};
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return value;
+  const s = String(value).trim();
+  if (!/\d/.test(s) || /[A-Za-z]{2,}/.test(s.replace(/^(rs\.?|inr)/i, ''))) return null;
+  const n = parseFloat(s.replace(/[^0-9.-]+/g, ''));
+  return isNaN(n) ? null : n;
+};
+
+/**
+ * Fraction of non-empty sample values that fit a value profile.
+ */
+function valueScore(values: unknown[], profile: ValueProfile): number {
+  const present = values.filter(v => !isBlank(v));
+  if (present.length === 0) return 0;
+  const share = (test: (v: unknown) => boolean) => present.filter(test).length / present.length;
+
+  switch (profile) {
+    case 'date':
+      return share(looksLikeDate);
+    case 'amount':
+      return share(v => {
+        const n = toNumber(v);
+        return n !== null && !looksLikeDate(v) && !/^[1-9]\d{5}$/.test(String(v).trim());
+      });
+    case 'quantity':
+      return share(v => {
+        const n = toNumber(v);
+        return n !== null && Number.isInteger(n) && n >= 0 && n <= 1000;
+      });
+    case 'percent':
+      return share(v => {
+        const n = toNumber(v);
+        return n !== null && n >= 0 && n <= 100;
+      });
+    case 'pincode':
+      return share(v => /^[1-9]\d{5}$/.test(String(v).trim()));
+    case 'state':
+      return share(v => isIndianState(String(v)));
+    case 'identifier': {
+      const distinct = new Set(present.map(v => String(v).trim())).size / present.length;
+      const compact = share(v => !/\s/.test(String(v).trim()) && !looksLikeDate(v));
+      return Math.min(distinct, compact);
+    }
+    case 'text':
+      return share(v => toNumber(v) === null && !looksLikeDate(v));
+  }
+}
+
+// Profiles distinctive enough to map on values alone when no header matches
+const VALUE_ONLY_PROFILES: ValueProfile[] = ['pincode', 'state'];
+
+export function mapColumnsOffline(headers: string[], sampleData: OrderData[]): ColumnMapping {
+  const candidates: { field: keyof ColumnMapping; header: string; score: number }[] = [];
+  const fields = Object.keys(FIELD_RULES) as (keyof ColumnMapping)[];
+
+  headers.forEach(header => {
+    const values = sampleData.map(row => row[header]);
+    fields.forEach(field => {
+      const rule = FIELD_RULES[field];
+      const byName = nameScore(header, rule);
+      const byValue = valueScore(values, rule.profile);
+
+      let score = NAME_WEIGHT * byName + VALUE_WEIGHT * byValue;
+      if (byName === 0) {
+        score = VALUE_ONLY_PROFILES.includes(rule.profile) && byValue >= 0.9 ? MIN_SCORE + 0.05 * byValue : 0;
+      }
+      if (score >= MIN_SCORE) candidates.push({ field, header, score });
+    });
+  });
+
+  const mapping = emptyMapping();
+  const usedHeaders = new Set<string>();
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ field, header }) => {
+      if (mapping[field] || usedHeaders.has(header)) return;
+      mapping[field] = header;
+      usedHeaders.add(header);
+    });
+
+  return mapping;
+}
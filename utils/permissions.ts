@@ -0,0 +1,41 @@
+import { UploadBatch, UserProfile, UserRole } from '../types';
+import { toStorageKey } from './domains';
+
+export type Permission = 'upload' | 'generatePpt' | 'purge' | 'editMappings' | 'manageDomains' | 'manageCosts';
+
+// Mirrors the row-level security policies in supabase/migrations/20261019010000_roles.sql
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  viewer: [],
+  analyst: ['upload', 'generatePpt', 'manageCosts'],
+  admin: ['upload', 'generatePpt', 'purge', 'editMappings', 'manageDomains', 'manageCosts'],
+};
+
+export function hasPermission(profile: UserProfile, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[profile.role].includes(permission);
+}
+
+export function canAccessDomain(profile: UserProfile, domain: string): boolean {
+  return profile.allowedDomains === null || profile.allowedDomains.includes(toStorageKey(domain));
+}
+
+/**
+ * Client-side guard in front of write calls. The database enforces the same rules,
+ * this just fails fast with a readable message.
+ */
+export function assertPermission(profile: UserProfile, permission: Permission, domain?: string) {
+  if (!hasPermission(profile, permission)) {
+    throw new Error(`Your ${profile.role} role does not allow this action.`);
+  }
+  if (domain && !canAccessDomain(profile, domain)) {
+    throw new Error(`You do not have access to ${domain}.`);
+  }
+}
+
+/**
+ * Admins may roll back any upload and analysts their own, as in rollback_upload
+ * (supabase/migrations/20261019150000_rollback_order.sql).
+ */
+export function canRollbackUpload(profile: UserProfile, batch: UploadBatch): boolean {
+  if (!canAccessDomain(profile, batch.domain)) return false;
+  return hasPermission(profile, 'purge') || (hasPermission(profile, 'upload') && batch.uploadedBy === profile.userId);
+}
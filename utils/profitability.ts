@@ -0,0 +1,89 @@
+import { ColumnMapping, ProfitabilitySettings } from '../types';
+import { Aggregates } from './columnar';
+
+/**
+ * Net realisation: what a seller keeps of GMV once discounts, cancellations, returns/RTO,
+ * marketplace commission and shipping are taken out. Fees and shipping come from mapped
+ * settlement columns when the data has them, otherwise from the domain's rate card.
+ * Contribution margin further takes out the cost of the goods kept, from the cost master, and
+ * is measured only over the kept lines the cost master prices.
+ */
+
+export interface ProfitAndLoss {
+  gmv: number;
+  discounts: number;
+  cancellations: number;
+  returns: number;
+  netSales: number;
+  marketplaceFees: number;
+  shippingFees: number;
+  netRealisation: number;
+  costedSales: number;          // net sales of the lines the cost master prices
+  cogs: number;
+  contributionMargin: number;   // over those lines only
+}
+
+export interface WaterfallStep {
+  name: string;
+  value: number;                          // signed: deductions are negative
+  range: [number, number];                // low and high end of the bar
+  kind: 'total' | 'deduction';
+}
+
+export function profitAndLoss(totals: Aggregates, mapping: ColumnMapping, settings: ProfitabilitySettings): ProfitAndLoss {
+  const marketplaceFees = mapping.marketplaceFee
+    ? totals.marketplaceFees
+    : (settings.commissionPercent / 100) * totals.netSales + settings.fixedFeePerOrder * totals.shippedOrders;
+  const shippingFees = mapping.shippingFee
+    ? totals.shippingFees
+    : settings.shippingFeePerOrder * totals.shippedOrders + settings.returnShippingFee * totals.returnedOrders;
+  // Fees and shipping are shared out by net sales, so unpriced lines neither count as free
+  // goods nor take their fees out of the priced ones
+  const costedShare = totals.netSales > 0 ? totals.costedSales / totals.netSales : 0;
+  return {
+    gmv: totals.gmv,
+    discounts: totals.discounts,
+    cancellations: totals.cancelledValue,
+    returns: totals.returnedValue,
+    netSales: totals.netSales,
+    marketplaceFees,
+    shippingFees,
+    netRealisation: totals.netSales - marketplaceFees - shippingFees,
+    costedSales: totals.costedSales,
+    cogs: totals.cogs,
+    contributionMargin: totals.costedSales - (marketplaceFees + shippingFees) * costedShare - totals.cogs,
+  };
+}
+
+/**
+ * Bridge from GMV to net realisation, with Net Sales as a subtotal. Each deduction bar hangs
+ * from the running total, so the bars read left to right like a settlement statement.
+ */
+export function waterfallSteps(pnl: ProfitAndLoss): WaterfallStep[] {
+  const steps: WaterfallStep[] = [];
+  let running = 0;
+  const total = (name: string, value: number) => {
+    running = value;
+    steps.push({ name, value, range: [Math.min(0, value), Math.max(0, value)], kind: 'total' });
+  };
+  const deduct = (name: string, amount: number) => {
+    const next = running - amount;
+    steps.push({ name, value: -amount, range: [Math.min(running, next), Math.max(running, next)], kind: 'deduction' });
+    running = next;
+  };
+
+  total('GMV', pnl.gmv);
+  deduct('Discounts', pnl.discounts);
+  deduct('Cancellations', pnl.cancellations);
+  deduct('Returns / RTO', pnl.returns);
+  total('Net Sales', pnl.netSales);
+  deduct('Marketplace Fees', pnl.marketplaceFees);
+  deduct('Shipping', pnl.shippingFees);
+  total('Net Realisation', pnl.netRealisation);
+  // Only once the cost master prices every kept line; with gaps the margin is not a step from net realisation
+  if (pnl.cogs > 0 && pnl.costedSales >= pnl.netSales) {
+    deduct('COGS', pnl.cogs);
+    total('Contribution Margin', pnl.contributionMargin);
+  }
+  return steps;
+}
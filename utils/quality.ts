@@ -0,0 +1,142 @@
+import { ColumnMapping, OrderData, QualityReport, ColumnQuality } from '../types';
+import { MAPPING_FIELDS, isBlank, parseNumericCell } from './mapping';
+import { createColumnDateParser, normalizeDateColumns } from './dates';
+import { isIndianState } from './offlineMapper';
+
+// Revenue above Q3 + k * IQR is flagged; 3 keeps ordinary bulk orders out of the list
+const OUTLIER_IQR_MULTIPLIER = 3;
+const MAX_UNKNOWN_STATES = 10;
+
+const isBlankRow = (row: OrderData) => Object.values(row).every(isBlank);
+
+const serializeRow = (row: OrderData) => JSON.stringify(Object.entries(row).sort((a, b) => a[0].localeCompare(b[0])));
+
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const next = sorted[base + 1] ?? sorted[base];
+  return sorted[base] + (pos - base) * (next - sorted[base]);
+}
+
+/**
+ * Drops rows with no values at all; the same rule the quality report counts as "blank".
+ */
+export function removeBlankRows(data: OrderData[]): OrderData[] {
+  return data.filter(row => !isBlankRow(row));
+}
+
+const NUMERIC_FIELDS: (keyof ColumnMapping)[] = ['quantity', 'price', 'revenue', 'discount', 'marketplaceFee', 'shippingFee'];
+const DATE_FIELDS: (keyof ColumnMapping)[] = ['date', 'dispatchDate', 'deliveredDate', 'cancelledDate', 'returnDate'];
+
+/**
+ * Turns reviewed upload rows into what is stored: blank rows dropped, mapped numeric columns
+ * parsed to numbers (null when unreadable) and mapped date columns in canonical IST form.
+ */
+export function sanitizeUploadRows(data: OrderData[], mapping: ColumnMapping): OrderData[] {
+  const numericColumns = NUMERIC_FIELDS.map(key => mapping[key]).filter((column): column is string => !!column);
+  const sanitized = removeBlankRows(data).map(row => {
+    const newRow = { ...row };
+    for (const column of numericColumns) {
+      newRow[column] = parseNumericCell(newRow[column]);
+    }
+    return newRow;
+  });
+
+  const dateColumns = Array.from(new Set(DATE_FIELDS.map(key => mapping[key]).filter((column): column is string => !!column)));
+  return normalizeDateColumns(sanitized, dateColumns);
+}
+
+/**
+ * Profiles raw (pre-sanitisation) upload rows against the reviewed mapping so problems
+ * that would otherwise be silently nulled out are visible before anything is saved.
+ */
+export function buildQualityReport(data: OrderData[], mapping: ColumnMapping): QualityReport {
+  const rows = removeBlankRows(data);
+  const seen = new Set<string>();
+  let duplicate = 0;
+  rows.forEach(row => {
+    const key = serializeRow(row);
+    if (seen.has(key)) duplicate++;
+    else seen.add(key);
+  });
+
+  const columns: ColumnQuality[] = MAPPING_FIELDS
+    .filter(field => !!mapping[field.key])
+    .map(field => {
+      const column = mapping[field.key]!;
+      const values = rows.map(row => row[column]);
+      const present = values.filter(v => !isBlank(v));
+      let unparseable = 0;
+      if (field.kind === 'number') {
+        unparseable = present.filter(v => parseNumericCell(v) === null).length;
+      } else if (field.kind === 'date') {
+        const parse = createColumnDateParser(present);
+        unparseable = present.filter(v => parse(v) === null).length;
+      }
+      return {
+        field: field.key,
+        column,
+        nullRate: rows.length ? (rows.length - present.length) / rows.length : 0,
+        unparseable,
+      };
+    });
+
+  let negativeRevenue = 0;
+  let outlierRevenue = 0;
+  let revenueWithoutOrderId = 0;
+  if (mapping.revenue) {
+    const revenues = rows.map(row => parseNumericCell(row[mapping.revenue!]));
+    negativeRevenue = revenues.filter(r => r !== null && r < 0).length;
+
+    const positives = revenues.filter((r): r is number => r !== null && r > 0).sort((a, b) => a - b);
+    if (positives.length >= 4) {
+      const q1 = quantile(positives, 0.25);
+      const q3 = quantile(positives, 0.75);
+      const threshold = q3 + OUTLIER_IQR_MULTIPLIER * (q3 - q1);
+      outlierRevenue = positives.filter(r => r > threshold).length;
+    }
+
+    if (mapping.orderId) {
+      revenueWithoutOrderId = rows.filter((row, i) => {
+        const revenue = revenues[i];
+        return revenue !== null && revenue !== 0 && isBlank(row[mapping.orderId!]);
+      }).length;
+    }
+  }
+
+  const unknownStateCounts = new Map<string, number>();
+  if (mapping.state) {
+    rows.forEach(row => {
+      const value = row[mapping.state!];
+      if (isBlank(value) || isIndianState(String(value))) return;
+      const name = String(value).trim();
+      unknownStateCounts.set(name, (unknownStateCounts.get(name) || 0) + 1);
+    });
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    totalRows: data.length,
+    rowsDropped: { blank: data.length - rows.length, duplicate },
+    columns,
+    negativeRevenue,
+    outlierRevenue,
+    revenueWithoutOrderId,
+    unknownStates: Array.from(unknownStateCounts.entries())
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_UNKNOWN_STATES),
+  };
+}
+
+/**
+ * Number of distinct problems worth a look, used for the summary badge.
+ */
+export function countQualityIssues(report: QualityReport): number {
+  return report.columns.filter(c => c.unparseable > 0).length
+    + (report.negativeRevenue > 0 ? 1 : 0)
+    + (report.outlierRevenue > 0 ? 1 : 0)
+    + (report.revenueWithoutOrderId > 0 ? 1 : 0)
+    + (report.unknownStates.length > 0 ? 1 : 0)
+    + (report.rowsDropped.blank + report.rowsDropped.duplicate > 0 ? 1 : 0);
+}
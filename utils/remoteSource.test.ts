@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { OrderData, RemoteSourceConfig } from '../types';
+import { defaultRemoteConfig, fetchRemoteRows, parseHeaderLines, readPath } from './remoteSource';
+
+// A mock server: answers each request from `respond` and records the URLs asked for
+function mockFetch(respond: (url: URL) => Response) {
+  const requests: URL[] = [];
+  const fetch = (async (input: RequestInfo | URL) => {
+    const url = new URL(String(input));
+    requests.push(url);
+    return respond(url);
+  }) as typeof globalThis.fetch;
+  return { fetch, requests };
+}
+
+const json = (body: unknown) => new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json' } });
+
+// Enough CSV for the fixtures: header row, comma separated, no quoting
+const parseCsv = (text: string): OrderData[] => {
+  const [header, ...lines] = text.trim().split('\n');
+  const columns = header.split(',');
+  return lines.map(line => Object.fromEntries(line.split(',').map((cell, i) => [columns[i], cell])));
+};
+
+const config = (overrides: Partial<RemoteSourceConfig>): RemoteSourceConfig => ({
+  ...defaultRemoteConfig('https://api.example.com/orders'),
+  ...overrides,
+});
+
+describe('fetchRemoteRows', () => {
+  it('reads records nested under a records path', async () => {
+    const { fetch } = mockFetch(() => json({ data: { orders: [{ id: 1 }, { id: 2 }] } }));
+    const rows = await fetchRemoteRows(config({ recordsPath: 'data.orders' }), { fetch, parseCsv });
+    expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it('suggests a records path for an object body', async () => {
+    const { fetch } = mockFetch(() => json({ results: [{ id: 1 }] }));
+    await expect(fetchRemoteRows(config({}), { fetch, parseCsv })).rejects.toThrow('set the records path (e.g. "results")');
+  });
+
+  it('detects CSV and NDJSON bodies', async () => {
+    const csv = mockFetch(() => new Response('id,city\n1,Pune\n2,Agra\n', { headers: { 'content-type': 'text/csv' } }));
+    expect(await fetchRemoteRows(config({}), { fetch: csv.fetch, parseCsv })).toEqual([{ id: '1', city: 'Pune' }, { id: '2', city: 'Agra' }]);
+
+    const ndjson = mockFetch(() => new Response('{"id":1}\n\n{"id":2}\n'));
+    expect(await fetchRemoteRows(config({}), { fetch: ndjson.fetch, parseCsv })).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it('names the NDJSON line that does not parse', async () => {
+    const { fetch } = mockFetch(() => new Response('{"id":1}\n{"id":'));
+    await expect(fetchRemoteRows(config({ format: 'ndjson' }), { fetch, parseCsv })).rejects.toThrow('line 2 is not valid JSON');
+  });
+
+  it('reports the status of a failed request', async () => {
+    const { fetch } = mockFetch(() => new Response('', { status: 401, statusText: 'Unauthorized' }));
+    await expect(fetchRemoteRows(config({}), { fetch, parseCsv })).rejects.toThrow('Network Error: 401 Unauthorized');
+  });
+
+  it('pages until a short page', async () => {
+    const pages: Record<string, OrderData[]> = { '1': [{ id: 1 }, { id: 2 }], '2': [{ id: 3 }, { id: 4 }], '3': [{ id: 5 }] };
+    const { fetch, requests } = mockFetch(url => json(pages[url.searchParams.get('page')!] || []));
+    const progress: [number, number][] = [];
+    const rows = await fetchRemoteRows(
+      config({ pagination: { kind: 'page', pageParam: 'page', startPage: 1, pageSizeParam: 'limit', pageSize: 2, maxPages: 10 } }),
+      { fetch, parseCsv, onPage: (page, count) => progress.push([page, count]) },
+    );
+    expect(rows.map(row => row.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(requests.map(url => url.searchParams.get('limit'))).toEqual(['2', '2', '2']);
+    expect(progress).toEqual([[1, 2], [2, 4], [3, 5]]);
+  });
+
+  it('fails rather than stop quietly at maxPages with pages left', async () => {
+    const { fetch, requests } = mockFetch(() => json([{ id: 1 }]));
+    await expect(fetchRemoteRows(
+      config({ pagination: { kind: 'page', pageParam: 'p', startPage: 0, pageSizeParam: null, pageSize: null, maxPages: 3 } }),
+      { fetch, parseCsv },
+    )).rejects.toThrow('more than 3 pages');
+    expect(requests.map(url => url.searchParams.get('p'))).toEqual(['0', '1', '2']);
+  });
+
+  it('finishes on a short last page within maxPages', async () => {
+    const { fetch } = mockFetch(url => json(url.searchParams.get('p') === '1' ? [{ id: 2 }] : [{ id: 1 }, { id: 1 }]));
+    const rows = await fetchRemoteRows(
+      config({ pagination: { kind: 'page', pageParam: 'p', startPage: 0, pageSizeParam: null, pageSize: 2, maxPages: 2 } }),
+      { fetch, parseCsv },
+    );
+    expect(rows).toHaveLength(3);
+  });
+
+  it('fails when a cursor is still left at maxPages', async () => {
+    const { fetch, requests } = mockFetch(() => json({ items: [{ id: 1 }], next: 'more' }));
+    await expect(fetchRemoteRows(
+      config({ recordsPath: 'items', pagination: { kind: 'cursor', cursorParam: 'cursor', cursorPath: 'next', maxPages: 2 } }),
+      { fetch, parseCsv },
+    )).rejects.toThrow('more than 2 pages');
+    expect(requests).toHaveLength(2);
+  });
+
+  it('follows cursors, including a next-page URL in place of a token', async () => {
+    const { fetch, requests } = mockFetch(url => {
+      if (url.pathname === '/next') return json({ items: [{ id: 3 }], meta: { next: null } });
+      if (url.searchParams.get('cursor') === 'abc') return json({ items: [{ id: 2 }], meta: { next: 'https://api.example.com/next' } });
+      return json({ items: [{ id: 1 }], meta: { next: 'abc' } });
+    });
+    const rows = await fetchRemoteRows(
+      config({ recordsPath: 'items', pagination: { kind: 'cursor', cursorParam: 'cursor', cursorPath: 'meta.next', maxPages: 10 } }),
+      { fetch, parseCsv },
+    );
+    expect(rows.map(row => row.id)).toEqual([1, 2, 3]);
+    expect(requests.map(url => url.pathname + url.search)).toEqual(['/orders', '/orders?cursor=abc', '/next']);
+  });
+});
+
+describe('readPath', () => {
+  it('reads dot paths and misses quietly', () => {
+    expect(readPath({ a: { b: [1] } }, 'a.b')).toEqual([1]);
+    expect(readPath({ a: 1 }, 'a.b.c')).toBeUndefined();
+    expect(readPath([1], null)).toEqual([1]);
+  });
+});
+
+describe('parseHeaderLines', () => {
+  it('keeps colons inside values and skips lines without a name', () => {
+    expect(parseHeaderLines('Authorization: Bearer a:b\n: nothing\nX-Key:1')).toEqual({ Authorization: 'Bearer a:b', 'X-Key': '1' });
+  });
+});
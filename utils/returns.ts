@@ -0,0 +1,48 @@
+import { ColumnMapping } from '../types';
+
+/**
+ * Returns split into customer returns (delivered, then sent back) and RTO (return to origin:
+ * the courier could not deliver and brought the parcel back). Marketplaces only tell the two
+ * apart in the order status, so a line is classified from its status; a return date on a line
+ * whose status says neither still counts it as a customer return.
+ */
+
+export type ReturnKind = 'customer' | 'rto';
+
+// RTO statuses: "RTO", "RTO_DELIVERED", "Returned to Origin", "Return to Seller", "Undelivered"
+const RTO_PATTERN = /(^|[^a-z])rto([^a-z]|$)|return(ed)?[\s_-]*to[\s_-]*(origin|seller|sender)|undeliver/i;
+const RETURN_PATTERN = /return/i;
+
+/**
+ * Kind of return a line is, or null when it was not returned.
+ */
+export function classifyReturn(status: unknown, hasReturnDate: boolean): ReturnKind | null {
+  const text = status === null || status === undefined ? '' : String(status);
+  if (RTO_PATTERN.test(text)) return 'rto';
+  if (hasReturnDate || RETURN_PATTERN.test(text)) return 'customer';
+  return null;
+}
+
+// Either column is enough to find returns
+export const RETURN_COLUMNS: (keyof ColumnMapping)[] = ['returnDate', 'orderStatus'];
+
+// Dimensions the return rate is broken down by
+export type ReturnField = 'sku' | 'brand' | 'articleType' | 'city' | 'courier';
+export const RETURN_FIELDS: ReturnField[] = ['sku', 'brand', 'articleType', 'city', 'courier'];
+
+// Days from delivery to the return being raised; the last bucket is open-ended
+export const RETURN_LAG_BUCKETS: { label: string; maxDays: number }[] = [
+  { label: '0-3 days', maxDays: 3 },
+  { label: '4-7 days', maxDays: 7 },
+  { label: '8-15 days', maxDays: 15 },
+  { label: '16-30 days', maxDays: 30 },
+  { label: '31+ days', maxDays: Infinity },
+];
+
+export function lagBucket(days: number): number {
+  return RETURN_LAG_BUCKETS.findIndex(bucket => days <= bucket.maxDays);
+}
+
+// Values with fewer shipped lines than this are left out of return-rate rankings, where a
+// single return would otherwise read as 100%
+export const MIN_SHIPPED_FOR_RATE = 10;
@@ -0,0 +1,121 @@
+import { ColumnMapping, OrderData } from '../types';
+import { MAPPING_FIELDS, emptyMapping, isBlank } from './mapping';
+
+/**
+ * Combines several sheets of one workbook into a single upload. Each sheet is mapped on its
+ * own; rows are then renamed onto one combined mapping (a field takes its column name from
+ * the first sheet that maps it) so the domain still has a single mapping to read them with.
+ */
+
+export type SheetCombineMode = 'append' | 'join';
+
+export interface MappedSheet {
+  name: string;
+  rows: OrderData[];
+  mapping: ColumnMapping;
+}
+
+export interface CombinedSheets {
+  rows: OrderData[];
+  mapping: ColumnMapping;
+}
+
+// Added when several sheets are appended, so orders and returns stay distinguishable
+export const SOURCE_SHEET_COLUMN = 'Source Sheet';
+
+function combinedMapping(sheets: MappedSheet[]): ColumnMapping {
+  const mapping = emptyMapping();
+  MAPPING_FIELDS.forEach(({ key }) => {
+    mapping[key] = sheets.find(sheet => sheet.mapping[key])?.mapping[key] ?? null;
+  });
+  return mapping;
+}
+
+/**
+ * Rewrites a sheet's rows so its mapped columns carry the combined column names.
+ * Unmapped columns keep their own names.
+ */
+function renameRows(sheet: MappedSheet, target: ColumnMapping): OrderData[] {
+  const renames: [string, string][] = [];
+  MAPPING_FIELDS.forEach(({ key }) => {
+    const from = sheet.mapping[key];
+    const to = target[key];
+    if (from && to) renames.push([from, to]);
+  });
+  if (renames.every(([from, to]) => from === to)) return sheet.rows;
+
+  const renamedSources = new Set(renames.map(([from]) => from));
+  return sheet.rows.map(row => {
+    const out: OrderData = {};
+    Object.entries(row).forEach(([column, value]) => {
+      if (!renamedSources.has(column)) out[column] = value;
+    });
+    renames.forEach(([from, to]) => { out[to] = row[from]; });
+    return out;
+  });
+}
+
+const joinKey = (row: OrderData, columns: string[]) => {
+  const values = columns.map(column => row[column]);
+  return values.some(isBlank) ? null : values.map(v => String(v).trim()).join('|');
+};
+
+/**
+ * Appends the sheets, or joins later sheets onto the first by order id (plus SKU when both
+ * sheets map it). In a join the first sheet wins: later sheets only fill cells it leaves
+ * empty, and their rows without a matching order are appended.
+ */
+export function combineSheets(sheets: MappedSheet[], mode: SheetCombineMode): CombinedSheets {
+  if (sheets.length === 1) return { rows: sheets[0].rows, mapping: sheets[0].mapping };
+
+  const mapping = combinedMapping(sheets);
+  const renamed = sheets.map(sheet => renameRows(sheet, mapping));
+
+  if (mode === 'append') {
+    return {
+      rows: renamed.flatMap((rows, i) => rows.map(row => ({ ...row, [SOURCE_SHEET_COLUMN]: sheets[i].name }))),
+      mapping,
+    };
+  }
+
+  if (!mapping.orderId || sheets.some(sheet => !sheet.mapping.orderId)) {
+    throw new Error('Joining sheets needs the Order ID mapped on every selected sheet.');
+  }
+
+  const rows = renamed[0].map(row => ({ ...row }));
+  // One index per set of key columns, extended with the rows appended since it was last used
+  const indexes = new Map<string, { index: Map<string, OrderData[]>; size: number }>();
+  renamed.slice(1).forEach((sheetRows, i) => {
+    const sheet = sheets[i + 1];
+    const keyColumns = [mapping.orderId!, ...(sheets[0].mapping.sku && sheet.mapping.sku ? [mapping.sku!] : [])];
+
+    const layout = keyColumns.join('|');
+    const indexed = indexes.get(layout) || { index: new Map<string, OrderData[]>(), size: 0 };
+    for (let r = indexed.size; r < rows.length; r++) {
+      const key = joinKey(rows[r], keyColumns);
+      if (key === null) continue;
+      const bucket = indexed.index.get(key);
+      if (bucket) bucket.push(rows[r]);
+      else indexed.index.set(key, [rows[r]]);
+    }
+    indexed.size = rows.length;
+    indexes.set(layout, indexed);
+    const { index } = indexed;
+
+    sheetRows.forEach(row => {
+      const key = joinKey(row, keyColumns);
+      const matches = key !== null ? index.get(key) : undefined;
+      if (!matches) {
+        rows.push({ ...row });
+        return;
+      }
+      matches.forEach(match => {
+        Object.entries(row).forEach(([column, value]) => {
+          if (isBlank(match[column]) && !isBlank(value)) match[column] = value;
+        });
+      });
+    });
+  });
+
+  return { rows, mapping };
+}
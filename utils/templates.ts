@@ -0,0 +1,89 @@
+import { ColumnMapping, MappingTemplate, OrderData } from '../types';
+import { analyzeCsvData } from './gemini';
+import { findMappingTemplate, saveMappingTemplate } from './supabase';
+import { hashString } from './hash';
+
+export interface ResolvedMapping {
+  mapping: ColumnMapping;
+  signature: string;
+  template: MappingTemplate | null; // set when a saved layout was used and no AI call was made
+  exact: boolean;                    // false when `template` is the domain default rather than this layout
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Identifies an export layout by its column set, ignoring column order, case and spacing.
+ */
+export function headerSignature(headers: string[]): string {
+  const normalized = Array.from(new Set(headers.map(normalizeHeader))).sort();
+  return hashString(normalized.join('|'));
+}
+
+/**
+ * Re-keys a template mapping onto the file's own header spelling; columns the file lacks become unmapped.
+ */
+function applyTemplate(template: MappingTemplate, headers: string[]): ColumnMapping {
+  const byNormalized = new Map(headers.map(h => [normalizeHeader(h), h]));
+  const mapping = { ...template.mapping };
+  (Object.keys(mapping) as (keyof ColumnMapping)[]).forEach(key => {
+    const column = mapping[key];
+    mapping[key] = column ? byNormalized.get(normalizeHeader(column)) || null : null;
+  });
+  return mapping;
+}
+
+async function lookupTemplate(signature: string): Promise<MappingTemplate | null> {
+  try {
+    return await findMappingTemplate(signature);
+  } catch (err) {
+    // A failed lookup should never block an upload, it just costs an AI call
+    console.warn('Template lookup failed, falling back to AI mapping', err);
+    return null;
+  }
+}
+
+/**
+ * The saved mapping for exactly this layout, or null. Never calls the AI, so it is safe for
+ * unattended pulls that have nobody to review a suggested mapping.
+ */
+export async function findSavedMapping(headers: string[]): Promise<ResolvedMapping | null> {
+  const signature = headerSignature(headers);
+  const template = await lookupTemplate(signature);
+  return template ? { mapping: applyTemplate(template, headers), signature, template, exact: true } : null;
+}
+
+/**
+ * Maps columns from a saved template when the layout is known, then from the target domain's
+ * default template if it still fits some of the columns, otherwise asks the AI.
+ */
+export async function resolveMapping(headers: string[], sampleData: OrderData[], defaultTemplate: string | null = null): Promise<ResolvedMapping> {
+  const signature = headerSignature(headers);
+
+  const template = await lookupTemplate(signature);
+  if (template) {
+    return { mapping: applyTemplate(template, headers), signature, template, exact: true };
+  }
+
+  const fallback = defaultTemplate ? await lookupTemplate(defaultTemplate) : null;
+  if (fallback) {
+    const mapping = applyTemplate(fallback, headers);
+    if (Object.values(mapping).some(Boolean)) {
+      return { mapping, signature, template: fallback, exact: false };
+    }
+  }
+
+  const mapping = await analyzeCsvData(headers, sampleData);
+  return { mapping, signature, template: null, exact: false };
+}
+
+/**
+ * Records the mapping a user confirmed so the next file with this layout skips the AI.
+ */
+export async function rememberMapping(domain: string, resolved: ResolvedMapping, headers: string[], mapping: ColumnMapping) {
+  try {
+    await saveMappingTemplate(domain, resolved.signature, headers, mapping);
+  } catch (err) {
+    console.warn(`Could not save mapping template for ${domain}`, err);
+  }
+}
@@ -0,0 +1,166 @@
+import { ColumnMapping } from '../types';
+import { RETURN_COLUMNS } from './returns';
+
+/**
+ * Bucketing and smoothing for the dashboard trend chart. Input is per IST day keyed by
+ * `YYYY-MM-DD`, so calendar arithmetic here is plain UTC arithmetic on the key itself.
+ */
+
+export type Granularity = 'day' | 'week' | 'month' | 'quarter';
+export type TrendMetric = 'orders' | 'gmv' | 'netSales' | 'units' | 'aov' | 'cancelled' | 'returns' | 'returnRate' | 'rtoRate';
+
+export interface DayTotals {
+  orders: number;
+  gmv: number;       // as the GMV and Net Sales KPIs, so the trend adds up to the cards
+  netSales: number;
+  units: number;
+  cancelled: number;
+  returns: number;
+  rto: number;
+}
+
+export interface TrendDay {
+  date: string;
+  current: DayTotals;
+  comparison?: DayTotals;  // comparison-period totals aligned onto this day
+}
+
+export interface TrendPoint {
+  date: string;        // first day of the bucket
+  label: string;
+  value: number;
+  comparison?: number;
+  average?: number;    // trailing moving average of `value`
+}
+
+export const GRANULARITIES: { key: Granularity; label: string }[] = [
+  { key: 'day', label: 'Day' },
+  { key: 'week', label: 'Week' },
+  { key: 'month', label: 'Month' },
+  { key: 'quarter', label: 'Quarter' },
+];
+
+export interface TrendMetricOption {
+  key: TrendMetric;
+  label: string;
+  currency?: boolean;
+  percent?: boolean;
+  requires?: (keyof ColumnMapping)[];  // hidden unless the domain maps one of these columns
+}
+
+export const TREND_METRICS: TrendMetricOption[] = [
+  { key: 'orders', label: 'Orders' },
+  { key: 'gmv', label: 'GMV', currency: true },
+  { key: 'netSales', label: 'Net Sales', currency: true },
+  { key: 'units', label: 'Units', requires: ['quantity'] },
+  { key: 'aov', label: 'Avg Order Value', currency: true },
+  { key: 'cancelled', label: 'Cancellations', requires: ['cancelledDate'] },
+  { key: 'returns', label: 'Returns', requires: RETURN_COLUMNS },
+  { key: 'returnRate', label: 'Return Rate', percent: true, requires: RETURN_COLUMNS },
+  { key: 'rtoRate', label: 'RTO Rate', percent: true, requires: ['orderStatus'] },
+];
+
+export const trendMetricAvailable = (metric: TrendMetricOption, mapping: ColumnMapping | null | undefined) =>
+  !metric.requires || metric.requires.some(column => mapping?.[column]);
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const emptyDayTotals = (): DayTotals => ({ orders: 0, gmv: 0, netSales: 0, units: 0, cancelled: 0, returns: 0, rto: 0 });
+
+const fromKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+const toKey = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * First day of the bucket a day falls in. Weeks start on Monday; quarters follow the Indian
+ * financial year (Apr-Jun is Q1), whose boundaries coincide with calendar quarters.
+ */
+export function bucketStart(dayKey: string, granularity: Granularity): string {
+  const date = fromKey(dayKey);
+  if (granularity === 'week') date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  if (granularity === 'month' || granularity === 'quarter') date.setUTCDate(1);
+  if (granularity === 'quarter') date.setUTCMonth(date.getUTCMonth() - (date.getUTCMonth() % 3));
+  return toKey(date);
+}
+
+function nextBucket(startKey: string, granularity: Granularity): string {
+  const date = fromKey(startKey);
+  if (granularity === 'day') date.setUTCDate(date.getUTCDate() + 1);
+  else if (granularity === 'week') date.setUTCDate(date.getUTCDate() + 7);
+  else date.setUTCMonth(date.getUTCMonth() + (granularity === 'month' ? 1 : 3));
+  return toKey(date);
+}
+
+export function bucketLabel(startKey: string, granularity: Granularity): string {
+  const date = fromKey(startKey);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = `${String(date.getUTCDate()).padStart(2, '0')} ${MONTH_NAMES[month]} ${year}`;
+  if (granularity === 'day') return day;
+  if (granularity === 'week') return `Wk of ${day}`;
+  if (granularity === 'month') return `${MONTH_NAMES[month]} ${year}`;
+  const quarter = Math.floor(((month + 9) % 12) / 3) + 1;
+  const fiscalYear = month >= 3 ? year + 1 : year;
+  return `Q${quarter} FY${String(fiscalYear).slice(2)}`;
+}
+
+function metricValue(totals: DayTotals, metric: TrendMetric): number {
+  // GMV per order, as the Avg Order KPI
+  if (metric === 'aov') return totals.orders > 0 ? totals.gmv / totals.orders : 0;
+  // Rates are of the orders placed in the bucket, since returns are dated by their order
+  if (metric === 'returnRate') return totals.orders > 0 ? (totals.returns / totals.orders) * 100 : 0;
+  if (metric === 'rtoRate') return totals.orders > 0 ? (totals.rto / totals.orders) * 100 : 0;
+  return totals[metric];
+}
+
+export const addDayTotals = (target: DayTotals, source: DayTotals) => {
+  target.orders += source.orders;
+  target.gmv += source.gmv;
+  target.netSales += source.netSales;
+  target.units += source.units;
+  target.cancelled += source.cancelled;
+  target.returns += source.returns;
+  target.rto += source.rto;
+};
+
+/**
+ * One point per bucket from the first to the last bucket with data, empty buckets as zero so
+ * the line and its moving average (over `smoothing` buckets, off below 2) keep a true time axis.
+ */
+export function buildTrend(days: TrendDay[], granularity: Granularity, metric: TrendMetric, smoothing = 0): TrendPoint[] {
+  const hasComparison = days.some(day => day.comparison);
+  const buckets = new Map<string, { current: DayTotals; comparison: DayTotals }>();
+  days.forEach(day => {
+    const key = bucketStart(day.date, granularity);
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { current: emptyDayTotals(), comparison: emptyDayTotals() };
+      buckets.set(key, bucket);
+    }
+    addDayTotals(bucket.current, day.current);
+    if (day.comparison) addDayTotals(bucket.comparison, day.comparison);
+  });
+  if (buckets.size === 0) return [];
+
+  const keys = [...buckets.keys()].sort();
+  const last = keys[keys.length - 1];
+  const points: TrendPoint[] = [];
+  for (let key = keys[0]; key <= last; key = nextBucket(key, granularity)) {
+    const bucket = buckets.get(key);
+    const point: TrendPoint = { date: key, label: bucketLabel(key, granularity), value: bucket ? metricValue(bucket.current, metric) : 0 };
+    if (hasComparison) point.comparison = bucket ? metricValue(bucket.comparison, metric) : 0;
+    points.push(point);
+  }
+
+  if (smoothing > 1) {
+    let sum = 0;
+    points.forEach((point, i) => {
+      sum += point.value;
+      if (i >= smoothing) sum -= points[i - smoothing].value;
+      point.average = sum / Math.min(i + 1, smoothing);
+    });
+  }
+  return points;
+}
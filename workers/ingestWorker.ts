@@ -0,0 +1,180 @@
+import { ColumnMapping, OrderData, RemoteSourceConfig } from '../types';
+import type { CombinedSource, IngestProgress, IngestRequest, IngestResponse, IngestSource, LoadedSource, SheetSelection } from '../utils/ingestClient';
+import { detectHeaders } from '../utils/mapping';
+import { buildQualityReport, sanitizeUploadRows } from '../utils/quality';
+import { DedupKeyFields, matchStoredRows, planUploadMerge } from '../utils/dedup';
+import { SheetCombineMode, combineSheets } from '../utils/sheets';
+import { fetchRemoteRows } from '../utils/remoteSource';
+
+// The page loads these as window globals; module workers cannot use importScripts, so the
+// same versions are pulled in as ES modules on first use.
+const PAPAPARSE_URL = 'https://cdn.jsdelivr.net/npm/papaparse@5.4.1/+esm';
+const XLSX_URL = 'https://cdn.jsdelivr.net/npm/xlsx@0.18.5/+esm';
+
+const CSV_CHUNK_BYTES = 1024 * 1024;
+const SAMPLE_ROWS = 50;
+// Progress messages are throttled; a 300k-row file would otherwise post thousands
+const PROGRESS_INTERVAL_MS = 100;
+
+// Rows of every loaded sheet, and the combination of the selected ones, kept here between
+// review and confirmation
+let sheetRows = new Map<string, OrderData[]>();
+let rows: OrderData[] = [];
+// Between matching an upload against stored rows and receiving the rows it matched
+let pendingMerge: { identities: string[]; incoming: OrderData[]; mapping: ColumnMapping; dedupKeys: DedupKeyFields } | null = null;
+
+const post = (response: IngestResponse) => self.postMessage(response);
+
+let lastProgressAt = 0;
+function progress(id: number, update: IngestProgress, force = false) {
+  const now = Date.now();
+  if (!force && now - lastProgressAt < PROGRESS_INTERVAL_MS) return;
+  lastProgressAt = now;
+  post({ id, type: 'progress', progress: update });
+}
+
+const loadLibrary = (url: string): Promise<any> => import(/* @vite-ignore */ url);
+
+function parseCsv(id: number, file: File): Promise<OrderData[]> {
+  return loadLibrary(PAPAPARSE_URL).then(({ default: Papa }) => new Promise((resolve, reject) => {
+    const parsed: OrderData[] = [];
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      chunkSize: CSV_CHUNK_BYTES,
+      chunk: (results: any, parser: any) => {
+        if (results.errors.length) {
+          parser.abort();
+          reject(new Error(`CSV Error: ${results.errors[0].message}`));
+          return;
+        }
+        for (const row of results.data) parsed.push(row);
+        progress(id, { phase: 'parsing', rows: parsed.length, loaded: results.meta.cursor, total: file.size });
+      },
+      complete: () => resolve(parsed),
+      error: (err: Error) => reject(err),
+    });
+  }));
+}
+
+async function readWithProgress(id: number, stream: ReadableStream<Uint8Array>, total: number, phase: IngestProgress['phase']): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    progress(id, { phase, rows: 0, loaded, total: total || undefined });
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return bytes;
+}
+
+async function parseWorkbook(id: number, file: File): Promise<Map<string, OrderData[]>> {
+  const [XLSX, bytes] = await Promise.all([loadLibrary(XLSX_URL), readWithProgress(id, file.stream(), file.size, 'reading')]);
+  // SheetJS has no streaming reader, but here it only blocks the worker
+  progress(id, { phase: 'converting', rows: 0 }, true);
+  const workbook = XLSX.read(bytes, { type: 'array' });
+  const sheets = new Map<string, OrderData[]>();
+  (workbook.SheetNames as string[]).forEach(name => {
+    const sheet = XLSX.utils.sheet_to_json(workbook.Sheets[name], { cellDates: true }) as OrderData[];
+    if (sheet.length > 0) sheets.set(name, sheet);
+  });
+  return sheets;
+}
+
+// Papa is only fetched when a response actually turns out to be CSV
+async function parseCsvText(text: string): Promise<OrderData[]> {
+  const { default: Papa } = await loadLibrary(PAPAPARSE_URL);
+  const results = Papa.parse(text, { header: true, skipEmptyLines: true });
+  if (results.errors.length) throw new Error(`CSV Error: ${results.errors[0].message}`);
+  return results.data;
+}
+
+async function fetchRemote(id: number, config: RemoteSourceConfig): Promise<OrderData[]> {
+  return fetchRemoteRows(config, {
+    parseCsv: parseCsvText,
+    onPage: (_page, total) => progress(id, { phase: 'downloading', rows: total }, true),
+  });
+}
+
+async function readSource(id: number, source: IngestSource): Promise<Map<string, OrderData[]>> {
+  if (source.kind === 'url') return new Map([['', await fetchRemote(id, source.config)]]);
+  const fileName = source.file.name.toLowerCase();
+  if (fileName.endsWith('.csv')) return new Map([['', await parseCsv(id, source.file)]]);
+  if (fileName.endsWith('.xls') || fileName.endsWith('.xlsx')) return parseWorkbook(id, source.file);
+  throw new Error("Unsupported format. Use CSV or Excel.");
+}
+
+async function load(id: number, source: IngestSource): Promise<LoadedSource> {
+  progress(id, { phase: 'loading', rows: 0 }, true);
+  rows = [];
+  sheetRows = await readSource(id, source);
+
+  const total = Array.from(sheetRows.values()).reduce((sum, sheet) => sum + sheet.length, 0);
+  if (total === 0) throw new Error("The data source is empty. Please provide valid data.");
+  progress(id, { phase: 'parsing', rows: total }, true);
+  return {
+    sheets: Array.from(sheetRows, ([name, sheet]) => ({
+      name,
+      headers: detectHeaders(sheet),
+      sample: sheet.slice(0, SAMPLE_ROWS),
+      rowCount: sheet.length,
+    })),
+  };
+}
+
+function combine(id: number, selection: SheetSelection[], mode: SheetCombineMode): CombinedSource {
+  const sheets = selection.map(({ name, mapping }) => {
+    const sheet = sheetRows.get(name);
+    if (!sheet) throw new Error(`Sheet "${name}" is not loaded.`);
+    return { name, rows: sheet, mapping };
+  });
+  progress(id, { phase: 'combining', rows: sheets.reduce((sum, sheet) => sum + sheet.rows.length, 0) }, true);
+  const combined = combineSheets(sheets, mode);
+  rows = combined.rows;
+  return { mapping: combined.mapping, rowCount: rows.length };
+}
+
+async function handle(request: IngestRequest): Promise<IngestResponse> {
+  switch (request.type) {
+    case 'load':
+      return { id: request.id, type: 'loaded', result: await load(request.id, request.source) };
+    case 'combine':
+      return { id: request.id, type: 'combined', result: combine(request.id, request.sheets, request.mode) };
+    case 'report':
+      progress(request.id, { phase: 'profiling', rows: rows.length }, true);
+      return { id: request.id, type: 'report', report: buildQualityReport(rows, request.mapping) };
+    case 'prepare':
+      progress(request.id, { phase: 'cleaning', rows: rows.length }, true);
+      return { id: request.id, type: 'prepared', rows: sanitizeUploadRows(rows, request.mapping) };
+    case 'match': {
+      const { identities, incoming, mapping, dedupKeys } = request;
+      progress(request.id, { phase: 'deduplicating', rows: incoming.length }, true);
+      pendingMerge = { identities, incoming, mapping, dedupKeys };
+      return { id: request.id, type: 'matched', indices: matchStoredRows(identities, incoming, mapping, dedupKeys) };
+    }
+    case 'merge': {
+      if (!pendingMerge) throw new Error('No upload is waiting to be merged.');
+      const { identities, incoming, mapping, dedupKeys } = pendingMerge;
+      pendingMerge = null;
+      const stored = new Map(request.indices.map((index, i) => [index, request.rows[i]]));
+      return { id: request.id, type: 'merged', plan: planUploadMerge(identities, index => stored.get(index)!, incoming, mapping, dedupKeys) };
+    }
+  }
+}
+
+self.onmessage = (e: MessageEvent<IngestRequest>) => {
+  const request = e.data;
+  handle(request)
+    .then(post)
+    .catch((err: any) => post({ id: request.id, type: 'error', message: err?.message || 'Import failed.' }));
+};